@@ -1,4 +1,7 @@
+import http from 'http';
+import { AddressInfo } from 'net';
 import { ApiService } from '../services/api';
+import { ResponseCache } from '../services/cache';
 
 // Skip these tests in CI environments
 const itLive = process.env.CI ? it.skip : it;
@@ -35,4 +38,71 @@ describe('ApiService', () => {
       expect(true).toBe(true);
     });
   });
+
+  describe('configurable upstream', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let lastHeaders: http.IncomingHttpHeaders = {};
+
+    beforeAll(async () => {
+      // Local stand-in for a tkconv mirror that records request headers
+      server = http.createServer((req, res) => {
+        lastHeaders = req.headers;
+        if (req.url === '/tkconv/search') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ results: [{ id: '2024D39058' }] }));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end('<!DOCTYPE html><title>mirror</title>');
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/tkconv/`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send requests to the configured base URL with the configured headers', async () => {
+      const mirrorService = new ApiService({
+        baseUrl,
+        cache: null,
+        userAgent: 'opentk-test',
+        headers: { 'X-Mirror-Key': 'abc' }
+      });
+
+      const html = await mirrorService.fetchHtml('/kamerleden.html');
+
+      expect(mirrorService.baseUrl).toBe(baseUrl.replace(/\/$/, ''));
+      expect(html).toContain('mirror');
+      expect(lastHeaders['user-agent']).toBe('opentk-test');
+      expect(lastHeaders['x-mirror-key']).toBe('abc');
+    });
+
+    it('should derive Host, Origin and Referer for searches from the base URL', async () => {
+      const mirrorService = new ApiService({ baseUrl, cache: null });
+
+      const result = await mirrorService.search<{ results: any[] }>('stikstof');
+      const origin = new URL(baseUrl).origin;
+
+      expect(result.results).toHaveLength(1);
+      expect(lastHeaders.host).toBe(new URL(baseUrl).host);
+      expect(lastHeaders.origin).toBe(origin);
+      expect(lastHeaders.referer).toBe(`${origin}/tkconv/search.html?q=stikstof&twomonths=false&soorten=alles`);
+    });
+
+    it('should return the cache status together with each response', async () => {
+      const mirrorService = new ApiService({ baseUrl, cache: new ResponseCache({ maxEntries: 10, maxBytes: 1024 * 1024 }) });
+
+      const first = await mirrorService.fetchHtmlWithStatus('/kamerleden.html');
+      const second = await mirrorService.fetchHtmlWithStatus('/kamerleden.html');
+      const fresh = await mirrorService.fetchHtmlWithStatus('/kamerleden.html', { noCache: true });
+
+      expect(first.cache).toMatchObject({ status: 'miss', source: 'network' });
+      expect(second.cache).toMatchObject({ status: 'hit', source: 'memory' });
+      expect(second.html).toBe(first.html);
+      expect(fresh.cache).toMatchObject({ status: 'miss', source: 'network' });
+    });
+  });
 });
@@ -0,0 +1,65 @@
+/**
+ * Tests for finding citations in document text
+ */
+
+import { extractCitations } from '../utils/citations';
+
+describe('Citation extraction', () => {
+  it('should find Kamerstukken and Handelingen with their offsets', () => {
+    const text = 'Zie Kamerstukken II 2023/24, 36200-XIV, nr. 12 en Handelingen II 2023/24, nr. 45, item 12, en ook kst-36410-5.';
+    const citations = extractCitations(text);
+
+    expect(citations.map(citation => [citation.type, citation.normalized])).toEqual([
+      ['kamerstuk', 'Kamerstuk 36200-XIV, nr. 12'],
+      ['handelingen', 'Handelingen II 2023/24, nr. 45, item 12'],
+      ['kamerstuk', 'Kamerstuk 36410, nr. 5']
+    ]);
+    for (const citation of citations) {
+      expect(text.slice(citation.start, citation.end)).toBe(citation.text);
+    }
+    expect(citations[0]!.text).toBe('Kamerstukken II 2023/24, 36200-XIV, nr. 12');
+    expect(citations[1]!.references).toEqual([expect.objectContaining({ id: 'h-tk-20232024-45-12' })]);
+  });
+
+  it('should report every Kamerstuk a citation names', () => {
+    const [citation] = extractCitations('Zie ook 21501-32, nrs. 1234 en 1235.');
+
+    expect(citation!.references.map(reference => reference.id)).toEqual(['kst-21501-32-1234', 'kst-21501-32-1235']);
+  });
+
+  it('should report the Kamerstuk of a motion as part of the motion', () => {
+    const citations = extractCitations('De motie-Van der Plas c.s. (36200, nr. 12) en het amendement-Bontenbal/Dijk (over stikstof) zijn aangenomen.');
+
+    expect(citations.map(citation => [citation.type, citation.text, citation.normalized])).toEqual([
+      ['motie', 'motie-Van der Plas c.s. (36200, nr. 12)', 'motie-Van der Plas c.s. (Kamerstuk 36200, nr. 12)'],
+      ['amendement', 'amendement-Bontenbal/Dijk', 'amendement-Bontenbal/Dijk']
+    ]);
+    expect(citations[0]!.references).toEqual([expect.objectContaining({ id: 'kst-36200-12' })]);
+  });
+
+  it('should find laws and articles', () => {
+    const citations = extractCitations('Op grond van artikel 2, eerste lid, van de Wet natuurbescherming en artikel 6:162 BW. De Omgevingswet treedt in werking. De Wet is duidelijk.');
+
+    expect(citations.map(citation => [citation.text, citation.normalized])).toEqual([
+      ['artikel 2, eerste lid, van de Wet natuurbescherming', 'artikel 2, eerste lid, Wet natuurbescherming'],
+      ['artikel 6:162 BW', 'artikel 6:162 BW'],
+      ['Omgevingswet', 'Omgevingswet']
+    ]);
+    expect(citations.every(citation => citation.type === 'wet')).toBe(true);
+  });
+
+  it('should link court rulings and recognize document numbers', () => {
+    const citations = extractCitations('Zie ECLI:NL:RVS:2019:1603. Brief 2024D39058 en zaak 2024Z01234.');
+
+    expect(citations.map(citation => [citation.type, citation.normalized, citation.url])).toEqual([
+      ['ecli', 'ECLI:NL:RVS:2019:1603', 'https://uitspraken.rechtspraak.nl/details?id=ECLI:NL:RVS:2019:1603'],
+      ['document', '2024D39058', null],
+      ['document', '2024Z01234', null]
+    ]);
+    expect(citations[2]!.references).toEqual([expect.objectContaining({ kind: 'zaak' })]);
+  });
+
+  it('should not mistake dates and amounts for citations', () => {
+    expect(extractCitations('Op 12 oktober 2024 is 35.000 euro uitgekeerd aan 12345 bedrijven.')).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for validating settings from the environment and the config file
+ */
+
+import { parseHeadersJson, parseNumberSetting, validateHeaders } from '../config';
+
+/**
+ * Loads a fresh copy of the config module with the given environment variables set
+ */
+function loadConfig(env: Record<string, string>): typeof import('../config') {
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let config: typeof import('../config') | undefined;
+    jest.isolateModules(() => {
+      config = require('../config');
+    });
+    return config!;
+  } finally {
+    process.env = previous;
+  }
+}
+
+describe('config', () => {
+  describe('extra headers', () => {
+    it('should accept a JSON object of strings', () => {
+      expect(parseHeadersJson('{"X-Mirror-Key":"abc"}', 'OPENTK_HEADERS')).toEqual({ 'X-Mirror-Key': 'abc' });
+    });
+
+    it('should reject malformed JSON with a clear message', () => {
+      expect(() => parseHeadersJson('{X-Mirror-Key: abc}', 'OPENTK_HEADERS'))
+        .toThrow(/^OPENTK_HEADERS must be a JSON object of strings/);
+    });
+
+    it('should reject values that are not an object of strings', () => {
+      expect(() => parseHeadersJson('["X-Mirror-Key"]', 'OPENTK_HEADERS')).toThrow('OPENTK_HEADERS must be a JSON object of strings');
+      expect(() => parseHeadersJson('{"X-Retries":3}', 'OPENTK_HEADERS')).toThrow('OPENTK_HEADERS must be a JSON object of strings');
+      expect(() => validateHeaders(null, 'The "headers" entry')).toThrow('The "headers" entry must be a JSON object of strings');
+    });
+  });
+
+  describe('numeric settings', () => {
+    it('should use the default when unset and parse given values', () => {
+      expect(parseNumberSetting(undefined, 'OPENTK_RATE_LIMIT', 5, 0)).toBe(5);
+      expect(parseNumberSetting('', 'OPENTK_RATE_LIMIT', 5, 0)).toBe(5);
+      expect(parseNumberSetting('0.5', 'OPENTK_RATE_LIMIT', 5, 0)).toBe(0.5);
+      expect(parseNumberSetting('0', 'OPENTK_RATE_BURST', 10, 0)).toBe(0);
+    });
+
+    it('should reject a concurrency of zero', () => {
+      expect(() => parseNumberSetting('0', 'OPENTK_MAX_CONCURRENT', 4, 1))
+        .toThrow('OPENTK_MAX_CONCURRENT must be a number of at least 1, got "0"');
+    });
+
+    it('should reject values that are not numbers', () => {
+      expect(() => parseNumberSetting('fast', 'OPENTK_RATE_LIMIT', 5, 0)).toThrow('OPENTK_RATE_LIMIT must be a number');
+      expect(() => parseNumberSetting('four', 'OPENTK_MAX_CONCURRENT', 4, 1)).toThrow('OPENTK_MAX_CONCURRENT must be a number');
+    });
+
+    it('should reject negative rates', () => {
+      expect(() => parseNumberSetting('-1', 'OPENTK_RATE_BURST', 10, 0)).toThrow('OPENTK_RATE_BURST must be a number of at least 0');
+    });
+
+    it('should validate the cache size settings', () => {
+      const config = loadConfig({ OPENTK_CACHE_MAX_ENTRIES: '20', OPENTK_CACHE_MAX_MB: '1' });
+      expect(config.CACHE_MAX_ENTRIES).toBe(20);
+      expect(config.CACHE_MAX_BYTES).toBe(1024 * 1024);
+
+      expect(() => loadConfig({ OPENTK_CACHE_MAX_ENTRIES: '0' }))
+        .toThrow('OPENTK_CACHE_MAX_ENTRIES must be a number of at least 1, got "0"');
+      expect(() => loadConfig({ OPENTK_CACHE_MAX_MB: 'lots' })).toThrow('OPENTK_CACHE_MAX_MB must be a number');
+    });
+
+    it('should validate the timeout, retry and circuit breaker settings', () => {
+      const config = loadConfig({ OPENTK_TIMEOUT_MS: '5000', OPENTK_RETRIES: '0', OPENTK_CIRCUIT_COOLDOWN_MS: '0' });
+      expect(config.REQUEST_TIMEOUT_MS).toBe(5000);
+      expect(config.RETRY_COUNT).toBe(0);
+      expect(config.CIRCUIT_COOLDOWN_MS).toBe(0);
+
+      expect(() => loadConfig({ OPENTK_TIMEOUT_MS: '0' })).toThrow('OPENTK_TIMEOUT_MS must be a number of at least 1, got "0"');
+      expect(() => loadConfig({ OPENTK_RETRIES: 'three' })).toThrow('OPENTK_RETRIES must be a number of at least 0');
+      expect(() => loadConfig({ OPENTK_RETRY_BASE_MS: '-100' })).toThrow('OPENTK_RETRY_BASE_MS must be a number of at least 0');
+      expect(() => loadConfig({ OPENTK_RETRY_MAX_MS: '10s' })).toThrow('OPENTK_RETRY_MAX_MS must be a number of at least 0');
+      expect(() => loadConfig({ OPENTK_CIRCUIT_THRESHOLD: '0' })).toThrow('OPENTK_CIRCUIT_THRESHOLD must be a number of at least 1');
+      expect(() => loadConfig({ OPENTK_CIRCUIT_COOLDOWN_MS: '-1' })).toThrow('OPENTK_CIRCUIT_COOLDOWN_MS must be a number of at least 0');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Tests for reading dates from documents and pages
+ */
+
+import { parseDutchDate, toIsoDate } from '../utils/dates';
+
+describe('Dates', () => {
+  it('should read the first Dutch date in a text', () => {
+    expect(parseDutchDate('Voorgesteld 3 oktober 2024')).toBe('2024-10-03');
+    expect(parseDutchDate('Ingezonden op 15 Maart 2024, beantwoord 2 april 2024')).toBe('2024-03-15');
+    expect(parseDutchDate('15 brumaire 2024')).toBeNull();
+  });
+
+  it('should normalize the date formats used upstream', () => {
+    expect(toIsoDate('2024-10-15T10:30:00')).toBe('2024-10-15');
+    expect(toIsoDate('5-3-2024')).toBe('2024-03-05');
+    expect(toIsoDate('15 oktober 2024')).toBe('2024-10-15');
+    expect(toIsoDate('onbekend')).toBeNull();
+    expect(toIsoDate(null)).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for splitting debate transcripts into speaker turns and the statistics and quotes built on them
+ */
+
+import { segmentSpeakerTurns, computeDebateStatistics, extractQuotes, splitSentences, speakerMatchesName, countWords } from '../utils/debate-transcript';
+
+const TRANSCRIPT = `Tweede Kamer, Stikstofbeleid
+
+De voorzitter:
+Aan de orde is het debat over het stikstofbeleid. Ik geef het woord aan mevrouw Van der Plas.
+
+Mevrouw Van der Plas (BBB):
+Voorzitter. De boeren in dit land zijn het zat.
+
+De heer Timmermans (GroenLinks-PvdA):
+Mevrouw Van der Plas zegt dat boeren de oplossing zijn. Hoe dan?
+
+Mevrouw Van der Plas (BBB):
+Door te innoveren.
+
+De voorzitter:
+Tot slot, mevrouw Van der Plas.
+
+Mevrouw Van der Plas (BBB):
+Dank u wel.
+
+De voorzitter:
+Dank u wel. Het woord is aan de minister.
+
+Minister Wiersma:
+Voorzitter. Dank aan de leden voor hun inbreng.
+
+Staatssecretaris Rummenie:
+Ik vul de minister aan.`;
+
+describe('Speaker turns', () => {
+  const turns = segmentSpeakerTurns(TRANSCRIPT);
+
+  it('should find every turn with speaker, role and party', () => {
+    expect(turns.map(turn => [turn.speaker, turn.role, turn.party])).toEqual([
+      ['De voorzitter', 'voorzitter', null],
+      ['Van der Plas', 'kamerlid', 'BBB'],
+      ['Timmermans', 'kamerlid', 'GroenLinks-PvdA'],
+      ['Van der Plas', 'kamerlid', 'BBB'],
+      ['De voorzitter', 'voorzitter', null],
+      ['Van der Plas', 'kamerlid', 'BBB'],
+      ['De voorzitter', 'voorzitter', null],
+      ['Wiersma', 'minister', null],
+      ['Rummenie', 'staatssecretaris', null]
+    ]);
+  });
+
+  it('should not treat mentions of a speaker as headings', () => {
+    expect(turns.filter(turn => turn.speaker === 'Van der Plas')).toHaveLength(3);
+  });
+
+  it('should report offsets that cover the heading and the spoken text', () => {
+    const turn = turns[2]!;
+
+    expect(TRANSCRIPT.slice(turn.start, turn.end)).toBe('De heer Timmermans (GroenLinks-PvdA):\nMevrouw Van der Plas zegt dat boeren de oplossing zijn. Hoe dan?');
+    expect(TRANSCRIPT.slice(turn.textStart, turn.end)).toMatch(/^Mevrouw Van der Plas zegt/);
+    expect(turn.heading).toBe('De heer Timmermans (GroenLinks-PvdA):');
+    expect(turn.wordCount).toBe(12);
+  });
+
+  it('should mark interruptions of the speaker who has the floor', () => {
+    expect(turns.map(turn => turn.interrupting)).toEqual([null, null, 'Van der Plas', null, null, null, null, null, 'Wiersma']);
+    expect(turns.filter(turn => turn.isInterruption).map(turn => turn.index)).toEqual([2, 8]);
+  });
+
+  it('should return no turns for documents without speaker headings', () => {
+    expect(segmentSpeakerTurns('Geachte voorzitter,\n\nHierbij ontvangt u de brief: zie bijlage.')).toEqual([]);
+  });
+
+  it('should count words', () => {
+    expect(countWords('Voorzitter. Dat zeg ik toe — echt!')).toBe(6);
+  });
+});
+
+describe('Debate statistics', () => {
+  const statistics = computeDebateStatistics(segmentSpeakerTurns(TRANSCRIPT), { 'BBB': 7, 'GroenLinks-PvdA': 25 });
+
+  it('should total speech per speaker without the chair', () => {
+    expect(statistics.totals).toEqual({ turns: 9, words: 40, interruptions: 2, chairTurns: 3, chairWords: 33 });
+    expect(statistics.speakers.map(speaker => [speaker.speaker, speaker.turns, speaker.words, speaker.shareOfSpeech])).toEqual([
+      ['Van der Plas', 3, 15, 0.375],
+      ['Timmermans', 1, 12, 0.3],
+      ['Wiersma', 1, 8, 0.2],
+      ['Rummenie', 1, 5, 0.125]
+    ]);
+  });
+
+  it('should count interruptions made and received', () => {
+    const bySpeaker = Object.fromEntries(statistics.speakers.map(speaker => [speaker.speaker, [speaker.interruptionsMade, speaker.interruptionsReceived]]));
+
+    expect(bySpeaker).toEqual({ 'Van der Plas': [0, 1], 'Timmermans': [1, 0], 'Wiersma': [0, 1], 'Rummenie': [1, 0] });
+  });
+
+  it('should compare party speech with seat counts', () => {
+    expect(statistics.parties.map(party => party.party)).toEqual(['BBB', 'GroenLinks-PvdA']);
+    expect(statistics.parties[0]).toMatchObject({ speakers: ['Van der Plas'], seats: 7, seatShare: 0.219, wordsPerSeat: 2.143 });
+    expect(statistics.parties[0]!.speechToSeatRatio).toBeCloseTo(0.375 / 0.219, 2);
+    expect(statistics.parties[1]).toMatchObject({ seats: 25, seatShare: 0.781, interruptionsMade: 1 });
+  });
+
+  it('should leave seat figures empty for unknown parties', () => {
+    const withoutSeats = computeDebateStatistics(segmentSpeakerTurns(TRANSCRIPT));
+
+    expect(withoutSeats.parties[0]).toMatchObject({ seats: null, seatShare: null, wordsPerSeat: null, speechToSeatRatio: null });
+  });
+
+  it('should find seats for parties written by abbreviation', () => {
+    const transcript = TRANSCRIPT.replace('(GroenLinks-PvdA)', '(GL-PvdA)');
+    const abbreviated = computeDebateStatistics(segmentSpeakerTurns(transcript), { 'BBB': 7, 'GroenLinks-PvdA': 25 });
+
+    expect(abbreviated.parties.find(party => party.party === 'GL-PvdA')).toMatchObject({ seats: 25, seatShare: 0.781 });
+  });
+
+  it('should attribute interruptions to the namesake who had the floor', () => {
+    const transcript = `De voorzitter:
+Het woord is aan de heer Van Dijk.
+
+De heer Van Dijk (SP):
+Voorzitter. De zorg moet beter.
+
+De heer Timmermans (GroenLinks-PvdA):
+Hoe dan?
+
+De heer Timmermans (GroenLinks-PvdA):
+En wanneer?
+
+De voorzitter:
+Dank u wel. Het woord is aan de heer Van Dijk.
+
+De heer Van Dijk (PVV):
+Voorzitter. Ik sluit mij aan.`;
+    const bySpeaker = computeDebateStatistics(segmentSpeakerTurns(transcript)).speakers
+      .map(speaker => [speaker.speaker, speaker.party, speaker.interruptionsReceived]);
+
+    expect(bySpeaker).toEqual(expect.arrayContaining([['Van Dijk', 'SP', 2], ['Van Dijk', 'PVV', 0], ['Timmermans', 'GroenLinks-PvdA', 0]]));
+  });
+});
+
+describe('Quotes', () => {
+  const turns = segmentSpeakerTurns(TRANSCRIPT);
+  const vanDerPlas = turns.filter(turn => speakerMatchesName(turn.speaker, 'Caroline van der Plas'));
+
+  it('should split sentences but not at initials and abbreviations', () => {
+    const text = 'Ik sprak met C. van der Plas over bijv. de mest. Is dat zo? Ja! 12 boeren.';
+
+    expect(splitSentences(text).map(sentence => text.slice(sentence.start, sentence.end))).toEqual([
+      'Ik sprak met C. van der Plas over bijv. de mest.',
+      'Is dat zo?',
+      'Ja!',
+      '12 boeren.'
+    ]);
+  });
+
+  it('should match speakers by full name or surname', () => {
+    expect(speakerMatchesName('Van der Plas', 'Caroline van der Plas')).toBe(true);
+    expect(speakerMatchesName('Van der Plas', 'plas')).toBe(true);
+    expect(speakerMatchesName('Van der Plas', 'Wilders')).toBe(false);
+    expect(speakerMatchesName('Plas', 'Caroline van der Plas')).toBe(true);
+  });
+
+  it('should quote only the turns of the speaker, without the salutation', () => {
+    const quotes = extractQuotes(TRANSCRIPT, vanDerPlas);
+
+    expect(quotes.map(quote => quote.text)).toEqual(['De boeren in dit land zijn het zat.', 'Door te innoveren.', 'Dank u wel.']);
+    expect(TRANSCRIPT.slice(quotes[0]!.start, quotes[0]!.end)).toBe(quotes[0]!.text);
+    expect(quotes.every(quote => !quote.text.includes('Timmermans'))).toBe(true);
+  });
+
+  it('should cut long turns at sentence boundaries around the requested text', () => {
+    const text = 'De heer Jetten (D66):\nEerste zin over iets. Tweede zin over stikstof. Derde zin over de natuur. Vierde zin.';
+    const [quote] = extractQuotes(text, segmentSpeakerTurns(text), { contains: 'stikstof', maxLength: 55 });
+
+    expect(quote).toMatchObject({ text: 'Tweede zin over stikstof. Derde zin over de natuur.', truncated: true });
+    expect(extractQuotes(text, segmentSpeakerTurns(text), { contains: 'kernenergie' })).toEqual([]);
+  });
+});
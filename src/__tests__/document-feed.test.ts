@@ -0,0 +1,96 @@
+/**
+ * Tests for the new-documents feed and its persisted checkpoints
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiService } from '../services/api';
+import { DocumentFeedService, FeedCheckpoint } from '../services/document-feed';
+import { StateStore } from '../services/state-store';
+import { startMockTkconv, MockTkconv } from './support/mock-tkconv';
+
+describe('Document feed', () => {
+  let upstream: MockTkconv;
+  let stateDir: string;
+  let store: StateStore;
+  let feed: DocumentFeedService;
+
+  beforeAll(async () => {
+    upstream = await startMockTkconv();
+  });
+
+  afterAll(async () => {
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opentk-state-'));
+    store = new StateStore(stateDir);
+    feed = new DocumentFeedService(new ApiService({ baseUrl: upstream.url, cache: null, retry: { retries: 0 } }), store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('should report documents added or updated since a moment', async () => {
+    const added = await feed.getNewDocuments({ since: new Date('2024-10-10T00:00:00Z'), now: new Date('2024-10-20T12:00:00Z') });
+    const updated = await feed.getNewDocuments({ since: new Date('2024-10-16T12:00:00Z'), now: new Date('2024-10-20T12:00:00Z') });
+
+    expect(added.documents.map(document => [document.nummer, document.change])).toEqual([['2024D40001', 'added'], ['2024D39058', 'added']]);
+    expect(added.documents[1]).toMatchObject({ title: 'Verslag van het plenaire debat over het stikstofbeleid', bijgewerkt: '2024-10-17 09:12', versie: 2 });
+    expect(added.complete).toBe(true);
+    expect(updated.documents.map(document => [document.nummer, document.change])).toEqual([['2024D39058', 'updated']]);
+    expect(fs.readdirSync(stateDir)).toEqual([]);
+  });
+
+  it('should filter by words in the title', async () => {
+    const result = await feed.getNewDocuments({ since: new Date('2024-09-01T00:00:00Z'), topic: 'Jeugdzorg', now: new Date('2024-10-20T12:00:00Z') });
+
+    expect(result.documents.map(document => document.nummer)).toEqual(['2024D44000', '2024D41000']);
+  });
+
+  it('should start a named feed with the newest documents and then report only changes', async () => {
+    const first = await feed.getNewDocuments({ feed: 'briefing', limit: 2, now: new Date('2024-10-20T12:00:00Z') });
+    const second = await feed.getNewDocuments({ feed: 'briefing', now: new Date('2024-10-21T12:00:00Z') });
+
+    expect(first.previousCheckpoint).toBeNull();
+    expect(first.documents.map(document => document.nummer)).toEqual(['2024D44000', '2024D41000']);
+    expect(first.complete).toBe(false);
+    expect(second.since).toBe('2024-10-20T12:00:00.000Z');
+    expect(second.previousCheckpoint).toEqual({ checkedAt: '2024-10-20T12:00:00.000Z', highestNumbers: { '2024D': 44000 } });
+    expect(second.documents).toEqual([]);
+    expect(await store.read<Record<string, FeedCheckpoint>>('feeds')).toEqual({
+      briefing: { checkedAt: '2024-10-21T12:00:00.000Z', highestNumbers: { '2024D': 44000 } }
+    });
+  });
+
+  it('should report documents first listed after the checkpoint even when they are dated earlier', async () => {
+    await store.write('feeds', { briefing: { checkedAt: '2024-10-18T00:00:00.000Z', highestNumbers: { '2024D': 40001 } } });
+
+    const result = await feed.getNewDocuments({ feed: 'briefing', now: new Date('2024-10-20T12:00:00Z') });
+
+    expect(result.documents.map(document => [document.nummer, document.change])).toEqual([['2024D44000', 'added'], ['2024D41000', 'added']]);
+  });
+
+  it('should continue a checkpointed feed where a truncated check stopped', async () => {
+    const start = { checkedAt: '2024-09-01T00:00:00.000Z', highestNumbers: { '2024D': 30000 } };
+    await store.write('feeds', { briefing: start });
+    const all = await feed.getNewDocuments({ since: new Date(start.checkedAt), now: new Date('2024-10-20T12:00:00Z') });
+
+    const first = await feed.getNewDocuments({ feed: 'briefing', limit: 1, now: new Date('2024-10-20T12:00:00Z') });
+    const stored = (await store.read<Record<string, FeedCheckpoint>>('feeds'))!.briefing!;
+    const second = await feed.getNewDocuments({ feed: 'briefing', limit: 100, now: new Date('2024-10-21T12:00:00Z') });
+
+    expect(all.documents.length).toBeGreaterThan(1);
+    expect(first.complete).toBe(false);
+    expect(stored).toMatchObject({ checkedAt: start.checkedAt, highestNumbers: start.highestNumbers, resume: { below: first.documents[0]!.nummer, checkedAt: '2024-10-20T12:00:00.000Z' } });
+    expect(second.resumedBelow).toBe(first.documents[0]!.nummer);
+    expect(second.complete).toBe(true);
+    expect([...first.documents, ...second.documents]).toEqual(all.documents);
+    expect(await store.read<Record<string, FeedCheckpoint>>('feeds')).toEqual({
+      briefing: { checkedAt: '2024-10-20T12:00:00.000Z', highestNumbers: { '2024D': 44000 } }
+    });
+  });
+});
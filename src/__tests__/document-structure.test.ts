@@ -0,0 +1,87 @@
+/**
+ * Tests for structure-preserving text extraction
+ */
+
+import { extractStructuredTextFromPdf, extractStructuredTextFromDocx, findPersonOccurrences, pageAtOffset } from '../utils/document-extractor';
+import { buildPdf } from './support/mock-data';
+
+const PAGES = [
+  `# Debat over het stikstofbeleid
+
+De voorzitter:
+Aan de orde is het debat over het stikstofbeleid. Het woord is aan mevrouw Van der Plas.
+
+Mevrouw Van der Plas (BBB):
+Voorzitter. De boeren in dit land zijn het zat.`,
+  `MOTIE VAN HET LID VAN DER PLAS C.S.
+
+De heer Wilders (PVV):
+Voorzitter. Nederland zit op slot door een papieren werkelijkheid.`
+];
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+describe('Structured text extraction', () => {
+  it('should keep lines, paragraphs and page boundaries of PDFs', async () => {
+    const { text, pages } = await extractStructuredTextFromPdf(toArrayBuffer(buildPdf(PAGES)));
+
+    expect(text).toContain('De voorzitter:\nAan de orde is het debat');
+    expect(text).toContain('het zat.\n\nMOTIE VAN HET LID');
+    expect(pages).toHaveLength(2);
+    expect(text.slice(pages[0]!.start, pages[0]!.end)).toMatch(/^Debat over het stikstofbeleid\n\nDe voorzitter:/);
+    expect(text.slice(pages[1]!.start, pages[1]!.end)).toMatch(/^MOTIE VAN HET LID.*werkelijkheid\.$/s);
+  });
+
+  it('should detect headings by font size and capitals', async () => {
+    const { headings, pages } = await extractStructuredTextFromPdf(toArrayBuffer(buildPdf(PAGES)));
+
+    expect(headings).toEqual([
+      { text: 'Debat over het stikstofbeleid', level: 1, offset: 0, page: 1 },
+      { text: 'MOTIE VAN HET LID VAN DER PLAS C.S.', level: 3, offset: pages[1]!.start, page: 2 }
+    ]);
+  });
+
+  it('should report lines and pages of occurrences', async () => {
+    const { text, pages } = await extractStructuredTextFromPdf(toArrayBuffer(buildPdf(PAGES)));
+
+    const occurrences = findPersonOccurrences(text, 'Wilders', pages);
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0]).toMatchObject({ lineStart: 11, lineEnd: 11, page: 2 });
+    expect(text.slice(occurrences[0]!.characterOffset)).toMatch(/^Wilders \(PVV\):/);
+  });
+
+  it('should find a person by the other forms of their name', async () => {
+    const { text, pages } = await extractStructuredTextFromPdf(toArrayBuffer(buildPdf(PAGES)));
+
+    const occurrences = findPersonOccurrences(text, 'Caroline van der Plas', pages);
+    const otherTussenvoegsel = findPersonOccurrences(text, 'Jan de Plas', pages);
+
+    expect(occurrences.map(occurrence => occurrence.snippet)).toEqual([
+      'eid. Het woord is aan mevrouw Van der Plas.',
+      'Mevrouw Van der Plas (BBB):',
+      'MOTIE VAN HET LID VAN DER PLAS C.S.'
+    ]);
+    expect(occurrences.every(occurrence => /^van der plas/i.test(text.slice(occurrence.characterOffset)))).toBe(true);
+    expect(otherTussenvoegsel).toEqual([]);
+  });
+
+  it('should map offsets to pages', () => {
+    const pages = [{ number: 1, start: 0, end: 100 }, { number: 2, start: 102, end: 180 }];
+
+    expect(pageAtOffset(pages, 0)).toBe(1);
+    expect(pageAtOffset(pages, 99)).toBe(1);
+    expect(pageAtOffset(pages, 101)).toBe(2);
+    expect(pageAtOffset(pages, 179)).toBe(2);
+    expect(pageAtOffset([], 10)).toBeNull();
+  });
+
+  it('should report Word files without readable text', async () => {
+    const result = await extractStructuredTextFromDocx(new ArrayBuffer(8));
+
+    expect(result.text).toContain('Failed to extract text from the DOCX document');
+    expect(result.pages).toEqual([]);
+  });
+});
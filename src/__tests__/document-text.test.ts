@@ -0,0 +1,98 @@
+/**
+ * Tests for the memoizing document text service
+ */
+
+import { ApiService } from '../services/api';
+import { CacheStatus } from '../services/cache';
+import { DocumentTextService } from '../services/document-text';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+function documentPage(bijgewerkt: string, versie: number): string {
+  return `
+    <hblock><h2>Brief regering</h2></hblock>
+    <p><em>Brief</em></p>
+    <p>Nummer: <b>2024D39058</b>, datum: <b>2024-10-15</b>, bijgewerkt: <b>${bijgewerkt}</b>, versie: ${versie}</p>
+    <p><a href="getraw/2024D39058">Directe link naar document</a></p>
+  `;
+}
+
+/**
+ * ApiService stand-in that serves a fixed document page and counts downloads
+ */
+class StubApiService extends ApiService {
+  page = documentPage('2024-10-16', 1);
+  contentType = DOCX_TYPE;
+  downloads = 0;
+
+  constructor() {
+    super({ cache: null });
+  }
+
+  async fetchHtml(): Promise<string> {
+    return this.page;
+  }
+
+  async fetchBinaryWithStatus(): Promise<{ data: ArrayBuffer, contentType: string, cache: CacheStatus }> {
+    this.downloads++;
+    const fetchedAt = new Date().toISOString();
+    return {
+      data: new ArrayBuffer(8),
+      contentType: this.contentType,
+      cache: { status: 'miss', source: 'network', fetchedAt, expiresAt: null, ageSeconds: 0 }
+    };
+  }
+}
+
+describe('DocumentTextService', () => {
+  let api: StubApiService;
+  let service: DocumentTextService;
+
+  beforeEach(() => {
+    api = new StubApiService();
+    service = new DocumentTextService(api);
+  });
+
+  it('should download and extract a document only once per version', async () => {
+    const first = await service.getDocumentText('2024D39058');
+    const second = await service.getDocumentText('2024D39058');
+
+    expect(first.status).toBe('ok');
+    expect(second.status).toBe('ok');
+    if (first.status === 'ok' && second.status === 'ok') {
+      expect(first.memoized).toBe(false);
+      expect(second.memoized).toBe(true);
+      expect(second.text).toBe(first.text);
+      expect(second.documentType).toBe('Word');
+      expect(first.cache).toMatchObject({ status: 'miss', source: 'network' });
+      expect(second.cache).toMatchObject({ status: 'hit', source: 'memo', fetchedAt: first.cache.fetchedAt });
+    }
+    expect(api.downloads).toBe(1);
+  });
+
+  it('should extract again when bijgewerkt changes', async () => {
+    await service.getDocumentText('2024D39058');
+    api.page = documentPage('2024-10-20', 1);
+    await service.getDocumentText('2024D39058');
+
+    expect(api.downloads).toBe(2);
+  });
+
+  it('should share a single download for concurrent requests', async () => {
+    await Promise.all([
+      service.getDocumentText('2024D39058'),
+      service.getDocumentText('2024D39058')
+    ]);
+
+    expect(api.downloads).toBe(1);
+  });
+
+  it('should report missing and unsupported documents', async () => {
+    api.page = 'Found nothing in document.html!!';
+    expect((await service.getDocumentText('2024D00000')).status).toBe('not_found');
+
+    api.page = documentPage('2024-10-16', 2);
+    api.contentType = 'image/png';
+    expect((await service.getDocumentText('2024D39058')).status).toBe('unsupported');
+  });
+});
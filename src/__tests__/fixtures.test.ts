@@ -0,0 +1,155 @@
+/**
+ * Tests for record/replay fixture mode
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiService } from '../services/api';
+import { startMockTkconv, MockTkconv } from './support/mock-tkconv';
+import { connectTestClient } from './support/test-client';
+
+// Arguments used to exercise every tool; a new tool must be added here
+const TOOL_ARGUMENTS: Record<string, Record<string, unknown>> = {
+  get_overview: {},
+  get_new_documents: { since: '2024-10-10' },
+  birthdays_today: {},
+  list_persons: {},
+  get_person: { personId: '1002' },
+  resolve_person: { name: 'minister Jeten' },
+  list_parties: {},
+  get_party: { party: 'BBB' },
+  search_tk: { query: 'stikstof' },
+  search_tk_filtered: { query: 'stikstof', type: 'Document' },
+  create_watch: { name: 'stikstof', query: 'stikstof' },
+  list_watches: {},
+  check_watch: { name: 'stikstof' },
+  delete_watch: { name: 'stikstof' },
+  get_photo: { personId: '1001' },
+  get_document_details: { nummer: '2024D39058' },
+  get_document_links: { pdfUrl: 'https://example.org/doc.pdf' },
+  get_committees: {},
+  get_committee_details: { committeeId: 'lvvn' },
+  get_upcoming_activities: {},
+  get_voting_results: {},
+  search_by_category: { query: 'stikstof', category: 'moties' },
+  get_document_content: { docId: '2024D39058' },
+  find_person_in_document: { docId: '2024D39058', personName: 'Wilders' },
+  find_party_in_document: { docId: '2024D39058', partyName: 'VVD' },
+  get_speaker_turns: { docId: '2024D39058' },
+  get_debate_statistics: { docId: '2024D39058' },
+  get_person_quotes: { docId: '2024D39058', person: '1001' },
+  get_motion: { docId: '2024D40001' },
+  get_question_answers: { docId: '2024D41000' },
+  resolve_reference: { reference: 'Kamerstuk 35334, nr. 300' },
+  extract_citations: { docId: '2024D38000', resolve: true },
+  analyze_document_relevance: { docId: '2024D39058' }
+};
+
+describe('Fixture mode', () => {
+  let upstream: MockTkconv;
+  let baseUrl: string;
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opentk-fixtures-'));
+    upstream = await startMockTkconv();
+    baseUrl = upstream.url;
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded HTML, JSON and binary responses without network access', async () => {
+    const recorder = new ApiService({ baseUrl, cache: null, fixtures: { mode: 'record', directory: fixtureDir } });
+    const html = await recorder.fetchHtml('/document.html?nummer=2024D39058');
+    const photo = await recorder.fetchBinary('/personphoto/1001');
+    const results = await recorder.search<{ results: any[] }>('stikstof', { soorten: 'moties' });
+    await upstream.close();
+
+    const replayer = new ApiService({ baseUrl, cache: null, fixtures: { mode: 'replay', directory: fixtureDir } });
+
+    expect(await replayer.fetchHtml('/document.html?nummer=2024D39058')).toBe(html);
+    const replayedPhoto = await replayer.fetchBinary('/personphoto/1001');
+    expect(replayedPhoto.contentType).toBe('image/jpeg');
+    expect(Buffer.from(replayedPhoto.data)).toEqual(Buffer.from(photo.data));
+    expect(await replayer.search('stikstof', { soorten: 'moties' })).toEqual(results);
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  it('should replay against a different base URL', async () => {
+    const recorder = new ApiService({ baseUrl, cache: null, fixtures: { mode: 'record', directory: fixtureDir } });
+    const html = await recorder.fetchHtml('/kamerleden.html');
+
+    const replayer = new ApiService({ baseUrl: 'https://mirror.example.org/tkconv', cache: null, fixtures: { mode: 'replay', directory: fixtureDir } });
+
+    expect(await replayer.fetchHtml('/kamerleden.html')).toBe(html);
+  });
+
+  it('should report requests that were never recorded', async () => {
+    const replayer = new ApiService({ baseUrl, cache: null, fixtures: { mode: 'replay', directory: fixtureDir } });
+
+    await expect(replayer.search('stikstof', { soorten: 'vragen' })).rejects.toThrow('No recorded fixture for POST /search');
+    await expect(replayer.fetchHtml('/commissies.html')).rejects.toThrow('No recorded fixture for GET /commissies.html');
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('should exercise every tool offline from recorded fixtures', async () => {
+    const recorded = await callEveryTool({
+      OPENTK_BASE_URL: baseUrl,
+      OPENTK_FIXTURE_MODE: 'record',
+      OPENTK_FIXTURE_DIR: fixtureDir
+    });
+    await upstream.close();
+    const requestsWhileRecording = upstream.requests.length;
+
+    const replayed = await callEveryTool({
+      OPENTK_BASE_URL: baseUrl,
+      OPENTK_FIXTURE_MODE: 'replay',
+      OPENTK_FIXTURE_DIR: fixtureDir
+    });
+
+    expect(upstream.requests).toHaveLength(requestsWhileRecording);
+    expect(Object.keys(replayed).sort()).toEqual(Object.keys(TOOL_ARGUMENTS).sort());
+    for (const [name, output] of Object.entries(replayed)) {
+      expect(output).not.toContain('No recorded fixture');
+      expect(output).toEqual(recorded[name]);
+    }
+    expect(replayed.get_document_content).toContain('Van der Plas');
+  }, 30000);
+});
+
+/**
+ * Calls every registered tool on a server built with the given environment
+ * @returns Tool output text by tool name, without timing-dependent fields
+ */
+async function callEveryTool(env: Record<string, string>): Promise<Record<string, string>> {
+  const testClient = await connectTestClient(env);
+
+  const outputs: Record<string, string> = {};
+  const { tools } = await testClient.client.listTools();
+  for (const tool of tools) {
+    const args = TOOL_ARGUMENTS[tool.name];
+    if (!args) {
+      throw new Error(`No test arguments for tool ${tool.name}`);
+    }
+    const texts = await testClient.callTool(tool.name, args);
+    outputs[tool.name] = texts.map(withoutVolatileFields).join('\n');
+  }
+
+  await testClient.close();
+  return outputs;
+}
+
+// Fields that depend on timing rather than on the upstream responses
+const VOLATILE_FIELDS = new Set(['upstream', 'lastUpdated', 'checkedAt', 'createdAt', 'lastCheckedAt', 'previousCheckAt']);
+
+function withoutVolatileFields(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text, (key, value) => VOLATILE_FIELDS.has(key) ? undefined : value));
+  } catch (error) {
+    return text;
+  }
+}
@@ -1,4 +1,4 @@
-import { extractDocumentLink, extractDocumentDetailsFromHtml } from '../utils/html-parser.js';
+import { extractDocumentLink, extractDocumentDetailsFromHtml, extractPersonProfileFromHtml } from '../utils/html-parser.js';
 
 describe('HTML Parser Utilities', () => {
   describe('extractDocumentLink', () => {
@@ -102,4 +102,44 @@ describe('HTML Parser Utilities', () => {
       expect(result?.directLinkPdf).toEqual('https://berthub.eu/tkconv/getraw/2024D12345');
     });
   });
+
+  describe('extractPersonProfileFromHtml', () => {
+    it('should read labelled details and list items', () => {
+      const html = `
+        <html>
+          <head><title>Dilan Yeşilgöz-Zegerius</title></head>
+          <body>
+            <h4>VVD</h4>
+            <p>Geboren: 18 mei 1977, Ankara</p>
+            <p>Woonplaats: Amsterdam</p>
+            <p>Lid sinds: 23-03-2017</p>
+            <p>Lid tot: 10 januari 2022</p>
+            <h3>Commissies</h3>
+            <ul><li><a href="commissie.html?id=jenv">Vaste commissie voor Justitie en Veiligheid</a> - Lid</li></ul>
+            <h3>Recente moties</h3>
+            <ul><li>2021-11-30 - <a href="document.html?nummer=2021D47000">Motie van het lid Yeşilgöz-Zegerius over cybercrime</a> - Verworpen</li></ul>
+          </body>
+        </html>
+      `;
+
+      const result = extractPersonProfileFromHtml(html, 1234, 'https://berthub.eu/tkconv');
+
+      expect(result).toMatchObject({
+        Voornaam: 'Dilan',
+        Achternaam: 'Yeşilgöz-Zegerius',
+        Fractie: 'VVD',
+        Functie: 'Tweede Kamerlid',
+        birthDate: '1977-05-18',
+        birthPlace: 'Ankara',
+        residence: 'Amsterdam',
+        term: { start: '2017-03-23', end: '2022-01-10' }
+      });
+      expect(result?.committees).toEqual([{ id: 'jenv', name: 'Vaste commissie voor Justitie en Veiligheid', role: 'Lid', url: 'https://berthub.eu/tkconv/commissie.html?id=jenv' }]);
+      expect(result?.motions).toEqual([expect.objectContaining({ nummer: '2021D47000', date: '2021-11-30', result: 'Verworpen' })]);
+    });
+
+    it('should return null for a page without a name', () => {
+      expect(extractPersonProfileFromHtml('<html><head><title></title></head><body></body></html>', 1, 'https://berthub.eu/tkconv')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,89 @@
+/**
+ * Tests for the Streamable HTTP transport
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, RunningHttpServer } from '../transports/http';
+
+function createTestServer(): McpServer {
+  const mcp = new McpServer({ name: "opentk-test", version: "0.0.0" });
+  mcp.tool("ping", "Replies with pong", {}, async () => ({
+    content: [{ type: "text", text: "pong" }]
+  }));
+  return mcp;
+}
+
+describe('HTTP transport', () => {
+  let running: RunningHttpServer;
+
+  beforeEach(async () => {
+    running = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'secret-token',
+      createServer: createTestServer
+    });
+  });
+
+  afterEach(async () => {
+    await running.close();
+  });
+
+  it('should serve tools to an authorized client session', async () => {
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${running.url}/mcp`), {
+      requestInit: { headers: { Authorization: 'Bearer secret-token' } }
+    });
+
+    await client.connect(transport);
+    const tools = await client.listTools();
+    const result = await client.callTool({ name: 'ping', arguments: {} });
+    await client.close();
+
+    expect(tools.tools.map(tool => tool.name)).toContain('ping');
+    expect(result.content).toEqual([{ type: 'text', text: 'pong' }]);
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const res = await fetch(`${running.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })
+    });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const res = await fetch(`${running.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret-token' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should answer oversized request bodies with 413', async () => {
+    const res = await fetch(`${running.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret-token' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { padding: 'x'.repeat(5 * 1024 * 1024) } })
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(413);
+    expect(body.error.code).toBe(-32600);
+    expect(body.error.message).toContain('exceeds');
+  });
+
+  it('should answer health checks without authentication', async () => {
+    const res = await fetch(`${running.url}/health`);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.status).toBe('ok');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for pairing written questions with their answers
+ */
+
+import { parseKamervragen, pairQuestionsAndAnswers, computeAnswerTiming } from '../utils/kamervragen';
+
+const QUESTIONS = `2024Z16012
+
+Vragen van de leden Bontenbal en Omtzigt (CDA, NSC) aan de staatssecretaris van Financiën over de
+herstelregeling toeslagen (ingezonden 10 oktober 2024).
+
+Vraag 1: Hoeveel ouders wachten nog op een integrale beoordeling?
+
+Vraag 2
+Wanneer zijn alle ouders geholpen?
+Kunt u dit per jaar uitsplitsen?`;
+
+const ANSWERS = `Antwoord van staatssecretaris Van Oostenbruggen (Financiën) (ontvangen 25 oktober 2024)
+
+Mededeling
+De beantwoording van vraag 2 vergt meer tijd.
+
+Antwoord 1
+Op 1 oktober wachtten nog 20.000 ouders.`;
+
+describe('Kamervragen', () => {
+  it('should parse the header and numbered questions', () => {
+    const questions = parseKamervragen(QUESTIONS);
+
+    expect(questions).toMatchObject({
+      zaakNummer: '2024Z16012',
+      askedBy: 'Bontenbal en Omtzigt (CDA, NSC)',
+      addressedTo: 'staatssecretaris van Financiën',
+      subject: 'de herstelregeling toeslagen',
+      submitted: '2024-10-10',
+      answers: []
+    });
+    expect(questions.questions).toEqual([
+      { number: 1, text: 'Hoeveel ouders wachten nog op een integrale beoordeling?' },
+      { number: 2, text: 'Wanneer zijn alle ouders geholpen? Kunt u dit per jaar uitsplitsen?' }
+    ]);
+  });
+
+  it('should parse who answered and leave out notices', () => {
+    const answers = parseKamervragen(ANSWERS);
+
+    expect(answers).toMatchObject({ answeredBy: 'staatssecretaris Van Oostenbruggen (Financiën)', received: '2024-10-25' });
+    expect(answers.answers).toEqual([{ number: 1, text: 'Op 1 oktober wachtten nog 20.000 ouders.' }]);
+  });
+
+  it('should pair questions and answers by number', () => {
+    expect(pairQuestionsAndAnswers(parseKamervragen(QUESTIONS), parseKamervragen(ANSWERS))).toEqual([
+      { number: 1, question: 'Hoeveel ouders wachten nog op een integrale beoordeling?', answer: 'Op 1 oktober wachtten nog 20.000 ouders.' },
+      { number: 2, question: 'Wanneer zijn alle ouders geholpen? Kunt u dit per jaar uitsplitsen?', answer: null }
+    ]);
+    expect(pairQuestionsAndAnswers(parseKamervragen(QUESTIONS), null).every(pair => pair.answer === null)).toBe(true);
+  });
+
+  it('should compare the answer time with the three-week deadline', () => {
+    expect(computeAnswerTiming('2024-10-10', '2024-10-25')).toEqual({
+      submitted: '2024-10-10', deadline: '2024-10-31', received: '2024-10-25', daysTaken: 15, withinDeadline: true, daysOverdue: 0
+    });
+    expect(computeAnswerTiming('2024-10-10', null, new Date('2024-11-20T12:00:00Z'))).toMatchObject({ daysTaken: 41, withinDeadline: false, daysOverdue: 20 });
+    expect(computeAnswerTiming('2024-10-10', null, new Date('2024-10-20T12:00:00Z'))).toMatchObject({ daysTaken: 10, withinDeadline: null });
+    expect(computeAnswerTiming(null, '2024-10-25')).toMatchObject({ deadline: null, daysTaken: null });
+  });
+
+  it('should read dates that include a time or are written out', () => {
+    expect(computeAnswerTiming('2024-10-10T14:30:00', '2024-10-25 09:00')).toMatchObject({
+      submitted: '2024-10-10', deadline: '2024-10-31', received: '2024-10-25', daysTaken: 15, withinDeadline: true
+    });
+    expect(computeAnswerTiming('10 oktober 2024', '25-10-2024')).toMatchObject({ daysTaken: 15 });
+    expect(computeAnswerTiming('binnenkort', '2024-10-25')).toMatchObject({ submitted: 'binnenkort', deadline: null, daysTaken: null });
+    expect(computeAnswerTiming('2024-10-10', 'onbekend')).toMatchObject({ deadline: null, daysTaken: null, withinDeadline: null });
+  });
+});
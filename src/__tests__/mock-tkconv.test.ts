@@ -0,0 +1,481 @@
+/**
+ * Integration tests for ApiService and the tool handlers against the mock tkconv server
+ */
+
+import { ApiService } from '../services/api';
+import { startMockTkconv, MockTkconv } from './support/mock-tkconv';
+import { connectTestClient, TestClient } from './support/test-client';
+
+describe('Mock tkconv integration', () => {
+  let upstream: MockTkconv;
+
+  beforeAll(async () => {
+    upstream = await startMockTkconv();
+  });
+
+  afterAll(async () => {
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    upstream.reset();
+  });
+
+  describe('ApiService.search', () => {
+    function createService(): ApiService {
+      return new ApiService({
+        baseUrl: upstream.url,
+        cache: null,
+        timeoutMs: 200,
+        retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 5 }
+      });
+    }
+
+    it('should send the query as multipart form fields', async () => {
+      const data = await createService().search<{ results: any[] }>('stikstof', { soorten: 'moties', twomonths: true });
+
+      expect(upstream.requests[0]?.form).toEqual({ q: 'stikstof', twomonths: 'true', soorten: 'moties' });
+      expect(data.results.map(result => result.id)).toEqual(['2024D40001']);
+    });
+
+    it('should support exact phrases and exclusions', async () => {
+      const data = await createService().search<{ results: any[] }>('"rekenkundige ondergrens" NOT motie');
+
+      expect(data.results.map(result => result.id).sort()).toEqual(['2024D38000', '2024D39058']);
+    });
+
+    it('should retry server errors and then succeed', async () => {
+      upstream.fail({ path: '/search', mode: 'error', times: 2 });
+
+      const data = await createService().search<{ results: any[] }>('stikstof');
+
+      expect(data.results.length).toBeGreaterThan(0);
+      expect(upstream.requests).toHaveLength(3);
+    });
+
+    it('should report persistent server errors with empty results', async () => {
+      upstream.fail({ path: '/search', mode: 'error' });
+
+      const data = await createService().search<{ results: any[], error?: string }>('stikstof');
+
+      expect(data.results).toEqual([]);
+      expect(data.error).toContain("Search failed for query 'stikstof'");
+    });
+
+    it('should return empty results when HTML comes back instead of JSON', async () => {
+      upstream.fail({ path: '/search', mode: 'html' });
+
+      const data = await createService().search<{ results: any[], error?: string }>('stikstof');
+
+      expect(data).toEqual({ results: [] });
+    });
+
+    it('should time out slow responses', async () => {
+      upstream.fail({ path: '/search', mode: 'slow', delayMs: 400 });
+
+      await expect(createService().search('stikstof')).rejects.toThrow('timed out after 200 ms');
+    });
+
+    it('should retry dropped connections', async () => {
+      upstream.fail({ path: '/search', mode: 'reset', times: 1 });
+
+      const data = await createService().search<{ results: any[] }>('stikstof');
+
+      expect(data.results.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('ApiService pages', () => {
+    const service = () => new ApiService({ baseUrl: upstream.url, cache: null, retry: { retries: 0 } });
+
+    it('should parse members and single members', async () => {
+      const persons = await service().getPersons();
+      const person = await service().getPerson(1002);
+
+      expect(persons).toHaveLength(7);
+      expect(persons[1]).toMatchObject({ Id: 1002, Fullname: 'Caroline van der Plas', Fractie: 'BBB' });
+      expect(person).toMatchObject({ Id: 1002, Fullname: 'Caroline van der Plas', Fractie: 'BBB' });
+    });
+
+    it('should parse the complete profile of a member', async () => {
+      const profile = await service().getPerson(1002);
+      const formerCda = await service().getPerson(1004);
+
+      expect(profile).toMatchObject({
+        Voornaam: 'Caroline',
+        Tussenvoegsel: 'van der',
+        Achternaam: 'Plas',
+        sortName: 'Plas, C. van der',
+        citationName: 'Van der Plas',
+        birthDate: '1967-06-15',
+        birthPlace: 'Deventer',
+        residence: 'Deventer',
+        term: { start: '2021-03-31', end: null },
+        partyHistory: [{ party: 'BBB', from: '2021-03-31', until: null }]
+      });
+      expect(profile?.committees).toEqual([{
+        id: 'lvvn',
+        name: 'Vaste commissie voor Landbouw, Visserij, Voedselzekerheid en Natuur',
+        role: 'Voorzitter',
+        url: `${upstream.url}/commissie.html?id=lvvn`
+      }]);
+      expect(profile?.motions).toEqual([{
+        nummer: '2024D40001',
+        title: 'Motie van het lid Van der Plas c.s. over de rekenkundige ondergrens',
+        date: '2024-10-15',
+        url: `${upstream.url}/document.html?nummer=2024D40001`,
+        result: null
+      }]);
+      expect(profile?.votes).toEqual([expect.objectContaining({ nummer: '2024Z01234', date: '2024-10-22', vote: 'Voor', result: 'Aangenomen' })]);
+      expect(profile?.questions).toEqual([]);
+      expect(formerCda?.partyHistory.map(entry => entry.party)).toEqual(['CDA', 'Lid Omtzigt', 'NSC']);
+      expect(await service().getPerson(9999)).toBeNull();
+    });
+
+    it('should resolve external references through /op/', async () => {
+      expect(await service().resolveExternal('2024D39058')).toBe(`${upstream.url}/document.html?nummer=2024D39058`);
+    });
+
+    it('should read sitemaps and treat missing years as empty', async () => {
+      expect(await service().fetchSitemap('sitemap-2024.txt')).toHaveLength(14);
+      expect(await service().fetchSitemap('sitemap-1999.txt')).toEqual([]);
+    });
+  });
+
+  describe('tool handlers', () => {
+    let client: TestClient;
+
+    beforeAll(async () => {
+      client = await connectTestClient({ OPENTK_BASE_URL: upstream.url });
+    });
+
+    afterAll(async () => {
+      await client.close();
+    });
+
+    it('should list current members', async () => {
+      const persons = await client.callJsonTool('list_persons');
+
+      expect(persons.map((person: any) => person.Fractie)).toContain('GroenLinks-PvdA');
+    });
+
+    it('should list committees and their members', async () => {
+      const committees = await client.callJsonTool('get_committees');
+      const details = await client.callJsonTool('get_committee_details', { committeeId: 'lvvn' });
+
+      expect(committees).toHaveLength(2);
+      expect(details.members[0]).toMatchObject({ id: '1002', name: 'Caroline van der Plas', role: 'Voorzitter', party: 'BBB' });
+      expect(details.recentActivities[0].title).toBe('Commissiedebat Stikstof en natuur');
+    });
+
+    it('should list activities and voting results', async () => {
+      const activities = await client.callJsonTool('get_upcoming_activities');
+      const votes = await client.callJsonTool('get_voting_results');
+
+      expect(activities.activities[0]).toMatchObject({ id: '2024A01234', time: '10:00', location: 'Thorbeckezaal' });
+      expect(JSON.stringify(votes)).toContain('Aangenomen');
+    });
+
+    it('should extract document text and find speakers', async () => {
+      const content = await client.callJsonTool('get_document_content', { docId: '2024D39058' });
+      const occurrences = await client.callJsonTool('find_person_in_document', { docId: '2024D39058', personName: 'Wilders' });
+
+      expect(content.text).toContain('Mevrouw Van der Plas (BBB):');
+      expect(occurrences.totalOccurrences).toBeGreaterThan(0);
+    });
+
+    it('should report pages and headings of PDF documents', async () => {
+      const full = await client.callJsonTool('get_document_content', { docId: '2024D39058' });
+      const page = await client.callJsonTool('get_document_content', { docId: '2024D39058', page: 2 });
+      const occurrences = await client.callJsonTool('find_person_in_document', { docId: '2024D39058', personName: 'Wilders' });
+      const [missing] = await client.callTool('get_document_content', { docId: '2024D39058', page: 9 });
+
+      expect(full).toMatchObject({ totalPages: 3, pageStart: 1, pageEnd: 3 });
+      expect(full.headings).toEqual([{ text: 'Debat over het stikstofbeleid', level: 1, offset: full.text.indexOf('Debat over'), page: 1 }]);
+      expect(page.text.startsWith('De heer Wilders (PVV):\nVoorzitter.')).toBe(true);
+      expect(page).toMatchObject({ offset: full.pageOffsets['2'], pageStart: 2, pageEnd: 2, hasMoreAfter: true });
+      expect(occurrences.occurrences.map((occurrence: any) => occurrence.page)).toEqual([1, 2, 2, 2, 2, 2]);
+      expect(missing).toContain('Page 9 does not exist; document 2024D39058 has 3 pages');
+    });
+
+    it('should split debates into speaker turns', async () => {
+      const all = await client.callJsonTool('get_speaker_turns', { docId: '2024D39058' });
+      const wilders = await client.callJsonTool('get_speaker_turns', { docId: '2024D39058', speaker: 'wilders' });
+      const content = await client.callJsonTool('get_document_content', { docId: '2024D39058' });
+
+      expect(all.totalTurnsInDocument).toBe(15);
+      expect(all.turns.filter((turn: any) => turn.isInterruption).map((turn: any) => [turn.speaker, turn.interrupting])).toEqual([
+        ['Timmermans', 'Van der Plas'],
+        ['Jetten', 'Wilders'],
+        ['Omtzigt', 'Wilders'],
+        ['Van der Plas', 'Wiersma']
+      ]);
+      expect(wilders.pagination.totalResults).toBe(3);
+      expect(wilders.turns[0]).toMatchObject({ speaker: 'Wilders', role: 'kamerlid', party: 'PVV', page: 2 });
+      expect(content.text.slice(wilders.turns[0].start, wilders.turns[0].end)).toMatch(/^De heer Wilders \(PVV\):\nVoorzitter\. Nederland zit op slot.*van tafel gaan\.$/s);
+    });
+
+    it('should report speaking time per speaker and party against seat counts', async () => {
+      const statistics = await client.callJsonTool('get_debate_statistics', { docId: '2024D39058' });
+      const wilders = statistics.speakers.find((speaker: any) => speaker.speaker === 'Wilders');
+      const pvv = statistics.parties.find((party: any) => party.party === 'PVV');
+
+      expect(statistics.totals).toMatchObject({ turns: 15, interruptions: 4 });
+      expect(wilders).toMatchObject({ party: 'PVV', turns: 3, interruptionsMade: 0, interruptionsReceived: 2 });
+      expect(pvv).toMatchObject({ speakers: ['Wilders'], seats: 1, seatShare: 0.143, words: wilders.words });
+      expect(statistics.notes).toEqual([]);
+    });
+
+    it('should quote what a person said and leave out mentions by others', async () => {
+      const byId = await client.callJsonTool('get_person_quotes', { docId: '2024D39058', person: '1001' });
+      const byName = await client.callJsonTool('get_person_quotes', { docId: '2024D39058', person: 'Van der Plas', contains: 'brief' });
+      const content = await client.callJsonTool('get_document_content', { docId: '2024D39058' });
+      const absent = await client.callJsonTool('get_person_quotes', { docId: '2024D39058', person: 'Bontenbal' });
+
+      expect(byId.person).toEqual({ query: '1001', id: 1001, name: 'Geert Wilders', party: 'PVV' });
+      expect(byId).toMatchObject({ turnsBySpeaker: 3, mentionsByOthers: 3, totalQuotes: 3 });
+      expect(byId.quotes[0]).toMatchObject({ speaker: 'Wilders', party: 'PVV', page: 2, truncated: false });
+      expect(byId.quotes[0].text).toMatch(/^Nederland zit op slot.*van tafel gaan\.$/);
+      expect(content.text.slice(byId.quotes[0].start, byId.quotes[0].end).replace(/\s+/g, ' ')).toBe(byId.quotes[0].text);
+      expect(byName.quotes.map((quote: any) => quote.text)).toEqual(['Kan de minister toezeggen dat die brief er echt voor de zomer ligt?']);
+      expect(byName.quotes[0]).toMatchObject({ isInterruption: true, interrupting: 'Wiersma', page: 3 });
+      expect(absent.totalQuotes).toBe(0);
+      expect(absent.note).toContain('Bontenbal does not speak in this document');
+    });
+
+    it('should parse motions and link them to their vote', async () => {
+      const motion = await client.callJsonTool('get_motion', { docId: '2024D40001' });
+      const [notAMotion] = await client.callTool('get_motion', { docId: '2024D38000' });
+
+      expect(motion).toMatchObject({
+        kind: 'motie',
+        kamerstuk: { dossier: '35334', ondernummer: '300', dossierTitle: 'Problematiek rondom stikstof en PFAS' },
+        voorgesteld: '2024-10-15',
+        debate: 'Problematiek rondom stikstof en PFAS',
+        debateSource: 'dossier',
+        indieners: ['Van der Plas', 'Wilders'],
+        dictum: { opening: 'verzoekt de regering', text: 'de rekenkundige ondergrens voor 1 januari 2025 in te voeren' }
+      });
+      expect(motion.considerations.map((consideration: any) => consideration.type)).toEqual(['constaterende', 'constaterende', 'overwegende']);
+      expect(motion.votingResult).toMatchObject({ id: '2024Z01234', result: 'Aangenomen' });
+      expect(notAMotion).toContain('does not look like a motion');
+    });
+
+    it('should pair written questions with the answers found by zaak number', async () => {
+      const fromQuestions = await client.callJsonTool('get_question_answers', { docId: '2024D41000' });
+      const fromAnswers = await client.callJsonTool('get_question_answers', { docId: '2024D44000' });
+
+      expect(fromQuestions).toMatchObject({
+        zaakNummer: '2024Z13000',
+        questionsDocument: { docId: '2024D41000' },
+        answerDocument: { docId: '2024D44000', date: '2024-10-08' },
+        askedBy: 'Dijk (SP)',
+        answeredBy: 'minister Agema (Volksgezondheid, Welzijn en Sport)',
+        subject: 'de wachtlijsten in de jeugdzorg',
+        timing: { submitted: '2024-09-02', deadline: '2024-09-23', received: '2024-10-08', daysTaken: 36, withinDeadline: false, daysOverdue: 15 },
+        totalQuestions: 3,
+        notes: []
+      });
+      expect(fromQuestions.pairs[1]).toEqual({
+        number: 2,
+        question: 'Hoeveel kinderen staan er op dit moment op een wachtlijst voor jeugdzorg?',
+        answer: 'Volgens de laatste cijfers wachten ruim 4.000 kinderen langer dan de treeknorm.'
+      });
+      expect(fromQuestions.pairs[2].answer).toMatch(/^Ik maak met gemeenten.*niet realistisch\.$/);
+      expect(fromAnswers).toMatchObject({ questionsDocument: { docId: '2024D41000' }, answerDocument: { docId: '2024D44000' }, timing: fromQuestions.timing });
+      expect(fromAnswers.pairs).toEqual(fromQuestions.pairs);
+    });
+
+    it('should resolve references to documents, cases and Kamerstukken', async () => {
+      const kamerstuk = await client.callJsonTool('resolve_reference', { reference: 'Kamerstuk 35334, nr. 300' });
+      const zaak = await client.callJsonTool('resolve_reference', { reference: '2024Z01234' });
+      const ambiguous = await client.callJsonTool('resolve_reference', { reference: 'kamerstukken 35334, nrs. 299 en 301' });
+      const unknown = await client.callJsonTool('resolve_reference', { reference: '2024D99999' });
+      const unrecognized = await client.callJsonTool('resolve_reference', { reference: 'de stikstofbrief' });
+
+      expect(kamerstuk).toMatchObject({
+        status: 'resolved',
+        id: 'kst-35334-300',
+        tkconvUrl: `${upstream.url}/document.html?nummer=2024D40001`,
+        tweedekamerUrl: 'https://www.tweedekamer.nl/kamerstukken/detail?id=2024D40001',
+        document: { nummer: '2024D40001', type: 'Motie' }
+      });
+      expect(zaak).toMatchObject({ status: 'resolved', kind: 'zaak', tkconvUrl: `${upstream.url}/zaak.html?nummer=2024Z01234`, document: null });
+      expect(ambiguous.status).toBe('ambiguous');
+      expect(ambiguous.candidates.map((candidate: any) => [candidate.id, candidate.status])).toEqual([['kst-35334-299', 'resolved'], ['kst-35334-301', 'unresolvable']]);
+      expect(unknown).toMatchObject({ status: 'unresolvable', message: 'tkconv has no document for 2024D99999' });
+      expect(unrecognized.status).toBe('unrecognized');
+    });
+
+    it('should resolve relative redirects and reject redirects to other hosts', async () => {
+      upstream.fail({ path: '/op/2024Z01234', mode: 'redirect', location: 'zaak.html?nummer=2024Z01234', times: 1 });
+      const relative = await client.callJsonTool('resolve_reference', { reference: '2024Z01234' });
+      upstream.fail({ path: '/op/2024Z01234', mode: 'redirect', location: 'https://example.org/zaak/2024Z01234', times: 1 });
+      const elsewhere = await client.callJsonTool('resolve_reference', { reference: '2024Z01234' });
+
+      expect(relative).toMatchObject({ status: 'resolved', tkconvUrl: `${upstream.url}/zaak.html?nummer=2024Z01234` });
+      expect(elsewhere).toMatchObject({ status: 'unresolvable', tkconvUrl: null, tweedekamerUrl: null });
+      expect(elsewhere.message).toBe('2024Z01234 leads to https://example.org/zaak/2024Z01234, which is not a tkconv or tweedekamer.nl page');
+    });
+
+    it('should create, check, list and delete watches', async () => {
+      const created = await client.callJsonTool('create_watch', { name: 'stikstof-moties', query: 'stikstof', soort: 'Motie' });
+      const duplicate = await client.callJsonTool('create_watch', { name: 'stikstof-moties', query: 'stikstof' });
+      const checked = await client.callJsonTool('check_watch', { name: 'stikstof-moties' });
+      const listed = await client.callJsonTool('list_watches');
+      const deleted = await client.callJsonTool('delete_watch', { name: 'stikstof-moties' });
+      const unknown = await client.callJsonTool('check_watch', { name: 'stikstof-moties' });
+
+      expect(created).toMatchObject({ watch: { name: 'stikstof-moties', filters: { soort: 'Motie' }, seenResults: 1 }, existingResults: 1 });
+      expect(duplicate.error).toBe("Error creating watch: A watch named 'stikstof-moties' already exists");
+      expect(checked).toMatchObject({ totalNewResults: 0, newResults: [], totalResults: 1 });
+      expect(checked.note).toMatch(/^No new results for 'stikstof' since /);
+      expect(listed.watches.map((watch: any) => watch.name)).toEqual(['stikstof-moties']);
+      expect(deleted).toEqual({ name: 'stikstof-moties', deleted: true });
+      expect(unknown.error).toBe("Error checking watch: No watch named 'stikstof-moties'");
+    });
+
+    it('should list documents added or updated since a moment', async () => {
+      const result = await client.callJsonTool('get_new_documents', { since: '2024-10-16T12:00:00Z' });
+      const invalid = await client.callJsonTool('get_new_documents', { since: 'gisteren' });
+
+      expect(result.documents.map((document: any) => [document.nummer, document.change])).toEqual([['2024D39058', 'updated']]);
+      expect(result).toMatchObject({ feed: null, totalDocuments: 1, complete: true, notes: [] });
+      expect(invalid.error).toBe('Invalid since value: gisteren');
+    });
+
+    it('should return the profile of a member', async () => {
+      const profile = await client.callJsonTool('get_person', { personId: '1007' });
+      const unknown = await client.callJsonTool('get_person', { personId: '9999' });
+
+      expect(profile).toMatchObject({ Id: 1007, Fullname: 'Jimmy Dijk', Fractie: 'SP', birthDate: '1994-03-12', url: expect.stringMatching(/\/persoon\.html\?nummer=1007$/) });
+      expect(profile.questions.map((question: any) => question.nummer)).toEqual(['2024D41000']);
+      expect(profile.votes[0]).toMatchObject({ vote: 'Tegen' });
+      expect(unknown.error).toBe('Error fetching MP profile: No MP found with ID 9999');
+    });
+
+    it('should list the composition of the Kamer on a day', async () => {
+      const composition = await client.callJsonTool('list_persons', { date: '2023-01-01' });
+      const [invalid] = await client.callTool('list_persons', { from: '2023-12-31', to: '2023-01-01' });
+
+      expect(composition).toMatchObject({ from: '2023-01-01', to: '2023-01-01', totalMembers: 6, complete: true });
+      expect(composition.membersByParty).toEqual({ CDA: 1, D66: 1, 'Lid Omtzigt': 1, BBB: 1, ChristenUnie: 1, PVV: 1 });
+      expect(composition.members[0]).toMatchObject({ Id: 1006, Fullname: 'Henri Bontenbal', Fractie: 'CDA', memberUntil: null });
+      expect(invalid).toBe('Error fetching MP list: The period ends (2023-01-01) before it starts (2023-12-31)');
+    });
+
+    it('should resolve free-text names to members', async () => {
+      const resolved = await client.callJsonTool('resolve_person', { name: 'minister Jeten' });
+      const unknown = await client.callJsonTool('resolve_person', { name: 'Jansen' });
+
+      expect(resolved.match).toMatchObject({ id: 1005, party: 'D66', current: true });
+      expect(unknown.candidates).toEqual([]);
+      expect(unknown.notes).toEqual(["No member matches 'Jansen'. Check the spelling or use list_persons to browse all current members."]);
+    });
+
+    it('should list parties and describe one party', async () => {
+      const parties = await client.callJsonTool('list_parties');
+      const party = await client.callJsonTool('get_party', { party: 'nsc' });
+      const withoutSeats = await client.callJsonTool('get_party', { party: 'VVD' });
+      const unknown = await client.callJsonTool('get_party', { party: 'Partij van de Toekomst' });
+
+      expect(parties.totalSeats).toBe(7);
+      expect(parties.parties).toContainEqual({ abbreviation: 'GL-PvdA', name: 'GroenLinks-PvdA', fractie: 'GroenLinks-PvdA', seats: 1, known: true });
+      expect(party).toMatchObject({ abbreviation: 'NSC', name: 'Nieuw Sociaal Contract', seats: 1 });
+      expect(party.members).toEqual([expect.objectContaining({ id: 1004, name: 'Pieter Omtzigt', role: 'Fractievoorzitter' })]);
+      expect(party.joinedFrom.map((move: any) => move.party)).toEqual(['CDA', 'Lid Omtzigt']);
+      expect(party.history.map((event: any) => event.type)).toEqual(['split', 'founded']);
+      expect(party.votes).toEqual([expect.objectContaining({ id: '2024Z01234', vote: 'Voor', result: 'Aangenomen' })]);
+      expect(withoutSeats).toMatchObject({ abbreviation: 'VVD', seats: 0, members: [], votes: [] });
+      expect(unknown.error).toBe('Error fetching party: Unknown party: Partij van de Toekomst');
+    });
+
+    it('should link a party to the motions of its members', async () => {
+      const party = await client.callJsonTool('get_party', { party: 'BoerBurgerBeweging' });
+
+      expect(party.motions).toEqual([expect.objectContaining({ nummer: '2024D40001', member: 'Caroline van der Plas', date: '2024-10-15' })]);
+    });
+
+    it('should extract citations and resolve the cited papers', async () => {
+      const all = await client.callJsonTool('extract_citations', { docId: '2024D38000' });
+      const resolved = await client.callJsonTool('extract_citations', { docId: '2024D38000', type: 'kamerstuk', resolve: true });
+      const analysis = await client.callJsonTool('analyze_document_relevance', { docId: '2024D38000' });
+
+      expect(all.citations.map((citation: any) => [citation.type, citation.normalized])).toEqual([
+        ['kamerstuk', 'Kamerstuk 35334, nr. 300'],
+        ['handelingen', 'Handelingen II 2024/25, nr. 10, item 5'],
+        ['ecli', 'ECLI:NL:RVS:2019:1603'],
+        ['wet', 'artikel 2.7, tweede lid, Wet natuurbescherming']
+      ]);
+      expect(all.byType).toEqual({ kamerstuk: 1, handelingen: 1, ecli: 1, wet: 1 });
+      expect(all.citations[0]).toMatchObject({ page: 1, text: 'Kamerstuk 35334, nr. 300' });
+      expect(all.citations[0].resolved).toBeUndefined();
+      expect(resolved.totalCitations).toBe(1);
+      expect(resolved.citations[0].resolved).toEqual([
+        expect.objectContaining({ id: 'kst-35334-300', status: 'resolved', document: expect.objectContaining({ nummer: '2024D40001' }) })
+      ]);
+      expect(analysis.citations).toContainEqual({ type: 'ecli', normalized: 'ECLI:NL:RVS:2019:1603', count: 1 });
+    });
+
+    it('should report unsupported, unlinked and unknown documents', async () => {
+      const [unsupported] = await client.callTool('get_document_content', { docId: '2024D00001' });
+      const [unlinked] = await client.callTool('get_document_content', { docId: '2024D00002' });
+      const [unknown] = await client.callTool('get_document_content', { docId: '2024D99999' });
+
+      expect(unsupported).toContain('Unsupported document type (content type: image/png)');
+      expect(unlinked).toContain('Could not find document link');
+      expect(unknown).toContain('Document not found: 2024D99999');
+    });
+
+    it('should surface search failures', async () => {
+      upstream.fail({ path: '/search', mode: 'error' });
+
+      const [error, results] = await client.callTool('search_tk', { query: 'stikstof' });
+
+      expect(error).toContain('Search failed');
+      expect(results).toBe('[]');
+    });
+
+    it('should filter searches by date, type and recency and echo the filters', async () => {
+      const search = await client.callJsonTool('search_tk', { query: 'stikstof', dateFrom: '2024-10-15', soort: 'motie', recentOnly: true });
+      const filtered = await client.callJsonTool('search_tk_filtered', { query: 'stikstof', type: 'Document', dateTo: '2024-10-15' });
+      const byCategory = await client.callJsonTool('search_by_category', { query: 'ondergrens', category: 'moties', type: 'Zaak' });
+
+      expect(upstream.requests[0]?.form).toMatchObject({ q: 'stikstof', twomonths: 'true' });
+      expect(search.pagination.filters).toEqual({ dateFrom: '2024-10-15', soort: 'motie', recentOnly: true });
+      expect(search.results.map((result: any) => result.id)).toEqual(['2024D40001']);
+      expect(filtered.pagination.filters).toEqual({ dateTo: '2024-10-15', category: 'Document', recentOnly: false });
+      expect(filtered.results.map((result: any) => result.id)).toEqual(['2024D40001', '2024D38000', '2024D00001']);
+      expect(byCategory.pagination.filters).toEqual({ category: 'Zaak', recentOnly: false });
+      expect(byCategory.results.map((result: any) => result.id)).toEqual(['2024Z01234']);
+    });
+
+    it('should return typed results with facets over all hits', async () => {
+      const search = await client.callJsonTool('search_tk', { query: 'stikstof', limit: 1 });
+
+      expect(search.pagination.totalResults).toBe(5);
+      expect(search.facets).toEqual({
+        category: { Document: 4, Activiteit: 1 },
+        soort: { 'Verslag': 1, 'Motie': 1, 'Brief regering': 1, 'Bijlage': 1, 'Commissiedebat': 1 },
+        year: { 2024: 5 }
+      });
+      expect(search.results).toHaveLength(1);
+      expect(search.results[0]).toMatchObject({ id: '2024A01234', category: 'Activiteit', soort: 'Commissiedebat', nummer: null });
+      expect(search.results[0].snippet.toLowerCase()).toContain('stikstof');
+    });
+
+    it('should explain searches that the filters narrow to nothing', async () => {
+      const [empty] = await client.callTool('search_tk', { query: 'stikstof', dateFrom: '2025-01-01' });
+      const [invalid] = await client.callTool('search_tk', { query: 'stikstof', dateFrom: '2024-10-16', dateTo: '2024-10-01' });
+
+      expect(empty).toBe('No results found for query: stikstof with filters: dateFrom=2025-01-01. Try using different keywords or simplifying your search.');
+      expect(invalid).toContain('dateFrom (2024-10-16) is after dateTo (2024-10-01)');
+    });
+
+    it('should report photos that cannot be found', async () => {
+      const [text] = await client.callTool('get_photo', { personId: '9999' });
+
+      expect(text).toContain('Error fetching MP photo');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for parsing moties and amendementen
+ */
+
+import { parseMotion, findVotingResultForMotion } from '../utils/motion-parser';
+import { VotingResult } from '../utils/html-parser';
+
+const MOTION = `Tweede Kamer der Staten-Generaal
+Vergaderjaar 2024–2025
+
+36 200 XIV Vaststelling van de begrotingsstaten van het Ministerie van Landbouw, Natuur en Voedselkwaliteit
+
+Nr. 42
+
+GEWIJZIGDE MOTIE VAN DE LEDEN JETTEN EN BONTENBAL TER VERVANGING VAN DIE GEDRUKT ONDER NR. 38
+
+Voorgesteld tijdens het Tweeminutendebat Stikstof (CD 3/10) op 12 november 2024
+
+De Kamer,
+
+gehoord de beraadslaging,
+
+constaterende dat de natuur in Nederland onder druk staat en dat de
+stikstofdepositie in veel Natura 2000-gebieden te hoog is;
+
+overwegende dat boeren perspectief nodig hebben;
+
+van mening dat vrijwillige opkoop voorrang verdient,
+
+verzoekt de regering, om voor de zomer een plan voor natuurherstel
+naar de Kamer te sturen,
+
+en gaat over tot de orde van de dag.
+
+Jetten
+Bontenbal`;
+
+const AMENDMENT = `Tweede Kamer der Staten-Generaal
+36410 Wijziging van de Wet stikstofreductie
+
+Nr. 5
+
+AMENDEMENT VAN HET LID OMTZIGT
+
+Ontvangen 3 oktober 2024
+
+De ondergetekende stelt het volgende amendement voor:
+
+I
+
+Artikel 2 vervalt.
+
+Toelichting
+
+Dit amendement schrapt de resultaatsverplichting.
+
+Omtzigt`;
+
+describe('Motion parser', () => {
+  it('should parse the parts of a motion', () => {
+    const motion = parseMotion(MOTION);
+
+    expect(motion).toMatchObject({
+      kind: 'gewijzigde motie',
+      kamerstuk: { dossier: '36200-XIV', ondernummer: '42', citation: 'Kamerstuk 36200-XIV, nr. 42' },
+      vergaderjaar: '2024-2025',
+      voorgesteld: '2024-11-12',
+      debate: 'Tweeminutendebat Stikstof (CD 3/10)',
+      debateSource: 'document',
+      indieners: ['Jetten', 'Bontenbal'],
+      toelichting: null
+    });
+    expect(motion.considerations).toEqual([
+      { type: 'constaterende', text: 'de natuur in Nederland onder druk staat en dat de stikstofdepositie in veel Natura 2000-gebieden te hoog is' },
+      { type: 'overwegende', text: 'boeren perspectief nodig hebben' },
+      { type: 'van mening', text: 'vrijwillige opkoop voorrang verdient' }
+    ]);
+    expect(motion.dictum).toEqual({ opening: 'verzoekt de regering', text: 'om voor de zomer een plan voor natuurherstel naar de Kamer te sturen' });
+  });
+
+  it('should take the indieners from the heading when the signatures are missing', () => {
+    const motion = parseMotion(MOTION.replace(/\nJetten\nBontenbal$/, ''));
+
+    expect(motion.indieners).toEqual(['Jetten', 'Bontenbal']);
+  });
+
+  it('should fall back to the dossier title for the debate', () => {
+    const motion = parseMotion(MOTION.replace(/^Voorgesteld .*$/m, 'Voorgesteld 12 november 2024'));
+
+    expect(motion).toMatchObject({ voorgesteld: '2024-11-12', debateSource: 'dossier' });
+    expect(motion.debate).toMatch(/^Vaststelling van de begrotingsstaten/);
+  });
+
+  it('should parse amendments', () => {
+    const amendment = parseMotion(AMENDMENT);
+
+    expect(amendment).toMatchObject({
+      kind: 'amendement',
+      kamerstuk: { dossier: '36410', ondernummer: '5' },
+      indieners: ['Omtzigt'],
+      toelichting: 'Dit amendement schrapt de resultaatsverplichting.',
+      considerations: []
+    });
+    expect(amendment.dictum?.text).toBe('De ondergetekende stelt het volgende amendement voor: I Artikel 2 vervalt.');
+  });
+
+  it('should report documents that are not motions', () => {
+    expect(parseMotion('Geachte voorzitter,\n\nHierbij ontvangt u de brief.')).toMatchObject({ kind: 'onbekend', dictum: null, indieners: [] });
+  });
+
+  it('should link a motion to its voting result', () => {
+    const vote = (title: string): VotingResult => ({ id: title, title, date: '2024-11-19', result: 'Aangenomen', url: '' });
+    const results = [vote('Motie van het lid Jetten over kernenergie'), vote('Gewijzigde motie van de leden Jetten en Bontenbal over natuurherstel')];
+    const motion = parseMotion(MOTION);
+
+    expect(findVotingResultForMotion(motion, 'Gewijzigde motie van de leden Jetten en Bontenbal over natuurherstel', results)?.id).toBe(results[1]!.id);
+    expect(findVotingResultForMotion(motion, 'Motie van de leden Jetten en Bontenbal over natuurherstel', results)?.id).toBe(results[1]!.id);
+    expect(findVotingResultForMotion(motion, 'Motie van het lid Jetten over stikstof', results)).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Tests for the party list
+ */
+
+import { findParty, isPartyName, PARTY_NAMES } from '../utils/parties';
+
+describe('Parties', () => {
+  it('should find parties by abbreviation, full name and alias', () => {
+    expect(findParty('cu')?.name).toBe('ChristenUnie');
+    expect(findParty('Partij voor de Dieren')?.abbreviation).toBe('PvdD');
+    expect(findParty('GroenLinks-PvdA')?.abbreviation).toBe('GL-PvdA');
+    expect(findParty('Christen-Democratisch Appel')?.abbreviation).toBe('CDA');
+    expect(findParty('Lid Omtzigt')).toBeNull();
+  });
+
+  it('should tell whether a fractie is written as one of the party names', () => {
+    expect(isPartyName('Nieuw Sociaal Contract', findParty('NSC')!)).toBe(true);
+    expect(isPartyName('GroenLinks-PvdA', findParty('PvdA')!)).toBe(false);
+  });
+
+  it('should keep every name searched for in documents', () => {
+    expect(PARTY_NAMES).toEqual(expect.arrayContaining(['VVD', 'GroenLinks', 'GL', 'ChristenUnie', 'CU', 'Forum voor Democratie', 'BoerBurgerBeweging', 'Omtzigt']));
+    expect(new Set(PARTY_NAMES).size).toBe(PARTY_NAMES.length);
+  });
+});
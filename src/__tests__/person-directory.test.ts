@@ -0,0 +1,107 @@
+/**
+ * Tests for resolving free-text names to current and former members
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiService } from '../services/api';
+import { PersonDirectoryService, KnownPerson } from '../services/person-directory';
+import { StateStore } from '../services/state-store';
+import { startMockTkconv, MockTkconv } from './support/mock-tkconv';
+
+describe('Person directory', () => {
+  let upstream: MockTkconv;
+  let stateDir: string;
+  let store: StateStore;
+  let directory: PersonDirectoryService;
+
+  beforeAll(async () => {
+    upstream = await startMockTkconv();
+  });
+
+  afterAll(async () => {
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    upstream.reset();
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opentk-state-'));
+    store = new StateStore(stateDir);
+    directory = new PersonDirectoryService(new ApiService({ baseUrl: upstream.url, cache: null, retry: { retries: 0 } }), store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('should resolve names with titles, typos and a missing tussenvoegsel', async () => {
+    const jetten = await directory.resolvePerson('minister Jeten');
+    const plas = await directory.resolvePerson('mevrouw Plas');
+    const joined = await directory.resolvePerson('Vanderplas');
+
+    expect(jetten.match).toMatchObject({ id: 1005, name: 'Rob Jetten', party: 'D66', current: true, citationName: 'Jetten' });
+    expect(jetten.parsed).toMatchObject({ titles: ['minister'], achternaam: 'Jeten' });
+    expect(plas.match).toMatchObject({ id: 1002, sortName: 'Plas, C. van der' });
+    expect(joined.match?.id).toBe(1002);
+    expect((await directory.resolvePerson('Jansen')).candidates).toEqual([]);
+  });
+
+  it('should find former members remembered from earlier rosters', async () => {
+    const former: KnownPerson = { id: 1010, name: 'Mark Rutte', party: 'VVD', lastSeen: '2023-11-21' };
+    await store.write('persons', { 1010: former });
+
+    const result = await directory.resolvePerson('Rute', 5, new Date('2024-10-20T12:00:00Z'));
+    const remembered = await store.read<Record<string, KnownPerson>>('persons');
+
+    expect(result.match).toMatchObject({ id: 1010, current: false, lastSeen: '2023-11-21' });
+    expect(Object.keys(remembered!)).toHaveLength(8);
+    expect(remembered!['1005']).toEqual({ id: 1005, name: 'Rob Jetten', party: 'D66', lastSeen: '2024-10-20' });
+  });
+
+  it('should fall back to remembered members when the roster cannot be fetched', async () => {
+    await directory.resolvePerson('Dijk', 5, new Date('2024-10-20T12:00:00Z'));
+    upstream.fail({ path: '/kamerleden.html', mode: 'error' });
+
+    const result = await directory.resolvePerson('Dijk');
+
+    expect(result.rosterAvailable).toBe(false);
+    expect(result.match).toMatchObject({ id: 1007, current: true });
+  });
+
+  it('should list the members seated on a day, with their party at the time', async () => {
+    const composition = await directory.getComposition('2023-01-01');
+
+    expect(composition.members.map(member => [member.Id, member.Fractie])).toEqual([
+      [1006, 'CDA'],
+      [1005, 'D66'],
+      [1004, 'Lid Omtzigt'],
+      [1002, 'BBB'],
+      [1008, 'ChristenUnie'],
+      [1001, 'PVV']
+    ]);
+    expect(composition.members.find(member => member.Id === 1008)).toMatchObject({
+      Fullname: 'Gert-Jan Segers',
+      Voornaam: 'Gert-Jan',
+      Initialen: 'G.J.',
+      memberFrom: '2012-09-20',
+      memberUntil: '2023-05-16',
+      leaveReason: 'Op eigen verzoek'
+    });
+    expect(composition.complete).toBe(true);
+  });
+
+  it('should list everyone seated during a period and remember those who left', async () => {
+    const composition = await directory.getComposition('2023-06-01', '2023-12-31');
+    const remembered = await store.read<Record<string, KnownPerson>>('persons');
+
+    expect(composition.members).toHaveLength(7);
+    expect(composition.members.find(member => member.Id === 1004)).toMatchObject({ Fractie: 'NSC', memberFrom: '2003-06-03', memberUntil: null, leaveReason: null });
+    expect(composition.members.find(member => member.Id === 1003)).toMatchObject({ Fractie: 'GroenLinks-PvdA', FractieAfkorting: 'GL-PvdA' });
+    expect(composition.members.find(member => member.Id === 1007)).toMatchObject({ FractieAfkorting: 'SP', memberFrom: '2023-12-06' });
+    expect(composition).toMatchObject({ candidates: 8, checkedProfiles: 8, complete: true });
+    expect(composition.members.some(member => member.Id === 1008)).toBe(false);
+    expect(remembered).toEqual({ 1008: { id: 1008, name: 'Gert-Jan Segers', party: 'ChristenUnie', lastSeen: '2023-05-16' } });
+    expect((await directory.resolvePerson('Segers')).match).toMatchObject({ id: 1008, current: false });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for parsing and formatting Dutch names
+ */
+
+import { parseDutchName, formatSortName, formatCitationName, personNameForms, scoreNameMatch } from '../utils/person-names';
+
+describe('Dutch names', () => {
+  it('should split first names, tussenvoegsel and surname', () => {
+    expect(parseDutchName('Caroline van der Plas')).toMatchObject({
+      voornaam: 'Caroline',
+      roepnaam: 'Caroline',
+      initialen: 'C.',
+      tussenvoegsel: 'van der',
+      achternaam: 'Plas'
+    });
+    expect(parseDutchName('Henk Jan Ormel')).toMatchObject({ voornaam: 'Henk Jan', initialen: 'H.J.', tussenvoegsel: null, achternaam: 'Ormel' });
+    expect(parseDutchName('Dilan Yeşilgöz-Zegerius')).toMatchObject({ voornaam: 'Dilan', achternaam: 'Yeşilgöz-Zegerius' });
+    expect(parseDutchName('Wilders')).toMatchObject({ voornaam: null, initialen: null, achternaam: 'Wilders' });
+  });
+
+  it('should read initials, roepnaam, titles and the sort and citation forms', () => {
+    expect(parseDutchName('mr. dr. P.H. Omtzigt MSc')).toMatchObject({
+      titles: ['mr.', 'dr.', 'MSc'],
+      voornaam: null,
+      initialen: 'P.H.',
+      achternaam: 'Omtzigt'
+    });
+    expect(parseDutchName('C.A. (Caroline) van der Plas')).toMatchObject({ initialen: 'C.A.', roepnaam: 'Caroline', tussenvoegsel: 'van der', achternaam: 'Plas' });
+    expect(parseDutchName('Van der Plas')).toMatchObject({ voornaam: null, tussenvoegsel: 'van der', achternaam: 'Plas' });
+    expect(parseDutchName('Plas, C. van der')).toMatchObject({ initialen: 'C.', tussenvoegsel: 'van der', achternaam: 'Plas' });
+    expect(parseDutchName('de heer Van Dijk')).toMatchObject({ titles: ['de heer'], tussenvoegsel: 'van', achternaam: 'Dijk' });
+  });
+
+  it('should format sort keys and citation forms', () => {
+    expect(formatSortName(parseDutchName('Caroline van der Plas'))).toBe('Plas, C. van der');
+    expect(formatSortName(parseDutchName('Henk Jan Ormel'))).toBe('Ormel, H.J.');
+    expect(formatSortName(parseDutchName('Wilders'))).toBe('Wilders');
+    expect(formatCitationName(parseDutchName('Caroline van der Plas'))).toBe('Van der Plas');
+    expect(formatCitationName(parseDutchName('Henk Jan Ormel'))).toBe('Ormel');
+  });
+
+  it('should list the forms a person is referred to by', () => {
+    expect(personNameForms('Caroline van der Plas')).toEqual(['Caroline van der Plas', 'C. van der Plas', 'Van der Plas']);
+    expect(personNameForms('de heer Wilders')).toEqual(['Wilders']);
+    expect(personNameForms('Van der')).toEqual(['Van der']);
+  });
+
+  it('should score names written with typos or without first names and tussenvoegsel', () => {
+    const score = (query: string, name: string) => scoreNameMatch(parseDutchName(query), parseDutchName(name));
+
+    expect(score('Jetten', 'Rob Jetten')).toBe(1);
+    expect(score('Timermans', 'Frans Timmermans')).toBeGreaterThan(0.9);
+    expect(score('Yesilgoz', 'Dilan Yeşilgöz-Zegerius')).toBeGreaterThanOrEqual(0.9);
+    expect(score('P. Omtzigt', 'Pieter Omtzigt')).toBe(1);
+    expect(score('J. Omtzigt', 'Pieter Omtzigt')).toBeLessThan(0.9);
+    expect(score('Caroline', 'Caroline van der Plas')).toBe(0.8);
+    expect(score('Jansen', 'Rob Jetten')).toBeLessThan(0.8);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for the upstream rate limiter and concurrency queue
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ApiService } from '../services/api';
+import { RequestGovernor } from '../services/rate-limiter';
+
+describe('RequestGovernor', () => {
+  it('should refuse settings that would make every request wait forever', () => {
+    expect(() => new RequestGovernor({ requestsPerSecond: 5, burst: 10, maxConcurrent: 0 })).toThrow('maxConcurrent must be at least 1');
+    expect(() => new RequestGovernor({ requestsPerSecond: 5, burst: 10, maxConcurrent: NaN })).toThrow('maxConcurrent must be at least 1');
+    expect(() => new RequestGovernor({ requestsPerSecond: NaN, burst: 10, maxConcurrent: 4 })).toThrow('requestsPerSecond and burst must be at least 0');
+  });
+
+  it('should limit concurrent requests and grant them in arrival order', async () => {
+    const governor = new RequestGovernor({ requestsPerSecond: 0, burst: 1, maxConcurrent: 2 });
+    const granted: number[] = [];
+
+    const first = await governor.acquire('example.org');
+    const second = await governor.acquire('example.org');
+    const third = governor.acquire('example.org').then(permit => { granted.push(3); return permit; });
+    const fourth = governor.acquire('example.org').then(permit => { granted.push(4); return permit; });
+
+    expect(governor.getHostStatus('example.org')).toEqual({ queueDepth: 2, active: 2 });
+
+    first.release();
+    const thirdPermit = await third;
+    expect(thirdPermit.queuedAhead).toBe(0);
+    expect(granted).toEqual([3]);
+
+    second.release();
+    const fourthPermit = await fourth;
+    expect(fourthPermit.queuedAhead).toBe(1);
+    expect(granted).toEqual([3, 4]);
+
+    thirdPermit.release();
+    fourthPermit.release();
+    expect(governor.getHostStatus('example.org')).toEqual({ queueDepth: 0, active: 0 });
+  });
+
+  it('should space requests beyond the burst according to the rate', async () => {
+    const governor = new RequestGovernor({ requestsPerSecond: 20, burst: 1, maxConcurrent: 10 });
+
+    const first = await governor.acquire('example.org');
+    const second = await governor.acquire('example.org');
+
+    expect(first.waitMs).toBeLessThan(20);
+    expect(second.waitMs).toBeGreaterThanOrEqual(30);
+    first.release();
+    second.release();
+  });
+
+  it('should keep separate queues per host', async () => {
+    const governor = new RequestGovernor({ requestsPerSecond: 0, burst: 1, maxConcurrent: 1 });
+
+    const busy = await governor.acquire('a.example.org');
+    const other = await governor.acquire('b.example.org');
+
+    expect(other.waitMs).toBeLessThan(20);
+    busy.release();
+    other.release();
+  });
+});
+
+describe('ApiService throttling', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      setTimeout(() => {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end(`page ${req.url}`);
+      }, 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should queue requests beyond the concurrency limit and report the wait', async () => {
+    const service = new ApiService({
+      baseUrl,
+      cache: null,
+      rateLimit: { requestsPerSecond: 0, maxConcurrent: 1 }
+    });
+
+    const pages = await Promise.all([
+      service.fetchHtml('/one.html'),
+      service.fetchHtml('/two.html'),
+      service.fetchHtml('/three.html')
+    ]);
+
+    expect(pages).toEqual(['page /one.html', 'page /two.html', 'page /three.html']);
+    expect(service.getUpstreamStatus('/one.html')).toEqual({ waitMs: expect.any(Number), queuedAhead: 0, queueDepth: 0, active: 0 });
+
+    const second = service.getUpstreamStatus('/two.html');
+    expect(second.queuedAhead).toBe(0);
+    expect(second.waitMs).toBeGreaterThanOrEqual(15);
+
+    const third = service.getUpstreamStatus('/three.html');
+    expect(third.queuedAhead).toBe(1);
+    expect(third.waitMs).toBeGreaterThan(second.waitMs);
+  });
+});
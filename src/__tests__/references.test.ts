@@ -0,0 +1,54 @@
+/**
+ * Tests for recognizing references to parliamentary papers
+ */
+
+import { parseReference } from '../utils/references';
+
+describe('Reference parser', () => {
+  it('should recognize document, zaak and activity numbers', () => {
+    expect(parseReference('2024D39058')).toEqual({
+      status: 'ok',
+      reference: { kind: 'document', id: '2024D39058', dossier: null, ondernummer: null, citation: '2024D39058' }
+    });
+    expect(parseReference(' 2024z01234 ')).toMatchObject({ status: 'ok', reference: { kind: 'zaak', id: '2024Z01234' } });
+    expect(parseReference('https://tkconv.example/activiteit.html?nummer=2024A01234')).toMatchObject({ reference: { kind: 'activiteit' } });
+  });
+
+  it('should normalize Kamerstuk citations and identifiers', () => {
+    const kamerstuk = { status: 'ok', reference: { kind: 'kamerstuk', id: 'kst-36200-XVI-12', dossier: '36200-XVI', ondernummer: '12', citation: 'Kamerstuk 36200-XVI, nr. 12' } };
+
+    expect(parseReference('Kamerstuk 36200-XVI nr. 12')).toEqual(kamerstuk);
+    expect(parseReference('Kamerstukken II 2023/24, 36 200 XVI, nr. 12')).toEqual(kamerstuk);
+    expect(parseReference('kst-36200-xvi-12')).toEqual(kamerstuk);
+    expect(parseReference('https://zoek.officielebekendmakingen.nl/kst-21501-32-1234.html')).toMatchObject({ reference: { dossier: '21501-32', ondernummer: '1234' } });
+    expect(parseReference('36410 nr 5')).toMatchObject({ reference: { id: 'kst-36410-5' } });
+  });
+
+  it('should normalize Handelingen citations and identifiers', () => {
+    const item = { status: 'ok', reference: { kind: 'handelingen', id: 'h-tk-20232024-45-12', dossier: null, ondernummer: null, citation: 'Handelingen II 2023/24, nr. 45, item 12' } };
+
+    expect(parseReference('Handelingen II 2023/24, nr. 45, item 12')).toEqual(item);
+    expect(parseReference('Handelingen II 2023-2024, 45, item 12')).toEqual(item);
+    expect(parseReference('https://zoek.officielebekendmakingen.nl/h-tk-20232024-45-12.html')).toEqual(item);
+    expect(parseReference('Handelingen I 2023/24, nr. 7')).toMatchObject({ status: 'ambiguous', candidates: [{ kind: 'handelingen', id: null, citation: 'Handelingen I 2023/24, nr. 7' }] });
+  });
+
+  it('should report references to a dossier or several documents as ambiguous', () => {
+    expect(parseReference('Kamerstuk 36410')).toMatchObject({ status: 'ambiguous', candidates: [{ kind: 'dossier', id: null, dossier: '36410' }] });
+    expect(parseReference('36410-5')).toMatchObject({
+      status: 'ambiguous',
+      candidates: [{ kind: 'dossier', dossier: '36410-5' }, { kind: 'kamerstuk', id: 'kst-36410-5' }]
+    });
+    expect(parseReference('36200-XVI, nrs. 12 t/m 14')).toMatchObject({
+      status: 'ambiguous',
+      candidates: [{ ondernummer: '12' }, { ondernummer: '13' }, { ondernummer: '14' }]
+    });
+    expect(parseReference('2024D39058 en 2024D40001')).toMatchObject({ status: 'ambiguous', candidates: [{ id: '2024D39058' }, { id: '2024D40001' }] });
+  });
+
+  it('should explain references it does not recognize', () => {
+    expect(parseReference('de stikstofbrief van vorige week')).toMatchObject({ status: 'unrecognized' });
+    expect(parseReference('2024D3905')).toMatchObject({ status: 'unrecognized' });
+    expect(parseReference('')).toEqual({ status: 'unrecognized', reason: 'The reference is empty' });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for retries, timeouts and the circuit breaker
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ApiService } from '../services/api';
+import { CircuitBreaker, parseRetryAfter, backoffDelay } from '../services/resilience';
+
+describe('CircuitBreaker', () => {
+  it('should open after the failure threshold and allow one trial after the cooldown', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 20 });
+
+    breaker.recordFailure();
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getState().state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(breaker.getState().state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toEqual({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+  });
+
+  it('should re-open when the trial request fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 10 });
+    breaker.recordFailure();
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState().state).toBe('open');
+  });
+});
+
+describe('retry helpers', () => {
+  it('should parse Retry-After as seconds or as an HTTP date', () => {
+    const now = Date.parse('2025-01-01T12:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 12:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it('should keep backoff delays within the configured bounds', () => {
+    const options = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const delay = backoffDelay(attempt, options);
+      const ceiling = Math.min(1000, 100 * Math.pow(2, attempt));
+      expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(delay).toBeLessThanOrEqual(ceiling);
+    }
+  });
+});
+
+describe('ApiService resilience', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let hits: Record<string, number> = {};
+
+  beforeAll(async () => {
+    // Local upstream with routes that fail in different ways
+    server = http.createServer((req, res) => {
+      const path = req.url || '/';
+      hits[path] = (hits[path] || 0) + 1;
+
+      if (path === '/flaky.html' && hits[path]! < 3) {
+        res.writeHead(503, { 'Retry-After': '0' });
+        res.end('busy');
+      } else if (path === '/slow.html') {
+        setTimeout(() => {
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end('late');
+        }, 200);
+      } else if (path === '/down.html' || path === '/search') {
+        res.writeHead(500);
+        res.end('broken');
+      } else if (path === '/missing.html') {
+        res.writeHead(404);
+        res.end('not found');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('ok');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    hits = {};
+  });
+
+  function createService(threshold: number = 10): ApiService {
+    return new ApiService({
+      baseUrl,
+      cache: null,
+      timeoutMs: 50,
+      retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+      circuitBreaker: { failureThreshold: threshold, cooldownMs: 60000 }
+    });
+  }
+
+  it('should retry server errors until the request succeeds', async () => {
+    const html = await createService().fetchHtml('/flaky.html');
+
+    expect(html).toBe('ok');
+    expect(hits['/flaky.html']).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    await expect(createService().fetchHtml('/missing.html')).rejects.toThrow('API error: 404');
+    expect(hits['/missing.html']).toBe(1);
+  });
+
+  it('should abort attempts that exceed the timeout', async () => {
+    await expect(createService().fetchHtml('/slow.html')).rejects.toThrow('timed out after 50 ms');
+    expect(hits['/slow.html']).toBe(3);
+  });
+
+  it('should report search failures after exhausting retries', async () => {
+    const result = await createService().search<{ results: any[], error?: string }>('stikstof');
+
+    expect(result.results).toEqual([]);
+    expect(result.error).toContain('after 3 attempts');
+    expect(hits['/search']).toBe(3);
+  });
+
+  it('should fail fast once the circuit is open', async () => {
+    const service = createService(2);
+
+    await expect(service.fetchHtml('/down.html')).rejects.toThrow('API error: 500');
+    await expect(service.fetchHtml('/down.html')).rejects.toThrow('API error: 500');
+    expect(service.getCircuitState().state).toBe('open');
+
+    await expect(service.fetchHtml('/page.html')).rejects.toThrow('is unavailable after 2 consecutive failures');
+    expect(hits['/page.html']).toBeUndefined();
+  });
+});
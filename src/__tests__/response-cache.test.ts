@@ -0,0 +1,105 @@
+/**
+ * Tests for the response cache used by ApiService
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ResponseCache, describeCacheEntry } from '../services/cache';
+import { ttlForPath } from '../services/api';
+
+describe('ResponseCache', () => {
+  describe('memory layer', () => {
+    it('should return stored entries until they expire', async () => {
+      const cache = new ResponseCache({ maxEntries: 10, maxBytes: 1024 });
+      await cache.set('/kamerleden.html', Buffer.from('<html></html>'), 'text/html', 60);
+
+      const hit = await cache.get('/kamerleden.html');
+      expect(hit?.source).toBe('memory');
+      expect(hit?.entry.body.toString()).toBe('<html></html>');
+
+      await cache.set('/stemmingen.html', Buffer.from('old'), 'text/html', 0);
+      expect(await cache.get('/stemmingen.html')).toBeNull();
+    });
+
+    it('should evict the least recently used entry when over the entry limit', async () => {
+      const cache = new ResponseCache({ maxEntries: 2, maxBytes: 1024 });
+      await cache.set('a', Buffer.from('a'), 'text/plain', 60);
+      await cache.set('b', Buffer.from('b'), 'text/plain', 60);
+
+      // Reading 'a' makes 'b' the least recently used
+      await cache.get('a');
+      await cache.set('c', Buffer.from('c'), 'text/plain', 60);
+
+      expect(await cache.get('a')).not.toBeNull();
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('c')).not.toBeNull();
+    });
+
+    it('should evict entries when over the size limit', async () => {
+      const cache = new ResponseCache({ maxEntries: 10, maxBytes: 10 });
+      await cache.set('a', Buffer.alloc(6), 'application/pdf', 60);
+      await cache.set('b', Buffer.alloc(6), 'application/pdf', 60);
+
+      expect(await cache.get('a')).toBeNull();
+      expect(await cache.get('b')).not.toBeNull();
+    });
+  });
+
+  describe('filesystem layer', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'opentk-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should serve entries written by another cache instance from disk', async () => {
+      const writer = new ResponseCache({ directory, maxEntries: 10, maxBytes: 1024 });
+      await writer.set('/getraw/2024D39058#1', Buffer.from('%PDF-1.4'), 'application/pdf', 60);
+
+      const reader = new ResponseCache({ directory, maxEntries: 10, maxBytes: 1024 });
+      const hit = await reader.get('/getraw/2024D39058#1');
+
+      expect(hit?.source).toBe('disk');
+      expect(hit?.entry.contentType).toBe('application/pdf');
+      expect(hit?.entry.body.toString()).toBe('%PDF-1.4');
+
+      // The second read is served from memory
+      expect((await reader.get('/getraw/2024D39058#1'))?.source).toBe('memory');
+    });
+
+    it('should keep the disk layer within its entry limit', async () => {
+      const cache = new ResponseCache({ directory, maxEntries: 2, maxBytes: 1024 });
+      await cache.set('a', Buffer.from('a'), 'text/plain', 60);
+      await cache.set('b', Buffer.from('b'), 'text/plain', 60);
+      await cache.set('c', Buffer.from('c'), 'text/plain', 60);
+
+      const files = (await fs.readdir(directory)).filter(file => file.endsWith('.bin'));
+      expect(files.length).toBeLessThanOrEqual(2);
+    });
+  });
+
+  describe('describeCacheEntry', () => {
+    it('should report hits, misses and bypasses', async () => {
+      const cache = new ResponseCache({ maxEntries: 10, maxBytes: 1024 });
+      const entry = await cache.set('key', Buffer.from('x'), 'text/plain', 60);
+
+      expect(describeCacheEntry(entry, 'memory').status).toBe('hit');
+      expect(describeCacheEntry(entry, 'network').status).toBe('miss');
+      expect(describeCacheEntry(null, 'network', false).status).toBe('bypass');
+      expect(describeCacheEntry(entry, 'memory').expiresAt).not.toBeNull();
+    });
+  });
+
+  describe('ttlForPath', () => {
+    it('should use route-specific lifetimes', () => {
+      expect(ttlForPath('/getraw/2024D39058')).toBeGreaterThan(ttlForPath('/kamerleden.html'));
+      expect(ttlForPath('/kamerleden.html')).toBeGreaterThan(ttlForPath('/stemmingen.html'));
+      expect(ttlForPath('/stemmingen.html')).toBeLessThanOrEqual(10 * 60);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for the search result filters
+ */
+
+import { applySearchFilters, describeSearchFilters, validateSearchFilters } from '../utils/search-filters';
+
+const results = [
+  { id: '2024D39058', category: 'Document', soort: 'Verslag', datum: '2024-10-16T00:00:00' },
+  { id: '2024D40001', category: 'Document', soort: 'Motie', datum: '2024-10-15T00:00:00' },
+  { id: '2024Z01234', category: 'Zaak', soort: 'Motie', datum: '2024-10-15T00:00:00' },
+  { id: '2024D38000', category: 'Document', soort: 'Brief regering', datum: '2024-10-01T00:00:00' },
+  { id: '2024D00003', category: 'Document', soort: 'Bijlage' }
+];
+
+const ids = (filtered: Array<{ id: string }>) => filtered.map(result => result.id);
+
+describe('Search filters', () => {
+  it('should keep everything when no filters are set', () => {
+    expect(applySearchFilters(results, {})).toEqual(results);
+  });
+
+  it('should apply inclusive date bounds and drop undated results', () => {
+    expect(ids(applySearchFilters(results, { dateFrom: '2024-10-15', dateTo: '2024-10-15' }))).toEqual(['2024D40001', '2024Z01234']);
+    expect(ids(applySearchFilters(results, { dateTo: '2024-10-01' }))).toEqual(['2024D38000']);
+  });
+
+  it('should match soort on part of the type and category exactly', () => {
+    expect(ids(applySearchFilters(results, { soort: 'brief' }))).toEqual(['2024D38000']);
+    expect(ids(applySearchFilters(results, { soort: 'motie', category: 'Document' }))).toEqual(['2024D40001']);
+  });
+
+  it('should reject malformed or reversed dates', () => {
+    expect(() => validateSearchFilters({ dateFrom: '2024-02-30' })).toThrow("Invalid dateFrom '2024-02-30'");
+    expect(() => validateSearchFilters({ dateTo: '15-10-2024' })).toThrow('Invalid dateTo');
+    expect(() => validateSearchFilters({ dateFrom: '2024-10-16', dateTo: '2024-10-15' })).toThrow('is after dateTo');
+    expect(() => validateSearchFilters({ dateFrom: '2024-10-15', dateTo: '2024-10-15' })).not.toThrow();
+  });
+
+  it('should describe only the filters that are set', () => {
+    expect(describeSearchFilters({})).toEqual({ recentOnly: false });
+    expect(describeSearchFilters({ dateFrom: '2024-10-01', soort: ' Motie ', category: undefined, recentOnly: true }))
+      .toEqual({ dateFrom: '2024-10-01', soort: 'Motie', recentOnly: true });
+  });
+});
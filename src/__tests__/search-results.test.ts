@@ -0,0 +1,68 @@
+/**
+ * Tests for normalizing search results and computing facets
+ */
+
+import { computeSearchFacets, normalizeSearchResult } from '../services/api';
+
+const BASE_URL = 'https://berthub.eu/tkconv';
+
+describe('Search results', () => {
+  it('should normalize document hits', () => {
+    const result = normalizeSearchResult({
+      id: '2024D40001',
+      title: 'Motie van het lid Van der Plas',
+      category: 'document',
+      soort: 'Motie',
+      datum: '2024-10-15T00:00:00',
+      relurl: 'document.html?nummer=2024D40001',
+      snippet: 'verzoekt de regering de <b>rekenkundige</b> ondergrens &amp; de <b>stikstof</b>doelen',
+      score: '3.5'
+    }, BASE_URL);
+
+    expect(result).toEqual({
+      id: '2024D40001',
+      title: 'Motie van het lid Van der Plas',
+      category: 'Document',
+      soort: 'Motie',
+      datum: '2024-10-15T00:00:00',
+      year: 2024,
+      nummer: '2024D40001',
+      zaakNummer: null,
+      url: `${BASE_URL}/document.html?nummer=2024D40001`,
+      zaakUrl: null,
+      snippet: 'verzoekt de regering de rekenkundige ondergrens & de stikstofdoelen',
+      highlights: ['rekenkundige', 'stikstof'],
+      score: 3.5
+    });
+  });
+
+  it('should infer the category from the number and link cases to their zaak page', () => {
+    const result = normalizeSearchResult({ id: '2024Z01234', title: 'Motie over stikstof', datum: '2024-10-15' }, BASE_URL);
+
+    expect(result).toMatchObject({
+      category: 'Zaak',
+      nummer: null,
+      zaakNummer: '2024Z01234',
+      url: `${BASE_URL}/zaak.html?nummer=2024Z01234`,
+      zaakUrl: `${BASE_URL}/zaak.html?nummer=2024Z01234`,
+      snippet: null,
+      highlights: [],
+      score: null
+    });
+  });
+
+  it('should count categories, document types and years', () => {
+    const results = [
+      { id: '2023D00001', category: 'Document', soort: 'Motie', datum: '2023-05-01' },
+      { id: '2024D00002', category: 'Document', soort: 'Motie', datum: '2024-02-01' },
+      { id: '2024Z00003', category: 'Zaak', soort: 'Motie', datum: '2024-02-01' },
+      { id: '2024A00004', category: 'Activiteit' }
+    ].map(raw => normalizeSearchResult(raw, BASE_URL));
+
+    expect(computeSearchFacets(results)).toEqual({
+      category: { Document: 2, Zaak: 1, Activiteit: 1 },
+      soort: { Motie: 3, unknown: 1 },
+      year: { 2023: 1, 2024: 2, unknown: 1 }
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for saved searches that report only new results
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiService, SearchOptions, SearchResponse, SearchResult } from '../services/api';
+import { SearchWatchService, SearchWatch } from '../services/search-watches';
+import { StateStore } from '../services/state-store';
+import { startMockTkconv, MockTkconv } from './support/mock-tkconv';
+
+/**
+ * ApiService stand-in whose search returns a fixed list of results
+ */
+class StubSearchApiService extends ApiService {
+  constructor(public results: SearchResult[]) {
+    super({ cache: null });
+  }
+
+  async searchResults(_query: string, _options?: SearchOptions): Promise<SearchResponse> {
+    return {
+      results: this.results,
+      facets: { category: {}, soort: {}, year: {} },
+      cache: { status: 'bypass', source: 'network', fetchedAt: null, expiresAt: null, ageSeconds: null }
+    };
+  }
+}
+
+function searchResult(index: number): SearchResult {
+  const day = new Date(Date.UTC(2020, 0, 1) + index * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return {
+    id: `2020D${String(index).padStart(5, '0')}`,
+    title: `Document ${index}`,
+    category: 'Document',
+    soort: 'Brief regering',
+    datum: `${day}T00:00:00`,
+    year: Number(day.slice(0, 4)),
+    nummer: `2020D${String(index).padStart(5, '0')}`,
+    zaakNummer: null,
+    url: `https://tkconv.example/document.html?nummer=2020D${String(index).padStart(5, '0')}`,
+    zaakUrl: null,
+    snippet: null,
+    highlights: [],
+    score: null
+  };
+}
+
+describe('Search watches', () => {
+  let upstream: MockTkconv;
+  let stateDir: string;
+  let store: StateStore;
+  let watches: SearchWatchService;
+
+  beforeAll(async () => {
+    upstream = await startMockTkconv();
+  });
+
+  afterAll(async () => {
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    upstream.reset();
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opentk-state-'));
+    store = new StateStore(stateDir);
+    watches = new SearchWatchService(new ApiService({ baseUrl: upstream.url, cache: null, retry: { retries: 0 } }), store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('should mark existing results as seen and report nothing new on the first check', async () => {
+    const created = await watches.createWatch('stikstof', 'stikstof', { category: 'Document' }, new Date('2024-10-20T08:00:00Z'));
+    const checked = await watches.checkWatch('stikstof', new Date('2024-10-21T08:00:00Z'));
+
+    expect(created.existingResults).toBeGreaterThan(0);
+    expect(created.watch).toMatchObject({ name: 'stikstof', query: 'stikstof', filters: { category: 'Document', recentOnly: false }, highWaterMark: '2024-10-16T00:00:00' });
+    expect(checked.newResults).toEqual([]);
+    expect(checked.previousCheckAt).toBe('2024-10-20T08:00:00.000Z');
+    expect(checked.watch.lastCheckedAt).toBe('2024-10-21T08:00:00.000Z');
+  });
+
+  it('should report results not seen before and results whose datum moved forward', async () => {
+    await watches.createWatch('stikstof', 'stikstof', { category: 'Document' });
+    const stored = (await store.read<Record<string, SearchWatch>>('watches'))!;
+    delete stored.stikstof!.seen['2024D39058'];
+    stored.stikstof!.seen['2024D40001'] = '2024-10-01T00:00:00';
+    stored.stikstof!.highWaterMark = '2024-10-01T00:00:00';
+    await store.write('watches', stored);
+
+    const checked = await watches.checkWatch('stikstof');
+    const again = await watches.checkWatch('stikstof');
+
+    expect(checked.newResults.map(result => result.id)).toEqual(['2024D39058', '2024D40001']);
+    expect(checked.previousHighWaterMark).toBe('2024-10-01T00:00:00');
+    expect(checked.watch.highWaterMark).toBe('2024-10-16T00:00:00');
+    expect(again.newResults).toEqual([]);
+  });
+
+  it('should not report results again when a search returns more than the remembered maximum', async () => {
+    const api = new StubSearchApiService(Array.from({ length: 1200 }, (_, index) => searchResult(index)));
+    const large = new SearchWatchService(api, store);
+
+    const created = await large.createWatch('alles', 'brief');
+    const first = await large.checkWatch('alles');
+    api.results = [...api.results, searchResult(1200)];
+    const second = await large.checkWatch('alles');
+
+    expect(created.existingResults).toBe(1200);
+    expect(first.newResults).toEqual([]);
+    expect(second.newResults.map(result => result.id)).toEqual(['2020D01200']);
+    expect(second.watch.seenResults).toBe(1201);
+  });
+
+  it('should list, delete and refuse duplicate or unknown watches', async () => {
+    await watches.createWatch('moties', 'stikstof', { soort: 'Motie' });
+    await watches.createWatch('jeugdzorg', 'jeugdzorg');
+
+    await expect(watches.createWatch('moties', 'stikstof')).rejects.toThrow("A watch named 'moties' already exists");
+    expect((await watches.listWatches()).map(watch => [watch.name, watch.seenResults])).toEqual([['jeugdzorg', 2], ['moties', 1]]);
+    expect(await watches.deleteWatch('moties')).toBe(true);
+    expect(await watches.deleteWatch('moties')).toBe(false);
+    await expect(watches.checkWatch('moties')).rejects.toThrow("No watch named 'moties'");
+  });
+
+  it('should not update a watch when the search fails', async () => {
+    await watches.createWatch('stikstof', 'stikstof');
+    const before = await store.read('watches');
+    upstream.fail({ path: '/search', mode: 'error' });
+
+    await expect(watches.checkWatch('stikstof')).rejects.toThrow("Search failed for query 'stikstof'");
+    expect(await store.read('watches')).toEqual(before);
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Data set served by the mock tkconv server
+ * Small but realistic: a plenary debate, a motion, a letter, written questions and their answers, members, committees, activities and votes
+ */
+
+export interface MockDocument {
+  nummer: string;
+  title: string;
+  soort: string;
+  datum: string;
+  bijgewerkt: string;
+  versie: number;
+  /** Committee shown on the overview page */
+  committee?: string;
+  /** Page texts of the PDF; omitted for documents served in another format */
+  pages?: string[];
+  /** Raw file served instead of a PDF, for unsupported formats */
+  raw?: { contentType: string, body: Buffer };
+  /** Documents without a download link on their document page */
+  withoutLink?: boolean;
+  /** Identifier of a Kamerstuk, such as 'kst-35334-300', resolved by /op/ */
+  kamerstuk?: string;
+}
+
+export interface MockPerson {
+  id: number;
+  name: string;
+  party: string;
+  /** Birth date as YYYY-MM-DD */
+  birthDate: string;
+  birthPlace: string;
+  woonplaats: string;
+  /** Start of the latest membership as YYYY-MM-DD */
+  memberSince: string;
+  /** Function shown on the member page, such as 'Fractievoorzitter' */
+  role?: string;
+  /** End of the membership, for former members, with the reason */
+  memberUntil?: string;
+  leaveReason?: string;
+  /** Earlier parties, oldest first; the current party follows them on the page */
+  previousParties?: Array<{ party: string, from: string, until: string }>;
+}
+
+export interface MockCommittee {
+  id: string;
+  name: string;
+  description: string;
+  members: Array<{ personId: number, role: string }>;
+}
+
+export interface MockActivity {
+  nummer: string;
+  title: string;
+  datum: string;
+  time: string;
+  location: string;
+  committee: string;
+  committeeAbbreviation: string;
+  type: string;
+}
+
+export interface MockVote {
+  zaak: string;
+  title: string;
+  datum: string;
+  submitter: string;
+  result: string;
+  voor: string[];
+  tegen: string[];
+  voorAantal: number;
+  tegenAantal: number;
+}
+
+export const MOCK_PERSONS: MockPerson[] = [
+  { id: 1001, name: 'Geert Wilders', party: 'PVV', role: 'Fractievoorzitter', birthDate: '1963-09-06', birthPlace: 'Venlo', woonplaats: 'Den Haag', memberSince: '2006-11-30' },
+  { id: 1002, name: 'Caroline van der Plas', party: 'BBB', role: 'Fractievoorzitter', birthDate: '1967-06-15', birthPlace: 'Deventer', woonplaats: 'Deventer', memberSince: '2021-03-31' },
+  { id: 1003, name: 'Frans Timmermans', party: 'GroenLinks-PvdA', role: 'Fractievoorzitter', birthDate: '1961-05-06', birthPlace: 'Heerlen', woonplaats: 'Heerlen', memberSince: '2023-12-06' },
+  { id: 1004, name: 'Pieter Omtzigt', party: 'NSC', role: 'Fractievoorzitter', birthDate: '1974-01-08', birthPlace: 'Enschede', woonplaats: 'Enschede', memberSince: '2003-06-03', previousParties: [{ party: 'CDA', from: '2003-06-03', until: '2021-06-15' }, { party: 'Lid Omtzigt', from: '2021-06-15', until: '2023-12-05' }] },
+  { id: 1005, name: 'Rob Jetten', party: 'D66', role: 'Fractievoorzitter', birthDate: '1987-03-25', birthPlace: 'Veghel', woonplaats: 'Ubbergen', memberSince: '2017-03-23' },
+  { id: 1006, name: 'Henri Bontenbal', party: 'CDA', role: 'Fractievoorzitter', birthDate: '1982-12-01', birthPlace: 'Rotterdam', woonplaats: 'Rotterdam', memberSince: '2021-03-31' },
+  { id: 1007, name: 'Jimmy Dijk', party: 'SP', role: 'Fractievoorzitter', birthDate: '1994-03-12', birthPlace: 'Groningen', woonplaats: 'Groningen', memberSince: '2023-12-06', previousParties: [{ party: 'SP', from: '2017-03-23', until: '2021-03-31' }] },
+  { id: 1008, name: 'Gert-Jan Segers', party: 'ChristenUnie', birthDate: '1969-11-02', birthPlace: 'Lisse', woonplaats: 'Amersfoort', memberSince: '2012-09-20', memberUntil: '2023-05-16', leaveReason: 'Op eigen verzoek' }
+];
+
+const DEBATE_PAGES = [
+  `Tweede Kamer, Stikstofbeleid
+
+# Debat over het stikstofbeleid
+
+De voorzitter:
+Aan de orde is het debat over het stikstofbeleid. Ik heet de minister van Landbouw, Visserij, Voedselzekerheid en Natuur van harte welkom. Als eerste spreker geef ik het woord aan mevrouw Van der Plas van de fractie van BBB.
+
+Mevrouw Van der Plas (BBB):
+Voorzitter. De boeren in dit land zijn het zat. Jarenlang is er over hun hoofden heen besloten. Wij willen dat de minister de rekenkundige ondergrens invoert en dat de vergunningverlening weer op gang komt. Boeren zijn geen probleem, boeren zijn de oplossing.
+
+De heer Timmermans (GroenLinks-PvdA):
+Mevrouw Van der Plas zegt dat boeren de oplossing zijn, maar de natuur gaat intussen achteruit. Hoe wil BBB de Europese verplichtingen nakomen?
+
+Mevrouw Van der Plas (BBB):
+Door te innoveren en niet door boeren uit te kopen. Dat is ons antwoord.
+
+De voorzitter:
+Dank u wel. Dan geef ik nu het woord aan de heer Wilders.`,
+  `De heer Wilders (PVV):
+Voorzitter. Nederland zit op slot door een papieren werkelijkheid. Er worden geen huizen gebouwd, geen wegen aangelegd en boeren worden weggejaagd. De PVV wil dat de stikstofdoelen van tafel gaan.
+
+De heer Jetten (D66):
+De heer Wilders wil de doelen schrappen, maar de rechter heeft al vaak geoordeeld dat dat niet kan. Wat is dan zijn plan?
+
+De heer Wilders (PVV):
+Mijn plan is simpel: minder regels en meer bouwen.
+
+De heer Omtzigt (NSC):
+Ik wil de heer Wilders vragen of hij bereid is de rechtsstaat te respecteren bij deze keuzes.
+
+De heer Wilders (PVV):
+Natuurlijk respecteren wij de rechtsstaat. Maar de regels moeten anders.
+
+De voorzitter:
+Dank u wel. Het woord is aan de minister.`,
+  `Minister Wiersma:
+Voorzitter. Dank aan de leden voor hun inbreng. Het kabinet werkt aan een nieuw stikstofbeleid waarin vergunningverlening en natuurherstel hand in hand gaan. Ik kom voor de zomer met een brief over de rekenkundige ondergrens.
+
+Mevrouw Van der Plas (BBB):
+Kan de minister toezeggen dat die brief er echt voor de zomer ligt?
+
+Minister Wiersma:
+Dat zeg ik toe.
+
+De voorzitter:
+Dank u wel. Daarmee zijn we aan het einde gekomen van dit debat. De vergadering wordt gesloten.`
+];
+
+const MOTION_PAGES = [
+  `Tweede Kamer der Staten-Generaal
+Vergaderjaar 2024-2025
+
+35334 Problematiek rondom stikstof en PFAS
+
+Nr. 300
+
+MOTIE VAN HET LID VAN DER PLAS C.S.
+
+Voorgesteld 15 oktober 2024
+
+De Kamer,
+
+gehoord de beraadslaging,
+
+constaterende dat de vergunningverlening voor agrarische bedrijven en woningbouw al jaren stilligt;
+
+constaterende dat een rekenkundige ondergrens duidelijkheid kan bieden;
+
+overwegende dat boeren en bouwers perspectief nodig hebben;
+
+verzoekt de regering, de rekenkundige ondergrens voor 1 januari 2025 in te voeren,
+
+en gaat over tot de orde van de dag.
+
+Van der Plas
+Wilders`
+];
+
+const LETTER_PAGES = [
+  `Tweede Kamer der Staten-Generaal
+Vergaderjaar 2024-2025
+
+35334 Problematiek rondom stikstof en PFAS
+
+Nr. 299
+
+BRIEF VAN DE MINISTER VAN LANDBOUW, VISSERIJ, VOEDSELZEKERHEID EN NATUUR
+
+Aan de Voorzitter van de Tweede Kamer der Staten-Generaal
+
+Den Haag, 1 oktober 2024
+
+Met deze brief informeer ik uw Kamer over de voortgang van het stikstofbeleid. Het kabinet zet in op innovatie in de landbouw en op het versnellen van de vergunningverlening. De VVD, het CDA en BBB hebben gevraagd om een rekenkundige ondergrens; ik verwacht daar voor de zomer uitsluitsel over te geven.
+
+Hiermee geef ik uitvoering aan het verzoek uit Kamerstuk 35334, nr. 300 en aan mijn toezegging in het debat (Handelingen II 2024/25, nr. 10, item 5). Sinds de uitspraak van de Raad van State over het PAS (ECLI:NL:RVS:2019:1603) is voor extern salderen een vergunning nodig op grond van artikel 2.7, tweede lid, van de Wet natuurbescherming.
+
+De minister van Landbouw, Visserij, Voedselzekerheid en Natuur,
+F.M. Wiersma`
+];
+
+const QUESTIONS_PAGES = [
+  `2024Z13000
+
+Vragen van het lid Dijk (SP) aan de minister van Volksgezondheid, Welzijn en Sport over de wachtlijsten in de jeugdzorg (ingezonden 2 september 2024).
+
+Vraag 1
+Bent u bekend met het bericht dat kinderen in Groningen meer dan een jaar op jeugdzorg wachten?
+
+Vraag 2
+Hoeveel kinderen staan er op dit moment op een wachtlijst voor jeugdzorg?
+
+Vraag 3
+Welke maatregelen neemt u om de wachttijden binnen een half jaar te halveren?`
+];
+
+const ANSWER_PAGES = [
+  `Aanhangsel van de Handelingen
+Vragen gesteld door de leden der Kamer, met de daarop door de regering gegeven antwoorden
+
+2024Z13000
+
+Antwoord van minister Agema (Volksgezondheid, Welzijn en Sport) (ontvangen 8 oktober 2024)
+
+Vraag 1
+Bent u bekend met het bericht dat kinderen in Groningen meer dan een jaar op jeugdzorg wachten?
+
+Antwoord 1
+Ja.
+
+Vraag 2
+Hoeveel kinderen staan er op dit moment op een wachtlijst voor jeugdzorg?
+
+Antwoord 2
+Volgens de laatste cijfers wachten ruim 4.000 kinderen langer dan de treeknorm.`,
+  `Vraag 3
+Welke maatregelen neemt u om de wachttijden binnen een half jaar te halveren?
+
+Antwoord 3
+Ik maak met gemeenten en aanbieders afspraken over het verkorten van de wachttijden. Een halvering binnen een half jaar is niet realistisch.`
+];
+
+export const MOCK_DOCUMENTS: MockDocument[] = [
+  {
+    nummer: '2024D39058',
+    title: 'Verslag van het plenaire debat over het stikstofbeleid',
+    soort: 'Verslag',
+    datum: '2024-10-16',
+    bijgewerkt: '2024-10-17 09:12',
+    versie: 2,
+    committee: 'Landbouw, Visserij, Voedselzekerheid en Natuur',
+    pages: DEBATE_PAGES
+  },
+  {
+    nummer: '2024D40001',
+    title: 'Motie van het lid Van der Plas c.s. over de rekenkundige ondergrens',
+    soort: 'Motie',
+    datum: '2024-10-15',
+    bijgewerkt: '2024-10-15 18:30',
+    versie: 1,
+    committee: 'Landbouw, Visserij, Voedselzekerheid en Natuur',
+    kamerstuk: 'kst-35334-300',
+    pages: MOTION_PAGES
+  },
+  {
+    nummer: '2024D38000',
+    title: 'Kamerbrief over de voortgang van het stikstofbeleid',
+    soort: 'Brief regering',
+    datum: '2024-10-01',
+    bijgewerkt: '2024-10-01 16:00',
+    versie: 1,
+    committee: 'Landbouw, Visserij, Voedselzekerheid en Natuur',
+    kamerstuk: 'kst-35334-299',
+    pages: LETTER_PAGES
+  },
+  {
+    nummer: '2024D41000',
+    title: 'Vragen van het lid Dijk over de wachtlijsten in de jeugdzorg',
+    soort: 'Schriftelijke vragen',
+    datum: '2024-09-02',
+    bijgewerkt: '2024-09-02 15:45',
+    versie: 1,
+    committee: 'Volksgezondheid, Welzijn en Sport',
+    pages: QUESTIONS_PAGES
+  },
+  {
+    nummer: '2024D44000',
+    title: 'Antwoord op vragen van het lid Dijk over de wachtlijsten in de jeugdzorg',
+    soort: 'Antwoord schriftelijke vragen',
+    datum: '2024-10-08',
+    bijgewerkt: '2024-10-08 17:00',
+    versie: 1,
+    committee: 'Volksgezondheid, Welzijn en Sport',
+    pages: ANSWER_PAGES
+  },
+  {
+    nummer: '2024D00001',
+    title: 'Kaart met stikstofdepositie per gebied',
+    soort: 'Bijlage',
+    datum: '2024-09-20',
+    bijgewerkt: '2024-09-20 12:00',
+    versie: 1,
+    raw: { contentType: 'image/png', body: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) }
+  },
+  {
+    nummer: '2024D00002',
+    title: 'Agenda procedurevergadering',
+    soort: 'Agenda',
+    datum: '2024-09-18',
+    bijgewerkt: '2024-09-18 08:00',
+    versie: 1,
+    withoutLink: true
+  }
+];
+
+export const MOCK_COMMITTEES: MockCommittee[] = [
+  {
+    id: 'lvvn',
+    name: 'Vaste commissie voor Landbouw, Visserij, Voedselzekerheid en Natuur',
+    description: 'De commissie controleert het beleid van de minister van Landbouw, Visserij, Voedselzekerheid en Natuur.',
+    members: [
+      { personId: 1002, role: 'Voorzitter' },
+      { personId: 1003, role: 'Lid' },
+      { personId: 1006, role: 'Lid' }
+    ]
+  },
+  {
+    id: 'vws',
+    name: 'Vaste commissie voor Volksgezondheid, Welzijn en Sport',
+    description: 'De commissie controleert het beleid van het ministerie van Volksgezondheid, Welzijn en Sport.',
+    members: [
+      { personId: 1007, role: 'Voorzitter' },
+      { personId: 1004, role: 'Lid' }
+    ]
+  }
+];
+
+export const MOCK_ACTIVITIES: MockActivity[] = [
+  {
+    nummer: '2024A01234',
+    title: 'Commissiedebat Stikstof en natuur',
+    datum: '2024-10-22',
+    time: '10:00',
+    location: 'Thorbeckezaal',
+    committee: 'Vaste commissie voor Landbouw, Visserij, Voedselzekerheid en Natuur',
+    committeeAbbreviation: 'LVVN',
+    type: 'Commissiedebat'
+  },
+  {
+    nummer: '2024A01300',
+    title: 'Rondetafelgesprek Wachtlijsten in de zorg',
+    datum: '2024-10-24',
+    time: '14:00',
+    location: 'Groen van Prinstererzaal',
+    committee: 'Vaste commissie voor Volksgezondheid, Welzijn en Sport',
+    committeeAbbreviation: 'VWS',
+    type: 'Rondetafelgesprek'
+  }
+];
+
+export const MOCK_VOTES: MockVote[] = [
+  {
+    zaak: '2024Z01234',
+    title: 'Motie van het lid Van der Plas c.s. over de rekenkundige ondergrens',
+    datum: '2024-10-22',
+    submitter: 'C. van der Plas',
+    result: 'Aangenomen',
+    voor: ['PVV', 'BBB', 'NSC', 'CDA'],
+    tegen: ['GroenLinks-PvdA', 'D66', 'SP'],
+    voorAantal: 88,
+    tegenAantal: 62
+  }
+];
+
+// Search results that are not documents
+export const MOCK_OTHER_SEARCH_RESULTS = [
+  { id: '2024Z01234', title: 'Motie van het lid Van der Plas c.s. over de rekenkundige ondergrens', category: 'Zaak', soort: 'Motie', datum: '2024-10-15' },
+  { id: '2024A01234', title: 'Commissiedebat Stikstof en natuur', category: 'Activiteit', soort: 'Commissiedebat', datum: '2024-10-22' }
+];
+
+/**
+ * Builds a minimal PDF with one text page per entry, readable by pdf-parse
+ * @param pages Page texts; lines are wrapped at roughly 90 characters
+ * @returns The PDF file
+ */
+export function buildPdf(pages: string[]): Buffer {
+  const objects: string[] = [];
+  const pageRefs: string[] = [];
+  const fontId = 3;
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((text, index) => {
+    const pageId = 4 + index * 2;
+    const contentId = pageId + 1;
+    pageRefs.push(`${pageId} 0 R`);
+
+    // Lines starting with '# ' are set in a larger font, like headings
+    const operators = text.split('\n').flatMap(line => {
+      const heading = line.startsWith('# ');
+      const wrapped = wrapLine(heading ? line.slice(2) : line, 90).map(part => `(${escapePdfString(part)}) Tj T*`);
+      return heading ? ['/F1 16 Tf', ...wrapped, '/F1 10 Tf'] : wrapped;
+    }).join('\n');
+    const stream = `BT /F1 10 Tf 14 TL 50 800 Td\n${operators}\nET`;
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents ${contentId} 0 R /Resources << /Font << /F1 ${fontId} 0 R >> >> >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+  objects[2] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function wrapLine(line: string, width: number): string[] {
+  if (line.length <= width) {
+    return [line];
+  }
+
+  const wrapped: string[] = [];
+  let current = '';
+  for (const word of line.split(' ')) {
+    if (current && current.length + word.length + 1 > width) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    wrapped.push(current);
+  }
+  return wrapped;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
@@ -0,0 +1,456 @@
+/**
+ * In-process stand-in for tkconv, implementing the routes this project uses
+ * Failures can be injected per route to exercise retry and error branches
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  MockDocument,
+  MockPerson,
+  MOCK_DOCUMENTS,
+  MOCK_PERSONS,
+  MOCK_COMMITTEES,
+  MOCK_ACTIVITIES,
+  MOCK_VOTES,
+  MOCK_OTHER_SEARCH_RESULTS,
+  buildPdf
+} from './mock-data';
+
+/**
+ * A failure to inject for matching requests
+ * - error: respond with `status` (default 500)
+ * - html: respond 200 with an HTML page where JSON or a file is expected
+ * - slow: wait `delayMs` before responding normally
+ * - reset: drop the connection without a response
+ * - redirect: respond 302 with `location` as the Location header
+ */
+export interface FailureRule {
+  path: string | RegExp;
+  method?: string;
+  mode: 'error' | 'html' | 'slow' | 'reset' | 'redirect';
+  status?: number;
+  delayMs?: number;
+  location?: string;
+  /** Number of requests to fail; unlimited when unset */
+  times?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  /** Multipart form fields of POST requests */
+  form?: Record<string, string>;
+}
+
+export interface MockTkconvOptions {
+  /** Reference date for birthdays and the twomonths search filter */
+  now?: Date;
+  failures?: FailureRule[];
+}
+
+export interface MockTkconv {
+  /** Base URL to pass as OPENTK_BASE_URL or ApiService's baseUrl */
+  url: string;
+  /** Every request received, in order */
+  requests: MockRequest[];
+  /** Adds a failure rule; rules are checked in the order they were added */
+  fail: (rule: FailureRule) => void;
+  /** Removes all failure rules and forgets recorded requests */
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts the mock server on a free local port
+ * @param options Reference date and initial failure rules
+ * @returns The running server
+ */
+export async function startMockTkconv(options: MockTkconvOptions = {}): Promise<MockTkconv> {
+  const now = options.now ?? new Date('2024-10-20T12:00:00Z');
+  const failures: Array<FailureRule & { remaining: number }> = [];
+  const requests: MockRequest[] = [];
+
+  const fail = (rule: FailureRule) => {
+    failures.push({ ...rule, remaining: rule.times ?? Infinity });
+  };
+  (options.failures || []).forEach(fail);
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(`Mock error: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const request: MockRequest = { method, path: url.pathname + url.search };
+    if (method === 'POST') {
+      request.form = await readForm(req);
+    }
+    requests.push(request);
+
+    const rule = failures.find(candidate =>
+      candidate.remaining > 0 &&
+      (!candidate.method || candidate.method === method) &&
+      (typeof candidate.path === 'string' ? url.pathname === candidate.path : candidate.path.test(url.pathname + url.search))
+    );
+    if (rule) {
+      rule.remaining--;
+      if (rule.mode === 'reset') {
+        req.socket.destroy();
+        return;
+      }
+      if (rule.mode === 'error') {
+        send(res, rule.status ?? 500, 'text/html', '<!DOCTYPE html><html><body><h1>Internal Server Error</h1></body></html>');
+        return;
+      }
+      if (rule.mode === 'redirect') {
+        res.writeHead(302, { Location: rule.location ?? '/' });
+        res.end();
+        return;
+      }
+      if (rule.mode === 'html') {
+        send(res, 200, 'text/html; charset=utf-8', '<!DOCTYPE html><html><head><title>tkconv</title></head><body><p>Even geduld</p></body></html>');
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, rule.delayMs ?? 1000));
+    }
+
+    route(url, method, request.form || {}, res);
+  }
+
+  function route(url: URL, method: string, form: Record<string, string>, res: ServerResponse): void {
+    const pathname = url.pathname;
+    const publicUrl = `http://${host}`;
+
+    if (pathname === '/search' && method === 'POST') {
+      sendJson(res, { results: search(form, now, publicUrl) });
+    } else if (pathname === '/' || pathname === '/index.html') {
+      sendHtml(res, overviewPage(now));
+    } else if (pathname === '/jarig-vandaag') {
+      sendJson(res, birthdays(now));
+    } else if (pathname === '/document.html') {
+      const document = findDocument(url.searchParams.get('nummer'));
+      sendHtml(res, document ? documentPage(document) : '<html><body>Found nothing in document.html!!</body></html>');
+    } else if (pathname.startsWith('/getraw/')) {
+      const document = findDocument(decodeURIComponent(pathname.slice('/getraw/'.length)));
+      if (!document || document.withoutLink) {
+        send(res, 404, 'text/plain', 'Not found');
+      } else if (document.raw) {
+        send(res, 200, document.raw.contentType, document.raw.body);
+      } else {
+        send(res, 200, 'application/pdf', buildPdf(document.pages || []));
+      }
+    } else if (pathname === '/kamerleden.html') {
+      sendHtml(res, membersPage());
+    } else if (pathname === '/persoon.html') {
+      const person = MOCK_PERSONS.find(candidate => String(candidate.id) === url.searchParams.get('nummer'));
+      if (person) {
+        sendHtml(res, personPage(person));
+      } else {
+        send(res, 404, 'text/html', '<html><body>Persoon niet gevonden</body></html>');
+      }
+    } else if (pathname.startsWith('/personphoto/')) {
+      const exists = MOCK_PERSONS.some(person => String(person.id) === pathname.slice('/personphoto/'.length));
+      if (exists) {
+        send(res, 200, 'image/jpeg', Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]));
+      } else {
+        send(res, 404, 'text/plain', 'Not found');
+      }
+    } else if (pathname === '/commissies.html') {
+      sendHtml(res, committeesPage());
+    } else if (pathname === '/commissie.html') {
+      const committee = MOCK_COMMITTEES.find(candidate => candidate.id === url.searchParams.get('id'));
+      sendHtml(res, committee ? committeePage(committee) : '<html><head><title>tkconv</title></head><body></body></html>');
+    } else if (pathname === '/activiteiten.html') {
+      sendHtml(res, activitiesPage());
+    } else if (pathname === '/stemmingen.html') {
+      sendHtml(res, votesPage());
+    } else if (pathname.startsWith('/op/')) {
+      const extId = decodeURIComponent(pathname.slice('/op/'.length));
+      const document = MOCK_DOCUMENTS.find(candidate => candidate.nummer === extId || candidate.kamerstuk?.toLowerCase() === extId.toLowerCase());
+      const zaak = MOCK_OTHER_SEARCH_RESULTS.find(result => result.category === 'Zaak' && result.id === extId);
+      const activity = MOCK_ACTIVITIES.find(candidate => candidate.nummer === extId);
+      const location = document ? `document.html?nummer=${document.nummer}`
+        : zaak ? `zaak.html?nummer=${zaak.id}`
+        : activity ? `activiteit.html?nummer=${activity.nummer}`
+        : null;
+      if (location) {
+        res.writeHead(302, { Location: `${publicUrl}/${location}` });
+        res.end();
+      } else {
+        send(res, 404, 'text/plain', 'Not found');
+      }
+    } else if (/^\/sitemap-\d{4}\.txt$/.test(pathname)) {
+      const year = pathname.slice('/sitemap-'.length, '/sitemap-'.length + 4);
+      const urls = MOCK_DOCUMENTS
+        .filter(document => document.datum.startsWith(year))
+        .map(document => `${publicUrl}/document.html?nummer=${document.nummer}`)
+        .concat(MOCK_PERSONS
+          .filter(person => person.memberSince.slice(0, 4) <= year && (!person.memberUntil || person.memberUntil.slice(0, 4) >= year))
+          .map(person => `${publicUrl}/persoon.html?nummer=${person.id}`));
+      urls.length > 0 ? send(res, 200, 'text/plain', urls.join('\n') + '\n') : send(res, 404, 'text/plain', 'Not found');
+    } else {
+      send(res, 404, 'text/html', '<!DOCTYPE html><html><body>Not found</body></html>');
+    }
+  }
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: `http://${host}`,
+    requests,
+    fail,
+    reset: () => {
+      failures.length = 0;
+      requests.length = 0;
+    },
+    close: () => new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+    })
+  };
+}
+
+function findDocument(nummer: string | null): MockDocument | undefined {
+  return MOCK_DOCUMENTS.find(document => document.nummer === nummer);
+}
+
+/**
+ * Matches documents, cases and activities on all query terms, honouring quotes, NOT, twomonths and soorten
+ */
+function search(form: Record<string, string>, now: Date, publicUrl: string): any[] {
+  const query = form.q || '';
+  const phrases = Array.from(query.matchAll(/"([^"]+)"/g), match => (match[1] || '').toLowerCase());
+  const rest = query.replace(/"[^"]+"/g, ' ').split(/\s+/).filter(Boolean);
+
+  const excluded: string[] = [];
+  const required: string[] = [...phrases];
+  for (let i = 0; i < rest.length; i++) {
+    const term = rest[i] as string;
+    if (term === 'NOT' && rest[i + 1]) {
+      excluded.push((rest[++i] as string).toLowerCase());
+    } else if (term !== 'OR') {
+      required.push(term.toLowerCase());
+    }
+  }
+
+  const candidates = [
+    ...MOCK_DOCUMENTS.map(document => ({
+      id: document.nummer,
+      title: document.title,
+      category: 'Document',
+      soort: document.soort,
+      datum: `${document.datum}T00:00:00`,
+      text: `${document.title} ${(document.pages || []).join(' ').replace(/^# /gm, '')}`,
+      url: `${publicUrl}/document.html?nummer=${document.nummer}`
+    })),
+    ...MOCK_OTHER_SEARCH_RESULTS.map(result => ({
+      ...result,
+      datum: `${result.datum}T00:00:00`,
+      text: result.title,
+      url: `${publicUrl}/${result.category === 'Zaak' ? 'zaak' : 'activiteit'}.html?nummer=${result.id}`
+    }))
+  ];
+
+  const twoMonthsAgo = new Date(now);
+  twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 2);
+  const soorten = form.soorten || 'alles';
+
+  return candidates
+    .filter(candidate => {
+      const text = candidate.text.toLowerCase();
+      return required.every(term => text.includes(term)) && !excluded.some(term => text.includes(term));
+    })
+    .filter(candidate => form.twomonths !== 'true' || new Date(candidate.datum) >= twoMonthsAgo)
+    .filter(candidate => soorten === 'alles'
+      || (soorten === 'moties' && candidate.soort === 'Motie')
+      || (soorten === 'vragen' && /vragen/i.test(candidate.soort)))
+    .map(({ text, ...result }) => ({
+      ...result,
+      snippet: snippet(text, required),
+      score: required.reduce((score, term) => score + text.toLowerCase().split(term).length - 1, 0)
+    }));
+}
+
+/**
+ * Cuts the text around the first matching term and marks the terms in bold
+ */
+function snippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const first = Math.max(0, Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0), text.length));
+  const excerpt = text.slice(Math.max(0, first - 40), first + 120).replace(/&/g, '&amp;');
+  return terms.reduce((marked, term) => marked.replace(new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), match => `<b>${match}</b>`), excerpt);
+}
+
+function birthdays(now: Date): any[] {
+  const monthDay = now.toISOString().slice(5, 10);
+  return MOCK_PERSONS
+    .filter(person => !person.memberUntil && person.birthDate.slice(5) === monthDay)
+    .map(person => ({ Id: person.id, Naam: person.name, Fractie: person.party, Geboortedatum: person.birthDate }));
+}
+
+function overviewPage(now: Date): string {
+  const rows = MOCK_DOCUMENTS.map(document => `
+    <tr><td>${document.datum}</td><td>${document.bijgewerkt}</td><td>${document.committee || ''}</td><td>Stikstof</td>
+    <td><a href="document.html?nummer=${document.nummer}">${document.title}</a><br>${document.soort}</td></tr>`).join('');
+  const jarig = birthdays(now)
+    .map(person => `<a href="persoon.html?nummer=${person.Id}">${person.Naam} (${person.Fractie})</a>`)
+    .join(' ');
+
+  return `<!DOCTYPE html><html><head><title>tkconv</title></head><body>
+    <p>Jarig vandaag ${jarig}</p>
+    <table><thead><tr><th>Datum</th><th>Bijgewerkt</th><th>Commissie</th><th>Onderwerp</th><th>Titel</th></tr></thead>
+    <tbody>${rows}</tbody></table>
+  </body></html>`;
+}
+
+function documentPage(document: MockDocument): string {
+  const link = document.withoutLink ? '' : `<p><a href="getraw/${document.nummer}">Directe link naar document</a></p>`;
+  return `<!DOCTYPE html><html><head><title>${document.title}</title></head><body>
+    <hblock><h2>${document.title}</h2></hblock>
+    <p><em>${document.soort}</em></p>
+    <p>Nummer: <b>${document.nummer}</b>, datum: <b>${document.datum}</b>, bijgewerkt: <b>${document.bijgewerkt}</b>, versie: ${document.versie}</p>
+    ${link}
+    <p><a href="https://www.tweedekamer.nl/kamerstukken/detail?id=${document.nummer}">link naar pagina op de Tweede Kamer site</a></p>
+  </body></html>`;
+}
+
+function membersPage(): string {
+  const rows = MOCK_PERSONS.filter(person => !person.memberUntil).map(person => `
+    <tr><td><a href="persoon.html?nummer=${person.id}">${person.name}</a></td><td>${person.woonplaats}</td><td>${person.party}</td></tr>`).join('');
+  return `<!DOCTYPE html><html><head><title>Kamerleden</title></head><body>
+    <table><thead><tr><th>Naam</th><th>Woonplaats</th><th>Fractie</th></tr></thead><tbody>${rows}</tbody></table>
+  </body></html>`;
+}
+
+function personPage(person: MockPerson): string {
+  const surname = person.name.split(' ').slice(1).join(' ').toLowerCase();
+  // The current fractie starts where the previous one ended, or later when the member was re-seated
+  const previousUntil = person.previousParties?.at(-1)?.until;
+  const parties = [...(person.previousParties || []), { party: person.party, from: previousUntil && previousUntil > person.memberSince ? previousUntil : person.memberSince, until: person.memberUntil || '' }]
+    .map(entry => `<tr><td>${entry.party}</td><td>${entry.from}</td><td>${entry.until}</td></tr>`).join('');
+  const committees = MOCK_COMMITTEES.flatMap(committee => committee.members
+    .filter(member => member.personId === person.id)
+    .map(member => `<li><a href="commissie.html?id=${committee.id}">${committee.name}</a> (${member.role})</li>`)).join('');
+  const documents = (soort: string) => MOCK_DOCUMENTS
+    .filter(document => document.soort === soort && document.title.toLowerCase().includes(`lid ${surname}`))
+    .map(document => `<tr><td>${document.datum}</td><td><a href="document.html?nummer=${document.nummer}">${document.title}</a></td></tr>`).join('');
+  const votes = MOCK_VOTES
+    .filter(vote => vote.voor.includes(person.party) || vote.tegen.includes(person.party))
+    .map(vote => `<tr><td>${vote.datum}</td><td><a href="zaak.html?nummer=${vote.zaak}">${vote.title}</a></td><td>${vote.voor.includes(person.party) ? 'Voor' : 'Tegen'}</td><td>${vote.result}</td></tr>`).join('');
+
+  return `<!DOCTYPE html><html><head><title>${person.name}</title></head><body>
+    <h2>${person.name}</h2>
+    <h4>${person.party}</h4>
+    <table>
+      <tr><td>Geboortedatum</td><td>${dutchDate(person.birthDate)}</td></tr>
+      <tr><td>Geboorteplaats</td><td>${person.birthPlace}</td></tr>
+      ${person.role ? `<tr><td>Functie</td><td>${person.role}</td></tr>` : ''}
+      <tr><td>Lid sinds</td><td>${person.memberSince}</td></tr>
+      ${person.memberUntil ? `<tr><td>Lid tot</td><td>${dutchDate(person.memberUntil)}</td></tr><tr><td>Reden vertrek</td><td>${person.leaveReason}</td></tr>` : ''}
+    </table>
+    <p>Woonplaats: ${person.woonplaats}</p>
+    <h3>Fracties</h3>
+    <table><thead><tr><th>Fractie</th><th>Van</th><th>Tot</th></tr></thead><tbody>${parties}</tbody></table>
+    <h3>Commissies</h3>
+    <ul>${committees}</ul>
+    <h3>Moties</h3>
+    <table><tbody>${documents('Motie')}</tbody></table>
+    <h3>Schriftelijke vragen</h3>
+    <table><tbody>${documents('Schriftelijke vragen')}</tbody></table>
+    <h3>Stemmingen</h3>
+    <table><thead><tr><th>Datum</th><th>Onderwerp</th><th>Stem</th><th>Besluit</th></tr></thead><tbody>${votes}</tbody></table>
+  </body></html>`;
+}
+
+function dutchDate(date: string): string {
+  const months = ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
+  const [year, month, day] = date.split('-').map(Number);
+  return `${day} ${months[month! - 1]} ${year}`;
+}
+
+function committeesPage(): string {
+  const rows = MOCK_COMMITTEES.map(committee => `
+    <tr><td><a href="commissie.html?id=${committee.id}">${committee.name}</a></td></tr>`).join('');
+  return `<!DOCTYPE html><html><head><title>Commissies</title></head><body>
+    <table><thead><tr><th>Commissie</th></tr></thead><tbody>${rows}</tbody></table>
+  </body></html>`;
+}
+
+function committeePage(committee: typeof MOCK_COMMITTEES[number]): string {
+  const members = committee.members.map(member => {
+    const person = MOCK_PERSONS.find(candidate => candidate.id === member.personId);
+    return person
+      ? `<tr><td><img src="personphoto/${person.id}"></td><td>${member.role}</td><td><a href="persoon.html?nummer=${person.id}">${person.name}</a> (${person.party})</td></tr>`
+      : '';
+  }).join('\n');
+  const activities = MOCK_ACTIVITIES
+    .filter(activity => activity.committee === committee.name)
+    .map(activity => `<tr><td>${activity.datum}</td><td><a href="activiteit.html?nummer=${activity.nummer}">${activity.title}</a></td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html><html><head><title>${committee.name}</title></head><body>
+    <h2>${committee.name}</h2>
+    <p class="description">${committee.description}</p>
+    <table><thead><tr><th></th><th>Rol</th><th>Naam</th></tr></thead><tbody>${members}</tbody></table>
+    <table><thead><tr><th>Datum</th><th>Activiteit</th></tr></thead><tbody>${activities}</tbody></table>
+  </body></html>`;
+}
+
+function activitiesPage(): string {
+  const rows = MOCK_ACTIVITIES.map(activity => `
+    <tr><td>${activity.datum} ${activity.time}</td><td>${activity.location}</td><td><abbr title="${activity.committee}">${activity.committeeAbbreviation}</abbr></td>
+    <td><a href="activiteit.html?nummer=${activity.nummer}">${activity.title}</a></td><td>${activity.type}</td></tr>`).join('');
+  return `<!DOCTYPE html><html><head><title>Activiteiten</title></head><body>
+    <table><thead><tr><th>Datum</th><th>Zaal</th><th>Commissie</th><th>Onderwerp</th><th>Soort</th></tr></thead><tbody>${rows}</tbody></table>
+  </body></html>`;
+}
+
+function votesPage(): string {
+  const bodies = MOCK_VOTES.map(vote => `
+    <tbody>
+      <tr><td>${vote.datum}</td><td><a href="zaak.html?nummer=${vote.zaak}">${vote.title}</a></td><td>${vote.submitter}</td><td>${vote.result}</td><td>${vote.voorAantal}</td><td>${vote.tegenAantal}</td></tr>
+      <tr><td><b>Voor</b>: ${vote.voor.join(' | ')}</td><td><b>Tegen</b>: ${vote.tegen.join(' | ')}</td></tr>
+    </tbody>`).join('');
+  return `<!DOCTYPE html><html><head><title>Stemmingen</title></head><body>
+    <table><thead><tr><th>Datum</th><th>Onderwerp</th><th>Indiener</th><th>Besluit</th><th>Voor</th><th>Tegen</th></tr></thead>${bodies}</table>
+  </body></html>`;
+}
+
+async function readForm(req: IncomingMessage): Promise<Record<string, string>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith('multipart/form-data') && !contentType.startsWith('application/x-www-form-urlencoded')) {
+    return {};
+  }
+
+  // Let the Fetch API parse multipart bodies
+  const formData = await new Response(Buffer.concat(chunks), { headers: { 'Content-Type': contentType } }).formData();
+  const form: Record<string, string> = {};
+  formData.forEach((value, name) => {
+    form[name] = typeof value === 'string' ? value : value.name;
+  });
+  return form;
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string | Buffer): void {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+function sendHtml(res: ServerResponse, html: string): void {
+  send(res, 200, 'text/html; charset=utf-8', html);
+}
+
+function sendJson(res: ServerResponse, data: unknown): void {
+  send(res, 200, 'application/json', JSON.stringify(data));
+}
@@ -0,0 +1,75 @@
+/**
+ * Connects an MCP client to a freshly configured server over an in-memory transport
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+export interface TestClient {
+  client: Client;
+  /** Calls a tool and returns the text of each content item (base64 data for images) */
+  callTool: (name: string, args?: Record<string, unknown>) => Promise<string[]>;
+  /** Calls a tool that returns a single JSON text item and parses it */
+  callJsonTool: (name: string, args?: Record<string, unknown>) => Promise<any>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Loads the server module with the given environment and connects a client to it
+ * Caching and retries are off unless the environment enables them, and local state goes to a
+ * temporary directory that is removed on close unless OPENTK_STATE_DIR is given
+ * @param env Environment variables such as OPENTK_BASE_URL
+ * @returns A connected client
+ */
+export async function connectTestClient(env: Record<string, string>): Promise<TestClient> {
+  const previous = { ...process.env };
+  const stateDir = env.OPENTK_STATE_DIR ? null : fs.mkdtempSync(path.join(os.tmpdir(), 'opentk-state-'));
+  Object.assign(process.env, { OPENTK_CACHE: 'off', OPENTK_RETRIES: '0' }, stateDir ? { OPENTK_STATE_DIR: stateDir } : {}, env);
+
+  let createServer: (() => McpServer) | null = null;
+  try {
+    // Load fresh modules so the configuration above is picked up
+    jest.isolateModules(() => {
+      createServer = require('../../server').createServer;
+    });
+  } finally {
+    process.env = previous;
+  }
+  if (!createServer) {
+    throw new Error('Could not load the server module');
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'opentk-test', version: '0.0.0' });
+  await (createServer as () => McpServer)().connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return (result.content as Array<{ type: string, text?: string, data?: string }>)
+      .map(item => item.text ?? item.data ?? '');
+  };
+
+  return {
+    client,
+    callTool,
+    callJsonTool: async (name, args) => {
+      const [text] = await callTool(name, args);
+      try {
+        return JSON.parse(text || '');
+      } catch (error) {
+        throw new Error(`Tool ${name} did not return JSON: ${text}`);
+      }
+    },
+    close: async () => {
+      await client.close();
+      if (stateDir) {
+        fs.rmSync(stateDir, { recursive: true, force: true });
+      }
+    }
+  };
+}
@@ -1,6 +1,243 @@
 /**
  * Configuration for the API service
+ * Settings are read from command line flags, then environment variables,
+ * then a JSON config file (--config or OPENTK_CONFIG), then the defaults below
  */
 
-// Base URL for the tkconv API
-export const BASE_URL = 'https://berthub.eu/tkconv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Reads a command line flag given as --name=value or --name value
+ * @param name The flag name without leading dashes
+ * @returns The flag value, or undefined when the flag is absent
+ */
+function readFlag(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === `--${name}`) {
+      const next = args[i + 1];
+      return next !== undefined && !next.startsWith('--') ? next : '';
+    }
+    if (arg?.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads every value of a repeatable command line flag
+ * @param name The flag name without leading dashes
+ * @returns All values given for the flag
+ */
+function readFlags(name: string): string[] {
+  const args = process.argv.slice(2);
+  const values: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+    if (arg === `--${name}` && next !== undefined && !next.startsWith('--')) {
+      values.push(next);
+    } else if (arg?.startsWith(`--${name}=`)) {
+      values.push(arg.slice(name.length + 3));
+    }
+  }
+  return values;
+}
+
+/**
+ * Shape of the optional JSON config file
+ */
+interface ConfigFile {
+  baseUrl?: string;
+  userAgent?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Loads the JSON config file named by --config or OPENTK_CONFIG
+ * @throws Error if the file cannot be read or parsed
+ */
+function loadConfigFile(): ConfigFile {
+  const configPath = readFlag('config') || process.env.OPENTK_CONFIG;
+  if (!configPath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8')) as ConfigFile;
+  } catch (error) {
+    throw new Error(`Could not read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parses extra headers given as "Name: value" pairs
+ */
+function parseHeaderList(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    if (separator > 0) {
+      headers[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Checks that extra headers are an object of string values
+ * @param value The headers as parsed from JSON
+ * @param source Where the headers were given, for the error message
+ * @throws Error if the value is not an object of strings
+ */
+export function validateHeaders(value: unknown, source: string): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) ||
+    Object.values(value).some(header => typeof header !== 'string')) {
+    throw new Error(`${source} must be a JSON object of strings`);
+  }
+  return value as Record<string, string>;
+}
+
+/**
+ * Parses extra headers given as a JSON object, as in OPENTK_HEADERS
+ * @throws Error if the value is not valid JSON or not an object of strings
+ */
+export function parseHeadersJson(json: string, source: string): Record<string, string> {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`${source} must be a JSON object of strings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateHeaders(value, source);
+}
+
+/**
+ * Parses a numeric setting, using the default when it is unset
+ * @param value The setting as given, e.g. an environment variable
+ * @param name The setting name, for the error message
+ * @param fallback The default value
+ * @param min The lowest allowed value
+ * @throws Error if the value is not a number or below the minimum
+ */
+export function parseNumberSetting(value: string | undefined, name: string, fallback: number, min: number): number {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < min) {
+    throw new Error(`${name} must be a number of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Validates a base URL and strips trailing slashes
+ * @throws Error if the URL is not an absolute http(s) URL
+ */
+export function normalizeBaseUrl(url: string): string {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Base URL must use http or https: ${url}`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+const configFile = loadConfigFile();
+
+// Base URL for the tkconv API (--base-url, OPENTK_BASE_URL or "baseUrl" in the config file)
+export const BASE_URL = normalizeBaseUrl(
+  readFlag('base-url') || process.env.OPENTK_BASE_URL || configFile.baseUrl || 'https://berthub.eu/tkconv'
+);
+
+// User agent for upstream requests; when unset each request type uses its built-in default
+export const USER_AGENT = readFlag('user-agent') || process.env.OPENTK_USER_AGENT || configFile.userAgent || '';
+
+// Extra headers sent with every upstream request (--header "Name: value", OPENTK_HEADERS as JSON, or "headers")
+export const EXTRA_HEADERS: Record<string, string> = {
+  ...(configFile.headers !== undefined ? validateHeaders(configFile.headers, 'The "headers" entry in the config file') : {}),
+  ...(process.env.OPENTK_HEADERS ? parseHeadersJson(process.env.OPENTK_HEADERS, 'OPENTK_HEADERS') : {}),
+  ...parseHeaderList(readFlags('header'))
+};
+
+/**
+ * Response cache settings
+ * OPENTK_CACHE=off disables caching, OPENTK_CACHE_DIR enables the filesystem layer
+ */
+export const CACHE_ENABLED = (process.env.OPENTK_CACHE || '').toLowerCase() !== 'off';
+export const CACHE_DIR = process.env.OPENTK_CACHE_DIR || '';
+export const CACHE_MAX_ENTRIES = Math.floor(parseNumberSetting(process.env.OPENTK_CACHE_MAX_ENTRIES, 'OPENTK_CACHE_MAX_ENTRIES', 500, 1));
+export const CACHE_MAX_BYTES = parseNumberSetting(process.env.OPENTK_CACHE_MAX_MB, 'OPENTK_CACHE_MAX_MB', 200, 0) * 1024 * 1024;
+
+/**
+ * Cache lifetimes per route class, first match wins
+ * Document files are effectively immutable per version, so their keys include the version
+ */
+export const CACHE_TTL_RULES: ReadonlyArray<{ pattern: RegExp, ttlSeconds: number }> = [
+  { pattern: /^\/getraw\//, ttlSeconds: 30 * 24 * 60 * 60 },
+  { pattern: /^\/personphoto\//, ttlSeconds: 7 * 24 * 60 * 60 },
+  { pattern: /^\/document\.html/, ttlSeconds: 60 * 60 },
+  { pattern: /^\/(kamerleden|persoon|commissies|commissie)\.html/, ttlSeconds: 6 * 60 * 60 },
+  { pattern: /^\/sitemap/, ttlSeconds: 60 * 60 },
+  { pattern: /^\/activiteiten\.html/, ttlSeconds: 15 * 60 },
+  { pattern: /^\/search/, ttlSeconds: 10 * 60 },
+  { pattern: /^\/stemmingen\.html/, ttlSeconds: 5 * 60 }
+];
+
+// Lifetime for routes without a specific rule (such as the overview page)
+export const CACHE_DEFAULT_TTL_SECONDS = 5 * 60;
+
+/**
+ * Upstream resilience settings
+ * Failed requests (timeouts, network errors, 408/429/5xx) are retried with jittered exponential backoff;
+ * after CIRCUIT_FAILURE_THRESHOLD consecutive failures requests fail fast until the cooldown has passed
+ */
+export const REQUEST_TIMEOUT_MS = parseNumberSetting(process.env.OPENTK_TIMEOUT_MS, 'OPENTK_TIMEOUT_MS', 30000, 1);
+export const RETRY_COUNT = Math.floor(parseNumberSetting(process.env.OPENTK_RETRIES, 'OPENTK_RETRIES', 3, 0));
+export const RETRY_BASE_DELAY_MS = parseNumberSetting(process.env.OPENTK_RETRY_BASE_MS, 'OPENTK_RETRY_BASE_MS', 500, 0);
+export const RETRY_MAX_DELAY_MS = parseNumberSetting(process.env.OPENTK_RETRY_MAX_MS, 'OPENTK_RETRY_MAX_MS', 10000, 0);
+export const CIRCUIT_FAILURE_THRESHOLD = Math.floor(parseNumberSetting(process.env.OPENTK_CIRCUIT_THRESHOLD, 'OPENTK_CIRCUIT_THRESHOLD', 5, 1));
+export const CIRCUIT_COOLDOWN_MS = parseNumberSetting(process.env.OPENTK_CIRCUIT_COOLDOWN_MS, 'OPENTK_CIRCUIT_COOLDOWN_MS', 30000, 0);
+
+/**
+ * Upstream politeness settings, applied per host
+ * OPENTK_RATE_LIMIT is a sustained rate in requests per second (0 disables it);
+ * requests beyond OPENTK_MAX_CONCURRENT in flight wait in a FIFO queue
+ */
+export const RATE_LIMIT_PER_SECOND = parseNumberSetting(process.env.OPENTK_RATE_LIMIT, 'OPENTK_RATE_LIMIT', 5, 0);
+export const RATE_LIMIT_BURST = Math.floor(parseNumberSetting(process.env.OPENTK_RATE_BURST, 'OPENTK_RATE_BURST', 10, 0));
+export const MAX_CONCURRENT_REQUESTS = Math.floor(parseNumberSetting(process.env.OPENTK_MAX_CONCURRENT, 'OPENTK_MAX_CONCURRENT', 4, 1));
+
+/**
+ * Local state such as feed checkpoints and saved searches, kept as JSON files
+ * --state-dir or OPENTK_STATE_DIR; defaults to ~/.opentk
+ */
+export const STATE_DIR = readFlag('state-dir') || process.env.OPENTK_STATE_DIR || path.join(os.homedir(), '.opentk');
+
+/**
+ * Fixture settings for offline development and deterministic tests
+ * OPENTK_FIXTURE_MODE=record saves every upstream response to OPENTK_FIXTURE_DIR;
+ * OPENTK_FIXTURE_MODE=replay serves those responses without network access
+ */
+const fixtureMode = (process.env.OPENTK_FIXTURE_MODE || '').toLowerCase();
+export const FIXTURE_MODE: 'off' | 'record' | 'replay' =
+  fixtureMode === 'record' || fixtureMode === 'replay' ? fixtureMode : 'off';
+export const FIXTURE_DIR = process.env.OPENTK_FIXTURE_DIR || 'fixtures';
+
+/**
+ * Transport settings
+ * stdio is the default; --http or OPENTK_TRANSPORT=http starts the Streamable HTTP server
+ */
+export const TRANSPORT: 'stdio' | 'http' =
+  readFlag('http') !== undefined || (readFlag('transport') || process.env.OPENTK_TRANSPORT || '').toLowerCase() === 'http'
+    ? 'http'
+    : 'stdio';
+export const HTTP_HOST = readFlag('host') || process.env.OPENTK_HTTP_HOST || '127.0.0.1';
+export const HTTP_PORT = parseInt(readFlag('port') || process.env.OPENTK_HTTP_PORT || '3000', 10);
+
+// Optional bearer token required on every HTTP request except the health check
+export const HTTP_AUTH_TOKEN = readFlag('auth-token') || process.env.OPENTK_AUTH_TOKEN || '';
@@ -0,0 +1,2265 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { apiService, computeSearchFacets, SearchResult } from "./services/api.js";
+import { BASE_URL } from './config.js';
+import {
+  extractDocumentDetailsFromHtml,
+  extractCommitteesFromHtml,
+  extractCommitteeDetailsFromHtml,
+  extractActivitiesFromHtml,
+  extractVotingResultsFromHtml
+} from './utils/html-parser.js';
+import { findPersonOccurrences, findPartyOccurrences, findParagraphStart, findParagraphEnd, analyzeDocumentContent, pageAtOffset } from './utils/document-extractor.js';
+import { documentTextService, DocumentTextResult } from './services/document-text.js';
+import { documentFeedService } from './services/document-feed.js';
+import { searchWatchService } from './services/search-watches.js';
+import { personDirectoryService } from './services/person-directory.js';
+import { partyDirectoryService } from './services/party-directory.js';
+import { segmentSpeakerTurns, computeDebateStatistics, extractQuotes, speakerMatchesName } from './utils/debate-transcript.js';
+import { parseMotion, findVotingResultForMotion } from './utils/motion-parser.js';
+import { parseKamervragen, pairQuestionsAndAnswers, computeAnswerTiming, ParsedKamervragen } from './utils/kamervragen.js';
+import { parseReference, ParsedReference } from './utils/references.js';
+import { extractCitations } from './utils/citations.js';
+import { applySearchFilters, describeSearchFilters, validateSearchFilters, SearchFilters } from './utils/search-filters.js';
+import { Buffer } from "buffer";
+
+// Date, type and recency filters shared by the search tools
+const searchFilterParams = {
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Only include results dated on or after this day (YYYY-MM-DD)"),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Only include results dated on or before this day (YYYY-MM-DD)"),
+  soort: z.string().optional().describe("Document type to keep, matched case-insensitively on part of the type, e.g. 'Motie', 'Brief regering', 'Verslag' or 'Schriftelijke vragen'"),
+  recentOnly: z.boolean().optional().describe("Only search the last two months (default: false)")
+};
+
+/**
+ * Picks the fields shown for a search hit in the summary format
+ * @param result A normalized search result
+ * @returns The condensed result
+ */
+function summarizeSearchResult(result: SearchResult) {
+  return {
+    id: result.id,
+    title: result.title,
+    category: result.category,
+    soort: result.soort,
+    nummer: result.nummer,
+    datum: result.datum,
+    url: result.url,
+    snippet: result.snippet
+  };
+}
+
+/**
+ * Describes the filters that narrowed a search, for "no results" messages
+ * @param filters Filters passed to a search tool
+ * @returns Text such as " with filters: dateFrom=2024-01-01, recentOnly", or an empty string
+ */
+function describeFilterText(filters: SearchFilters): string {
+  const parts = Object.entries(describeSearchFilters(filters))
+    .filter(([, value]) => value !== false)
+    .map(([name, value]) => value === true ? name : `${name}=${value}`);
+  return parts.length > 0 ? ` with filters: ${parts.join(', ')}` : '';
+}
+
+/**
+ * Builds the error response for documents whose text could not be retrieved
+ * @param result The non-ok result from the document text service
+ * @returns MCP tool response describing the problem
+ */
+function documentUnavailableResponse(result: Exclude<DocumentTextResult, { status: 'ok' }>) {
+  const { docId } = result;
+  let body: Record<string, unknown>;
+
+  if (result.status === 'not_found') {
+    body = {
+      error: `Document not found: ${docId}`,
+      suggestion: "The document ID may be incorrect or the document doesn't exist in the tkconv database. Try a different document ID or use the search tool to find relevant documents.",
+      searchUrl: `${BASE_URL}/search.html`
+    };
+  } else if (result.status === 'no_link') {
+    body = {
+      error: `Could not find document link for document ${docId}`,
+      suggestion: "The document exists but no download link was found. Try using get_document_details to verify the document ID is correct.",
+      documentUrl: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+    };
+  } else {
+    body = {
+      error: `Unsupported document type (content type: ${result.contentType})`,
+      suggestion: "This tool currently only supports PDF and Word (DOCX) documents.",
+      documentLink: result.details?.directLinkPdf || null
+    };
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(body, null, 2)
+    }]
+  };
+}
+
+/**
+ * Searches for a document belonging to the same case, such as the answers to written questions
+ * @param queries Queries to try in turn, e.g. the quoted zaak number and then the quoted subject
+ * @param excludeId Document that should not be returned, usually the one the search starts from
+ * @param pattern Pattern that the document type or title must match
+ * @returns The earliest matching document, or null when none was found
+ */
+async function findRelatedDocument(queries: string[], excludeId: string, pattern: RegExp): Promise<SearchResult | null> {
+  for (const query of queries) {
+    const { results } = await apiService.searchResults(query);
+    const matches = results
+      .filter(result => result.category === 'Document' && result.id !== excludeId && pattern.test(`${result.soort || ''} ${result.title}`))
+      .sort((a, b) => new Date(a.datum ?? 0).getTime() - new Date(b.datum ?? 0).getTime());
+    if (matches[0]) {
+      return matches[0];
+    }
+  }
+  return null;
+}
+
+// Largest number of distinct references extract_citations resolves in one call
+const MAX_RESOLVED_CITATIONS = 20;
+
+/**
+ * Resolves a normalized reference to its tkconv page and tweedekamer.nl page
+ * Document pages are fetched to confirm that the document exists and to find its title and Tweede Kamer link.
+ * @param reference Reference from parseReference
+ * @returns The reference with its status, URLs and document details
+ */
+async function resolveParsedReference(reference: ParsedReference) {
+  const unresolved = (message: string) => ({
+    ...reference,
+    status: 'unresolvable' as const,
+    message,
+    tkconvUrl: null,
+    tweedekamerUrl: null,
+    document: null
+  });
+
+  if (!reference.id) {
+    return unresolved(`${reference.citation} is a whole ${reference.kind === 'handelingen' ? 'meeting' : 'dossier'}, not a single document`);
+  }
+
+  try {
+    // tkconv may redirect to a location relative to its base URL
+    const url = new URL(await apiService.resolveExternal(reference.id), `${apiService.baseUrl}/`).toString();
+    const page = url.startsWith(`${apiService.baseUrl}/`) ? /\/(document|zaak|activiteit)\.html\?nummer=([^&#]+)/.exec(url) : null;
+    const tweedekamerUrl = /^https:\/\/www\.tweedekamer\.nl\//.test(url) ? url : null;
+    if (!page && !tweedekamerUrl) {
+      return unresolved(`${reference.citation} leads to ${url}, which is not a tkconv or tweedekamer.nl page`);
+    }
+
+    if (page?.[1] === 'document') {
+      // resolveExternal falls back to a document page even for unknown references, so check that it exists
+      const nummer = decodeURIComponent(page[2] || '');
+      const details = extractDocumentDetailsFromHtml(await apiService.fetchHtml(`/document.html?nummer=${encodeURIComponent(nummer)}`), apiService.baseUrl);
+      if (!details?.nummer) {
+        return unresolved(`tkconv has no document for ${reference.citation}`);
+      }
+      return {
+        ...reference,
+        status: 'resolved' as const,
+        message: null,
+        tkconvUrl: `${apiService.baseUrl}/document.html?nummer=${encodeURIComponent(details.nummer)}`,
+        tweedekamerUrl: details.tweedekamerLink,
+        document: { nummer: details.nummer, title: details.title, type: details.type, datum: details.datum }
+      };
+    }
+
+    return {
+      ...reference,
+      status: 'resolved' as const,
+      message: null,
+      tkconvUrl: page ? url : null,
+      tweedekamerUrl,
+      document: null
+    };
+  } catch (error: any) {
+    return unresolved(`Could not resolve ${reference.citation}: ${error.message || 'Unknown error'}`);
+  }
+}
+
+/**
+ * Creates an MCP server with all OpenTK tools registered
+ * The stdio transport uses a single server; every HTTP session gets its own instance
+ * @returns A configured McpServer that is not yet connected to a transport
+ */
+export function createServer(): McpServer {
+  const mcp = new McpServer({
+    name: "opentk",
+    version: "1.0.17",
+    description: "Human‑friendly MCP toolkit for all tkconv endpoints",
+  });
+
+  /** 1. Overview */
+  mcp.tool(
+    "get_overview",
+    "Provides a comprehensive overview of recent parliamentary activities, including the most recent documents and MPs celebrating birthdays today. The response contains structured data with two main sections: 'recentDocuments' (listing the latest parliamentary documents with their IDs, titles, types, dates, and URLs) and 'birthdays' (listing MPs celebrating birthdays today). The results are paginated with 10 documents per page. The tool supports iterative pagination - check the pagination.hasMoreDocuments field in the response to determine if additional pages are available. The response includes pagination information showing the current page, whether more documents are available, and the total number of documents retrieved. Applicable when general information about recent parliamentary activities is needed.",
+    {
+      page: z.number().optional().describe("Page number for paginated results (default: 1). Each page contains 10 documents.")
+    },
+    async ({ page = 1 }) => {
+      try {
+        // Validate page number
+        const validatedPage = Math.max(1, page);
+
+        // Get overview data with pagination
+        const overview = await apiService.getOverview(validatedPage);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(overview, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching overview: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** New and updated documents since a moment or since the previous check of a feed */
+  mcp.tool(
+    "get_new_documents",
+    "Lists parliamentary documents that were added or updated on tkconv since a given moment, or since the previous call for a named feed. Use it for recurring briefings such as 'what is new on stikstof since yesterday': call it with a feed name (e.g., 'stikstof-briefing') and topic 'stikstof', and every later call with the same feed only returns what changed since the call before. The feed's checkpoint is stored locally, so it survives restarts.\n\nEach document comes with its number, title, type, date, last update, version and links, and is marked 'added' (dated or first listed after the checkpoint) or 'updated' (an older document that changed since). Documents are found through the yearly tkconv sitemaps and checked from the newest document number down; when complete is false the limit or the scan budget was reached; a named feed then continues where it stopped on the next call, otherwise older changes may be missing. Without since and without an earlier check of the feed, the newest documents are returned.",
+    {
+      feed: z.string().regex(/^[a-z0-9-]{1,64}$/i).optional().describe("Name of the feed to read and advance (letters, digits and dashes, e.g. 'stikstof-briefing'); use one feed per topic"),
+      since: z.string().optional().describe("Report documents added or updated since this date or time (e.g., '2024-10-14' or '2024-10-14T09:00:00Z'), instead of since the feed's previous check"),
+      topic: z.string().optional().describe("Only report documents whose title contains all of these words (e.g., 'stikstof')"),
+      limit: z.number().optional().describe("Maximum number of documents to return (default: 25, max: 100)")
+    },
+    async ({ feed, since, topic, limit }) => {
+      try {
+        const sinceDate = since ? new Date(since) : undefined;
+        if (sinceDate && isNaN(sinceDate.getTime())) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                error: `Invalid since value: ${since}`,
+                suggestion: "Use a date such as '2024-10-14' or a time such as '2024-10-14T09:00:00Z'."
+              }, null, 2)
+            }]
+          };
+        }
+
+        const result = await documentFeedService.getNewDocuments({ feed, since: sinceDate, topic, limit });
+
+        const notes: string[] = [];
+        if (feed && !result.previousCheckpoint) {
+          notes.push(sinceDate
+            ? `Feed '${feed}' was checked for the first time; later calls report what changed after ${result.checkedAt}.`
+            : `Feed '${feed}' was checked for the first time, so the newest documents are shown; later calls report what changed after ${result.checkedAt}.`);
+        }
+        if (result.resumedBelow) {
+          notes.push(`The previous check of feed '${feed}' was cut short; this check continued below ${result.resumedBelow}.`);
+        }
+        if (!result.complete) {
+          notes.push(feed && result.since
+            ? `The limit or the scan budget was reached; call again with feed '${feed}' to get the remaining changes.`
+            : "The limit or the scan budget was reached; older changes may be missing. Raise limit or pass an earlier since to see more.");
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...result,
+              topic: topic || null,
+              totalDocuments: result.documents.length,
+              notes
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching new documents: ${error.message || 'Unknown error'}`,
+              suggestion: "Try get_overview for the most recent documents instead."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** 4. Birthdays today */
+  mcp.tool(
+    "birthdays_today",
+    "Lists all Members of Parliament celebrating their birthday today, including their names, political parties, and birth dates. The response is a JSON array where each entry contains the MP's ID, name, party affiliation, and other details. This tool takes no parameters as it always returns today's birthdays. Applicable when information about MPs' birthdays is needed.",
+    {},
+    async () => {
+      try {
+        const data = await apiService.fetchJson(`/jarig-vandaag`);
+        return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching birthdays: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** 5. All MPs directory */
+  mcp.tool(
+    "list_persons",
+    "Provides a complete directory of current Members of Parliament with their IDs, names, titles, party affiliations, and faction memberships. The response is a JSON array where each entry contains an MP's full details including unique MP IDs that can be referenced by other tools. Without parameters it returns all current MPs. Applicable when comprehensive information about all MPs is needed or when analyzing the composition of parliament by party.\n\nWith 'date' (or 'from' and 'to' for a period) it returns the composition of the Kamer at that time instead, including members who have left since: an object with the members seated at some moment in the period, in the same shape plus memberFrom, memberUntil and leaveReason (when the member page gives one), with Fractie set to their party at the end of the period, and the number of members per party. Former members are found through the member pages listed in the tkconv sitemaps and members seen before, so 'complete' is false when pages could not be read or the least likely candidates were skipped (see notes). The first call for a period reads up to 200 member pages and can take a while.",
+    {
+      date: z.string().optional().describe("Return the members seated on this day, as YYYY-MM-DD (e.g., '2023-06-01')"),
+      from: z.string().optional().describe("First day of a period, as YYYY-MM-DD; returns everyone seated at some moment between 'from' and 'to'"),
+      to: z.string().optional().describe("Last day of the period, as YYYY-MM-DD (default: 'from')")
+    },
+    async ({ date, from, to }) => {
+      try {
+        if (date || from || to) {
+          const periodFrom = date || from || to!;
+          const periodTo = date || to || periodFrom;
+          for (const value of [periodFrom, periodTo]) {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+              throw new Error(`Invalid date: ${value}, expected YYYY-MM-DD`);
+            }
+          }
+          if (periodTo < periodFrom) {
+            throw new Error(`The period ends (${periodTo}) before it starts (${periodFrom})`);
+          }
+
+          const composition = await personDirectoryService.getComposition(periodFrom, periodTo);
+          const membersByParty: Record<string, number> = {};
+          for (const member of composition.members) {
+            membersByParty[member.Fractie] = (membersByParty[member.Fractie] ?? 0) + 1;
+          }
+
+          const notes: string[] = [];
+          if (composition.checkedProfiles < composition.candidates) {
+            notes.push(`Only the ${composition.checkedProfiles} most likely of ${composition.candidates} possible members were checked, so members may be missing.`);
+          } else if (!composition.complete) {
+            notes.push("Some member pages or sitemaps could not be read; members may be missing.");
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                from: composition.from,
+                to: composition.to,
+                totalMembers: composition.members.length,
+                membersByParty,
+                complete: composition.complete,
+                candidates: composition.candidates,
+                checkedProfiles: composition.checkedProfiles,
+                notes,
+                members: composition.members
+              }, null, 2)
+            }]
+          };
+        }
+
+        // Use the tkconv API to get the MP list
+        const persons = await apiService.getPersons();
+
+        if (persons.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No MPs found or there was an error retrieving the MP list. Please try again later."
+            }]
+          };
+        }
+
+        return { content: [{ type: "text", text: JSON.stringify(persons, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching MP list: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** Profile of one MP */
+  mcp.tool(
+    "get_person",
+    "Returns the full profile of one Member of Parliament from their tkconv page: name, party, birth date and place, residence, start and end of their membership with the reason for leaving when given, the parties they have been a member of with dates, committee memberships with their role (e.g., 'Voorzitter' or 'Lid'), and the recent motions, written questions and votes listed on the page, each with its document or zaak number and a link. Dates are given as YYYY-MM-DD. Use list_persons to find an MP's ID; the motion and question numbers can be read with get_document_details or get_document_content.",
+    {
+      personId: z.string().describe("MP's numeric ID from list_persons (e.g., '1002')")
+    },
+    async ({ personId }) => {
+      try {
+        if (!/^\d+$/.test(personId.trim())) {
+          throw new Error(`Invalid MP ID '${personId}', expected a number such as '1002'`);
+        }
+
+        const profile = await apiService.getPerson(parseInt(personId.trim(), 10));
+        if (!profile) {
+          throw new Error(`No MP found with ID ${personId.trim()}`);
+        }
+
+        return { content: [{ type: "text", text: JSON.stringify({ ...profile, url: `${apiService.baseUrl}${profile.Links.self}` }, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching MP profile: ${error.message || 'Unknown error'}`,
+              suggestion: "Use list_persons to find the ID of a current MP."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Resolve a free-text name to an MP */
+  mcp.tool(
+    "resolve_person",
+    "Resolves a name as someone wrote it to Members of Parliament, so other tools can be called with an unambiguous MP ID. Handles typos ('Jeten'), a missing or run-together tussenvoegsel ('Plas', 'Vanderplas'), initials ('P. Omtzigt'), first names alone ('Caroline') and titles or forms of address ('minister Jetten', 'mevrouw Van der Plas', 'de heer Wilders'). Besides the current members, members seen on an earlier roster are searched, marked with current: false.\n\nThe response gives ranked candidates with MP ID, name, party, whether they are a current member, sort and citation forms of their name ('Plas, C. van der', 'Van der Plas') and a confidence between 0 and 1. 'match' holds the best candidate when it is clearly better than the others and null when the name is ambiguous or unknown. Use the ID with get_person or get_person_quotes, or the citation form with find_person_in_document.",
+    {
+      name: z.string().describe("Name to resolve, e.g. 'Jetten', 'minister Jeten' or 'mevrouw Plas'"),
+      limit: z.number().optional().describe("Maximum number of candidates to return (default: 5, max: 20)")
+    },
+    async ({ name, limit = 5 }) => {
+      try {
+        if (!name.trim()) {
+          throw new Error('Name is empty');
+        }
+
+        const resolution = await personDirectoryService.resolvePerson(name, Math.max(1, Math.min(limit, 20)));
+
+        const notes: string[] = [];
+        if (!resolution.rosterAvailable) {
+          notes.push('The current list of members could not be fetched; only members remembered from earlier lookups were searched.');
+        }
+        if (resolution.candidates.length === 0) {
+          notes.push(`No member matches '${name}'. Check the spelling or use list_persons to browse all current members.`);
+        } else if (!resolution.match) {
+          notes.push('Several members match about equally well; pick one of the candidate IDs.');
+        }
+
+        return { content: [{ type: "text", text: JSON.stringify({ ...resolution, notes }, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error resolving person: ${error.message || 'Unknown error'}`,
+              suggestion: "Use list_persons to browse all current members."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Parties in the Kamer */
+  mcp.tool(
+    "list_parties",
+    "Lists the parties (fracties) in the Tweede Kamer with their number of seats, largest first, based on the current list of members. Each party has its abbreviation (e.g., 'CU'), full name (e.g., 'ChristenUnie'), the fractie as written on the member list, and 'known': false for fracties that are not in the built-in party list, such as a member who split off. Use get_party for the members, history, motions and votes of one party.",
+    {},
+    async () => {
+      try {
+        const { totalSeats, parties } = await partyDirectoryService.listParties();
+
+        return { content: [{ type: "text", text: JSON.stringify({ totalSeats, totalParties: parties.length, parties }, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error listing parties: ${error.message || 'Unknown error'}`,
+              suggestion: "Try again later; the party list is built from the list of members."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** One party with its members, history, motions and votes */
+  mcp.tool(
+    "get_party",
+    "Describes one party (fractie) in the Tweede Kamer. The party can be given by abbreviation ('CDA', 'GL-PvdA'), full name ('Partij voor de Dieren') or as written on the member list ('GroenLinks-PvdA'), in any case.\n\nThe response gives the abbreviation and full name, other names the party is written as, the number of seats, the members with their role (the fractievoorzitter first, from the member pages) and MP ID, members who sat for another fractie before, the party's splits, mergers and joint fracties over time (e.g., DENK splitting off from the PvdA, GroenLinks and PvdA forming one fractie), the recent motions listed on the members' pages, and the recent votes with whether the party voted for or against. Parties without seats are still described from the built-in party list, with no members.",
+    {
+      party: z.string().describe("Party abbreviation or name, e.g. 'CDA', 'GL-PvdA' or 'Partij voor de Dieren'")
+    },
+    async ({ party }) => {
+      try {
+        const details = await partyDirectoryService.getParty(party);
+        if (!details) {
+          throw new Error(`Unknown party: ${party}`);
+        }
+
+        return { content: [{ type: "text", text: JSON.stringify(details, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching party: ${error.message || 'Unknown error'}`,
+              suggestion: "Use list_parties to see the parties with seats and how they are written."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** 6. Keyword search */
+  mcp.tool(
+    "search_tk",
+    "Performs a comprehensive search across all parliamentary data including documents, activities, and cases. Returns results matching the provided keyword or phrase. Use this for general searches when you need information on any topic discussed in parliament, regardless of document type or context. Search syntax: Searching for 'Joe Biden' finds documents containing both 'Joe' and 'Biden' anywhere in the text. Searching for \"Joe Biden\" (with quotes) finds only documents where these words appear next to each other. Searching for 'Hubert NOT Bruls' finds documents containing 'Hubert' but not 'Bruls'. The capital letters in 'NOT' are important. You can also use 'OR' and 'NEAR()' operators.",
+    {
+      query: z.string().describe("Search keyword or phrase - can be any term, name, policy area, or exact quote you want to find in parliamentary records. Use quotes for exact phrases, 'NOT' to exclude terms, 'OR' for alternatives, and 'NEAR()' for proximity searches."),
+      page: z.number().optional().describe("Page number for paginated results (default: 1)"),
+      limit: z.number().optional().describe("Maximum number of results to return per page (default: 20, max: 100)"),
+      format: z.enum(["full", "summary"]).optional().describe("Format of the results: 'full' for complete data or 'summary' for a condensed version (default: 'summary')"),
+      category: z.enum(["Document", "Activiteit", "Zaak"]).optional().describe("Only include results of this category: 'Document', 'Activiteit' or 'Zaak'"),
+      ...searchFilterParams
+    },
+    async ({ query, page = 1, limit = 20, format = "summary", category, dateFrom, dateTo, soort, recentOnly = false }) => {
+      try {
+        // Validate and cap the limit
+        const validatedLimit = Math.min(Math.max(1, limit), 100);
+        const validatedPage = Math.max(1, page);
+        const filters = { dateFrom, dateTo, soort, category, recentOnly };
+        validateSearchFilters(filters);
+        const searchOptions = { twomonths: recentOnly };
+
+        const data = await apiService.searchResults(query, searchOptions);
+
+        // Check if there's an error message in the response
+        if (data.error) {
+          return {
+            content: [
+              { type: "text", text: data.error },
+              { type: "text", text: JSON.stringify(data.results, null, 2) }
+            ]
+          };
+        }
+
+        const filtered = applySearchFilters(data.results, filters);
+
+        // If no results were found
+        if (filtered.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No results found for query: ${query}${describeFilterText(filters)}. Try using different keywords or simplifying your search.`
+            }]
+          };
+        }
+
+        // Sort results by date (most recent first)
+        const sortedResults = [...filtered].sort((a, b) => {
+          // Parse dates from the 'datum' field (format: YYYY-MM-DDT00:00:00)
+          const dateA = new Date(a.datum ?? 0);
+          const dateB = new Date(b.datum ?? 0);
+          return dateB.getTime() - dateA.getTime(); // Descending order (newest first)
+        });
+
+        // Calculate pagination
+        const totalResults = sortedResults.length;
+        const totalPages = Math.ceil(totalResults / validatedLimit);
+        const startIndex = (validatedPage - 1) * validatedLimit;
+        const endIndex = Math.min(startIndex + validatedLimit, totalResults);
+        const paginatedResults = sortedResults.slice(startIndex, endIndex);
+
+        // Create pagination info
+        const paginationInfo = {
+          query,
+          filters: describeSearchFilters(filters),
+          totalResults,
+          page: validatedPage,
+          limit: validatedLimit,
+          totalPages,
+          hasNextPage: validatedPage < totalPages,
+          hasPreviousPage: validatedPage > 1
+        };
+
+        // Format the results based on the requested format
+        let formattedResults;
+        if (format === "summary") {
+          // Create a summary version with only essential fields
+          formattedResults = paginatedResults.map(summarizeSearchResult);
+        } else {
+          // Use the full data
+          formattedResults = paginatedResults;
+        }
+
+        // Return the paginated results with pagination info
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              pagination: paginationInfo,
+              facets: computeSearchFacets(filtered),
+              cache: data.cache,
+              upstream: apiService.getSearchUpstreamStatus(query, searchOptions),
+              results: formattedResults
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error searching: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** 7. Search filtered by type */
+  mcp.tool(
+    "search_tk_filtered",
+    "Performs a search within a specific category of parliamentary data, allowing results to be limited to only documents, activities, or cases. Returns paginated results sorted by date (most recent first). Search syntax supports: keyword searches ('Joe Biden' finds both terms), exact phrase searches (\"Joe Biden\" with quotes finds the exact phrase), exclusion ('Hubert NOT Bruls' excludes documents with 'Bruls'), and boolean operators ('OR', 'NEAR()'). Results can be returned in 'full' or 'summary' format.",
+    {
+      query: z.string().describe("Search term - any keyword, name, policy area, or quote you want to find in parliamentary records. Use quotes for exact phrases, 'NOT' to exclude terms, 'OR' for alternatives, and 'NEAR()' for proximity searches."),
+      type: z
+        .enum(["Document", "Activiteit", "Zaak"])
+        .describe("Category filter: 'Document' for official papers, reports and letters; 'Activiteit' for debates and committee meetings; 'Zaak' for legislative cases and motions"),
+      page: z.number().optional().describe("Page number for paginated results (default: 1)"),
+      limit: z.number().optional().describe("Maximum number of results to return per page (default: 20, max: 100)"),
+      format: z.enum(["full", "summary"]).optional().describe("Format of the results: 'full' for complete data or 'summary' for a condensed version (default: 'summary')"),
+      ...searchFilterParams
+    },
+    async ({ query, type, page = 1, limit = 20, format = "summary", dateFrom, dateTo, soort, recentOnly = false }) => {
+      try {
+        // Validate and cap the limit
+        const validatedLimit = Math.min(Math.max(1, limit), 100);
+        const validatedPage = Math.max(1, page);
+        const filters = { dateFrom, dateTo, soort, category: type, recentOnly };
+        validateSearchFilters(filters);
+        const searchOptions = { twomonths: recentOnly };
+
+        const data = await apiService.searchResults(query, searchOptions);
+
+        // Check if there's an error message in the response
+        if (data.error) {
+          return {
+            content: [
+              { type: "text", text: data.error },
+              { type: "text", text: "[]" }
+            ]
+          };
+        }
+
+        // Filter the results by category and the optional filters
+        const filtered = applySearchFilters(data.results, filters);
+
+        // If no results were found after filtering
+        if (filtered.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No results found for query: ${query} with filter: ${type}${describeFilterText({ ...filters, category: undefined })}. Try using different keywords or a different filter.`
+            }]
+          };
+        }
+
+        // Sort filtered results by date (most recent first)
+        const sortedResults = [...filtered].sort((a, b) => {
+          // Parse dates from the 'datum' field (format: YYYY-MM-DDT00:00:00)
+          const dateA = new Date(a.datum ?? 0);
+          const dateB = new Date(b.datum ?? 0);
+          return dateB.getTime() - dateA.getTime(); // Descending order (newest first)
+        });
+
+        // Calculate pagination
+        const totalResults = sortedResults.length;
+        const totalPages = Math.ceil(totalResults / validatedLimit);
+        const startIndex = (validatedPage - 1) * validatedLimit;
+        const endIndex = Math.min(startIndex + validatedLimit, totalResults);
+        const paginatedResults = sortedResults.slice(startIndex, endIndex);
+
+        // Create pagination info
+        const paginationInfo = {
+          query,
+          type,
+          filters: describeSearchFilters(filters),
+          totalResults,
+          page: validatedPage,
+          limit: validatedLimit,
+          totalPages,
+          hasNextPage: validatedPage < totalPages,
+          hasPreviousPage: validatedPage > 1
+        };
+
+        // Format the results based on the requested format
+        let formattedResults;
+        if (format === "summary") {
+          // Create a summary version with only essential fields
+          formattedResults = paginatedResults.map(summarizeSearchResult);
+        } else {
+          // Use the full data
+          formattedResults = paginatedResults;
+        }
+
+        // Return the paginated results with pagination info
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              pagination: paginationInfo,
+              facets: computeSearchFacets(filtered),
+              cache: data.cache,
+              upstream: apiService.getSearchUpstreamStatus(query, searchOptions),
+              results: formattedResults
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error searching with filter: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** Saved searches that report only new results */
+  mcp.tool(
+    "create_watch",
+    "Saves a search under a name so it can be rerun later with check_watch, which then returns only the results that were not there before. Use it for searches that are repeated every day, such as following 'stikstof' motions. The search uses the same syntax and filters as search_tk; the results that exist now are marked as seen, so the first check_watch only reports what appeared after the watch was created. Watches are stored locally and survive restarts.",
+    {
+      name: z.string().regex(/^[a-z0-9-]{1,64}$/i).describe("Name of the watch (letters, digits and dashes, e.g. 'stikstof-moties')"),
+      query: z.string().describe("Search query in search_tk syntax, e.g. 'stikstof' or '\"rekenkundige ondergrens\"'"),
+      category: z.enum(["Document", "Activiteit", "Zaak"]).optional().describe("Only include results of this category: 'Document', 'Activiteit' or 'Zaak'"),
+      ...searchFilterParams
+    },
+    async ({ name, query, category, dateFrom, dateTo, soort, recentOnly }) => {
+      try {
+        const { watch, existingResults } = await searchWatchService.createWatch(name, query, { dateFrom, dateTo, soort, category, recentOnly });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              watch,
+              existingResults,
+              note: `The ${existingResults} current results are marked as seen; check_watch({name: '${name}'}) will report only results that appear from now on.`
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error creating watch: ${error.message || 'Unknown error'}`,
+              suggestion: "Use list_watches to see the existing watches, or delete_watch to replace one."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "list_watches",
+    "Lists the saved searches created with create_watch, with their query, filters, when they were created and last checked, the latest result date seen (highWaterMark) and the number of results seen so far.",
+    {},
+    async () => {
+      try {
+        const watches = await searchWatchService.listWatches();
+        return { content: [{ type: "text", text: JSON.stringify({ totalWatches: watches.length, watches }, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error listing watches: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "check_watch",
+    "Reruns a saved search created with create_watch and returns only the results that were not seen at an earlier check (a result also counts as new when its date moved forward), newest first, so you can report for example '3 new documents on stikstof since yesterday'. The new results are then marked as seen, so the next check starts from here. The response gives the time of the previous check and the latest result date seen before (previousHighWaterMark).",
+    {
+      name: z.string().describe("Name of the watch to check"),
+      format: z.enum(["full", "summary"]).optional().describe("Format of the results: 'full' for complete data or 'summary' for a condensed version (default: 'summary')")
+    },
+    async ({ name, format = "summary" }) => {
+      try {
+        const result = await searchWatchService.checkWatch(name);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...result,
+              totalNewResults: result.newResults.length,
+              newResults: format === "summary" ? result.newResults.map(summarizeSearchResult) : result.newResults,
+              note: result.newResults.length === 0
+                ? `No new results for '${result.watch.query}' since the previous check (previousCheckAt).`
+                : `${result.newResults.length} new result${result.newResults.length === 1 ? '' : 's'} for '${result.watch.query}' since the previous check (previousCheckAt).`
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error checking watch: ${error.message || 'Unknown error'}`,
+              suggestion: "Use list_watches to see the existing watches."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "delete_watch",
+    "Deletes a saved search created with create_watch, together with the record of the results it has seen.",
+    {
+      name: z.string().describe("Name of the watch to delete")
+    },
+    async ({ name }) => {
+      try {
+        const deleted = await searchWatchService.deleteWatch(name);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(deleted
+              ? { name, deleted: true }
+              : { name, deleted: false, error: `No watch named '${name}'`, suggestion: "Use list_watches to see the existing watches." }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error deleting watch: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** . MP portrait */
+  mcp.tool(
+    "get_photo",
+    "Retrieves the official portrait photograph of a Member of Parliament. Returns the image as a binary resource that can be displayed or saved. Use this when you need to include a visual representation of an MP in reports, presentations, or profiles.",
+    { personId: z.string().describe("MP's numeric ID - the unique identifier for the Member of Parliament whose photo you want to retrieve") },
+    async ({ personId }) => {
+      try {
+        const { data } = await apiService.fetchBinary(`/personphoto/${encodeURIComponent(personId)}`);
+        const base64 = Buffer.from(data).toString("base64");
+        return {
+          content: [
+            {
+              type: "resource",
+              resource: {
+                uri: `photo://${personId}`,
+                blob: base64,
+                mimeType: "image/jpeg"
+              }
+            }
+          ]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching MP photo: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** Document details with structured data */
+  mcp.tool(
+    "get_document_details",
+    "Retrieves metadata about a parliamentary document in a structured JSON format, without downloading the actual document content. Returns information including title, type, document number, dates, version number, and links to both the PDF version and the official Tweede Kamer webpage.",
+    {
+      nummer: z.string().describe("Document number (e.g., '2024D39058') - the unique identifier for the parliamentary document you want information about")
+    },
+    async ({ nummer }) => {
+      try {
+        const { html, cache } = await apiService.fetchHtmlWithStatus(`/document.html?nummer=${encodeURIComponent(nummer)}`);
+        if (!html) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ error: `No content found for document ${nummer}` })
+            }]
+          };
+        }
+
+        const details = extractDocumentDetailsFromHtml(html, BASE_URL);
+        if (!details) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ error: `Failed to parse details for document ${nummer}` })
+            }]
+          };
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...details,
+              cache,
+              upstream: apiService.getUpstreamStatus(`/document.html?nummer=${encodeURIComponent(nummer)}`)
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching document details: ${error.message || 'Unknown error'}`
+            })
+          }]
+        };
+      }
+    }
+  );
+
+  /** Generate clickable document links */
+  mcp.tool(
+    "get_document_links",
+    "Converts document URLs into clickable markdown-formatted links. This tool takes either a direct PDF link or a Tweede Kamer webpage link and returns them as properly formatted clickable links.",
+    {
+      pdfUrl: z.string().optional().describe("Direct link to the PDF document"),
+      tkUrl: z.string().optional().describe("Link to the document page on Tweede Kamer website")
+    },
+    async ({ pdfUrl, tkUrl }) => {
+      const links: string[] = [];
+
+      if (pdfUrl) {
+        links.push(`[Download PDF](${pdfUrl})`);
+      }
+
+      if (tkUrl) {
+        // Remove any HTML entities from the URL
+        const cleanTkUrl = tkUrl.replace(/&amp;/g, '&');
+        links.push(`[View on Tweede Kamer website](${cleanTkUrl})`);
+      }
+
+      if (links.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No valid links provided"
+          }]
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: links.join("\n")
+        }]
+      };
+    }
+  );
+
+  /** Get committees */
+  mcp.tool(
+    "get_committees",
+    "Retrieves a list of all parliamentary committees with their IDs, names, and URLs. The response is a JSON array where each entry represents a committee with its unique identifier and name. Committees are specialized groups of MPs that focus on specific domains like defense, healthcare, or finance. This tool takes no parameters as it returns all active committees.",
+    {},
+    async () => {
+      try {
+        const html = await apiService.fetchHtml("/commissies.html");
+        const committees = extractCommitteesFromHtml(html, BASE_URL);
+
+        if (committees.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No committees found or there was an error retrieving the committee list. Please try again later."
+            }]
+          };
+        }
+
+        return { content: [{ type: "text", text: JSON.stringify(committees, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching committees: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** Get committee details */
+  mcp.tool(
+    "get_committee_details",
+    "Retrieves detailed information about a specific parliamentary committee, including its members, recent activities, and description. This provides deeper insight into the committee's composition, leadership roles, and recent work. Use this when you need comprehensive information about a particular committee's structure and activities.",
+    {
+      committeeId: z.string().describe("Committee ID - the unique identifier for the parliamentary committee you want information about")
+    },
+    async ({ committeeId }) => {
+      try {
+        const html = await apiService.fetchHtml(`/commissie.html?id=${encodeURIComponent(committeeId)}`);
+        const committeeDetails = extractCommitteeDetailsFromHtml(html, BASE_URL, committeeId);
+
+        if (!committeeDetails) {
+          // If we couldn't extract details from the HTML, return a simplified response with just the name and ID
+          const titleRegex = /<title>([^<]+)<\/title>/i;
+          const titleMatch = html.match(titleRegex);
+          const name = titleMatch?.[1]?.trim() || "Unknown Committee";
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                id: committeeId,
+                name: name,
+                url: `${BASE_URL}/commissie.html?id=${encodeURIComponent(committeeId)}`,
+                note: "This committee uses dynamic content rendering. Only basic information is available."
+              }, null, 2)
+            }]
+          };
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(committeeDetails, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching committee details: ${error.message || 'Unknown error'}`
+            })
+          }]
+        };
+      }
+    }
+  );
+
+  /** Get upcoming activities */
+  mcp.tool(
+    "get_upcoming_activities",
+    "Retrieves a list of upcoming parliamentary activities including debates, committee meetings, and other events. The response contains a structured JSON object with both a chronological list of activities and activities grouped by date. Each activity includes details like date, time, location, committee, type, and a URL for more information. The results are sorted by date with the most imminent activities first. The optional 'limit' parameter controls the number of results returned (default: 20, max: 100).",
+    {
+      limit: z.number().optional().describe("Maximum number of activities to return (default: 20, max: 100)")
+    },
+    async ({ limit = 20 }) => {
+      try {
+        // Validate and cap the limit
+        const validatedLimit = Math.min(Math.max(1, limit), 100);
+
+        const { html, cache } = await apiService.fetchHtmlWithStatus("/activiteiten.html");
+        const activities = extractActivitiesFromHtml(html, BASE_URL);
+
+        if (activities.length === 0) {
+          // If we couldn't extract activities from the HTML, return a simplified response
+          // This could happen if the page structure changes or uses dynamic content
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                error: "No upcoming activities found or there was an error retrieving the activities list.",
+                note: "The activities page may use dynamic content rendering. Please try again later or check the website directly.",
+                url: `${BASE_URL}/activiteiten.html`
+              }, null, 2)
+            }]
+          };
+        }
+
+        // Sort activities by date (most recent first) and limit the results
+        const sortedActivities = [...activities].sort((a, b) => {
+          const dateA = new Date(a.date + (a.time ? ` ${a.time}` : ''));
+          const dateB = new Date(b.date + (b.time ? ` ${b.time}` : ''));
+          return dateA.getTime() - dateB.getTime(); // Ascending order (upcoming first)
+        }).slice(0, validatedLimit);
+
+        // Group activities by date for better organization
+        const groupedActivities: Record<string, any[]> = {};
+        sortedActivities.forEach(activity => {
+          const date = activity.date || 'unknown';
+          if (!groupedActivities[date]) {
+            groupedActivities[date] = [];
+          }
+          groupedActivities[date].push(activity);
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: activities.length,
+              limit: validatedLimit,
+              cache,
+              upstream: apiService.getUpstreamStatus("/activiteiten.html"),
+              groupedByDate: groupedActivities,
+              activities: sortedActivities
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching upcoming activities: ${error.message || 'Unknown error'}`,
+              url: `${BASE_URL}/activiteiten.html`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Get voting results */
+  mcp.tool(
+    "get_voting_results",
+    "Retrieves recent voting results on parliamentary motions and bills. The response contains a structured JSON object with voting results sorted by date (newest first). Each result includes detailed information such as the title of the motion/bill, the date of the vote, the submitter, whether it was accepted or rejected, the vote counts (for/against), and which political parties voted for or against. The 'limit' parameter controls the number of results (default: 20, max: 100) and 'format' parameter allows choosing between 'full' or 'summary' format. The 'summary' format provides a more structured representation with renamed fields, while both formats include complete party voting information.",
+    {
+      limit: z.number().optional().describe("Maximum number of voting results to return (default: 20, max: 100)"),
+      format: z.enum(["full", "summary"]).optional().describe("Format of the results: 'full' for complete data or 'summary' for a more structured version with renamed fields (default: 'full'). Both formats include party information.")
+    },
+    async ({ limit = 20, format = "full" }) => {
+      try {
+        // Validate and cap the limit
+        const validatedLimit = Math.min(Math.max(1, limit), 100);
+
+        const { html, cache } = await apiService.fetchHtmlWithStatus("/stemmingen.html");
+        const votingResults = extractVotingResultsFromHtml(html, BASE_URL);
+
+        if (votingResults.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                error: "No voting results found or there was an error retrieving the voting results list. Please try again later.",
+                url: `${BASE_URL}/stemmingen.html`
+              }, null, 2)
+            }]
+          };
+        }
+
+        // Sort voting results by date (most recent first) and limit the results
+        const sortedResults = [...votingResults].sort((a, b) => {
+          const dateA = new Date(a.date);
+          const dateB = new Date(b.date);
+          return dateB.getTime() - dateA.getTime(); // Descending order (newest first)
+        }).slice(0, validatedLimit);
+
+        // Format the results based on the requested format
+        let formattedResults;
+        if (format === "summary") {
+          // Create a summary version with only essential fields
+          formattedResults = sortedResults.map(item => ({
+            id: item.id,
+            title: item.title,
+            date: item.date,
+            result: item.result,
+            submitter: item.submitter,
+            votes: item.votes ? {
+              voorAantal: item.votes.voorAantal,
+              tegenAantal: item.votes.tegenAantal,
+              voorPartijen: item.votes.voor,
+              tegenPartijen: item.votes.tegen
+            } : undefined,
+            url: item.url
+          }));
+        } else {
+          // Use the full data
+          formattedResults = sortedResults;
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: votingResults.length,
+              limit: validatedLimit,
+              format,
+              cache,
+              upstream: apiService.getUpstreamStatus("/stemmingen.html"),
+              results: formattedResults
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error fetching voting results: ${error.message || 'Unknown error'}`,
+              url: `${BASE_URL}/stemmingen.html`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Search documents by category */
+  mcp.tool(
+    "search_by_category",
+    "Performs a search for documents of a certain category, such as questions ('vragen'), motions ('moties'), or all document types ('alles'). The response contains a structured JSON object with paginated results and metadata. The search syntax supports advanced queries: 'Joe Biden' finds documents with both terms anywhere, '\"Joe Biden\"' (with quotes) finds exact phrases, 'Hubert NOT Bruls' finds documents with 'Hubert' but not 'Bruls' (capital NOT is required), and 'OR' for alternatives. Results are sorted by date with the most recent documents first.",
+    {
+      query: z.string().describe("Search term - any keyword, name, policy area, or quote you want to find in parliamentary records"),
+      category: z.enum(["vragen", "moties", "alles"]).describe("Document category: 'vragen' for questions, 'moties' for motions, 'alles' for all document types"),
+      page: z.number().optional().describe("Page number for paginated results (default: 1)"),
+      limit: z.number().optional().describe("Maximum number of results to return per page (default: 20, max: 100)"),
+      type: z.enum(["Document", "Activiteit", "Zaak"]).optional().describe("Only include results of this category: 'Document', 'Activiteit' or 'Zaak'"),
+      ...searchFilterParams
+    },
+    async ({ query, category, page = 1, limit = 20, type, dateFrom, dateTo, soort, recentOnly = false }) => {
+      try {
+        // Validate and cap the limit
+        const validatedLimit = Math.min(Math.max(1, limit), 100);
+        const validatedPage = Math.max(1, page);
+        const filters = { dateFrom, dateTo, soort, category: type, recentOnly };
+        validateSearchFilters(filters);
+        const searchOptions = { soorten: category, twomonths: recentOnly };
+
+        const data = await apiService.searchResults(query, searchOptions);
+
+        // Check if there's an error message in the response
+        if (data.error) {
+          return {
+            content: [
+              { type: "text", text: data.error },
+              { type: "text", text: JSON.stringify(data.results || [], null, 2) }
+            ]
+          };
+        }
+
+        const filtered = applySearchFilters(data.results, filters);
+
+        // If no results were found
+        if (filtered.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No results found for query: ${query} with category: ${category}${describeFilterText(filters)}. Try using different keywords or a different category.`
+            }]
+          };
+        }
+
+        // Sort results by date (most recent first)
+        const sortedResults = [...filtered].sort((a, b) => {
+          // Parse dates from the 'datum' field (format: YYYY-MM-DDT00:00:00)
+          const dateA = new Date(a.datum ?? 0);
+          const dateB = new Date(b.datum ?? 0);
+          return dateB.getTime() - dateA.getTime(); // Descending order (newest first)
+        });
+
+        // Calculate pagination
+        const totalResults = sortedResults.length;
+        const totalPages = Math.ceil(totalResults / validatedLimit);
+        const startIndex = (validatedPage - 1) * validatedLimit;
+        const endIndex = Math.min(startIndex + validatedLimit, totalResults);
+        const paginatedResults = sortedResults.slice(startIndex, endIndex);
+
+        // Create pagination info
+        const paginationInfo = {
+          query,
+          category,
+          filters: describeSearchFilters(filters),
+          totalResults,
+          page: validatedPage,
+          limit: validatedLimit,
+          totalPages,
+          hasNextPage: validatedPage < totalPages,
+          hasPreviousPage: validatedPage > 1
+        };
+
+        // Create a summary version with only essential fields
+        const formattedResults = paginatedResults.map(summarizeSearchResult);
+
+        // Return the paginated results with pagination info
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              pagination: paginationInfo,
+              facets: computeSearchFacets(filtered),
+              cache: data.cache,
+              upstream: apiService.getSearchUpstreamStatus(query, searchOptions),
+              results: formattedResults
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error searching by category: ${error.message || 'Unknown error'}`
+          }]
+        };
+      }
+    }
+  );
+
+  /** Get document content */
+  mcp.tool(
+    "get_document_content",
+    "Retrieves the content of a parliamentary document (PDF or DOCX). This tool supports three modes of operation depending on parameters provided:\n\n1. TARGETED RETRIEVAL (with offset): Provide docId + offset (+ optional maxLength, default 3000). Returns text centered around the offset position, extracting approximately 1,500 chars before and 1,500 chars after the offset. Finds natural paragraph boundaries for clean extraction.\n\n2. SEQUENTIAL READING (with maxLength, no offset): Provide docId + maxLength (no offset). Returns first maxLength characters from document start. Includes nextOffset for pagination to continue reading.\n\n3. FULL DOCUMENT RETRIEVAL (no offset, no maxLength): Provide docId only. Returns complete document text (may be 100KB+) together with the page→offset map and the headings. Note: May use significant context window space.\n\n4. PAGE RETRIEVAL (with page, no offset): Provide docId + page (+ optional maxLength). Returns the text of that page of a PDF, so \"page 14\" citations can be checked.\n\nThe text keeps its line breaks; paragraphs and pages are separated by a blank line.\n\nPARAMETERS:\n- docId: Document ID to retrieve (required)\n- offset (optional): Character position to center extraction around. Can be obtained from find_person_in_document or from the nextOffset value in previous responses.\n- page (optional): 1-based PDF page number to read. Ignored when offset is provided.\n- maxLength (optional): Maximum characters to return. Default is 3000 when offset is provided, no limit when offset is not provided.\n\nRESPONSE FORMAT:\n- text: Extracted document content\n- textLength: Length of returned text\n- offset: Starting position in full document\n- pageStart/pageEnd: PDF pages the returned text starts and ends on (null for Word documents)\n- totalPages: Number of PDF pages (null for Word documents)\n- nextOffset: Position to continue reading (null if at end)\n- prevOffset: Position to read backwards (null if at start)\n- hasMoreBefore: Boolean indicating more content exists before\n- hasMoreAfter: Boolean indicating more content exists after\n- note: Instructions for retrieving more content",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') - the unique identifier for the parliamentary document you want to download and extract text from"),
+      offset: z.number().optional().describe("Optional starting position for text extraction. Use this to retrieve content from a specific position in the document. When provided with maxLength, extracts text centered around this position."),
+      maxLength: z.number().optional().describe("Maximum number of characters to return. Default: 3000 when offset is provided, no limit when offset is not provided. Set to a higher value if you need more context, but be mindful of context window limits."),
+      page: z.number().int().min(1).optional().describe("Optional 1-based page number of a PDF document to read; ignored when offset is provided")
+    },
+    async ({ docId, offset, maxLength, page }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText, pages, headings } = result;
+
+        // Implement smart chunking logic based on parameters
+        let chunk: string;
+        let actualStart: number;
+        let actualEnd: number;
+        let hasMoreBefore: boolean;
+        let hasMoreAfter: boolean;
+        let nextOffset: number | null;
+        let prevOffset: number | null;
+
+        if (offset !== undefined) {
+          // SCENARIO 1: Targeted retrieval with offset
+          const maxLen = maxLength || 3000;
+          const halfLength = Math.floor(maxLen / 2);
+
+          // Calculate extraction window centered around offset
+          const startPos = Math.max(0, offset - halfLength);
+          const endPos = Math.min(extractedText.length, offset + halfLength);
+
+          // Find natural paragraph boundaries
+          actualStart = findParagraphStart(extractedText, startPos);
+          actualEnd = findParagraphEnd(extractedText, endPos);
+
+          // Extract the chunk
+          chunk = extractedText.substring(actualStart, actualEnd);
+
+          // Calculate pagination info
+          hasMoreBefore = actualStart > 0;
+          hasMoreAfter = actualEnd < extractedText.length;
+          nextOffset = hasMoreAfter ? actualEnd : null;
+          prevOffset = hasMoreBefore ? Math.max(0, actualStart - maxLen) : null;
+
+        } else if (page !== undefined) {
+          // SCENARIO 4: Reading a single page
+          const target = pages.find(candidate => candidate.number === page);
+          if (!target) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  error: pages.length > 0
+                    ? `Page ${page} does not exist; document ${docId} has ${pages.length} pages`
+                    : `Page numbers are not available for ${documentType} document ${docId}`,
+                  suggestion: "Use offset or maxLength to read the document instead."
+                }, null, 2)
+              }]
+            };
+          }
+
+          actualStart = target.start;
+          actualEnd = maxLength !== undefined
+            ? findParagraphEnd(extractedText, Math.min(target.start + maxLength, target.end))
+            : target.end;
+          chunk = extractedText.substring(actualStart, actualEnd);
+          hasMoreBefore = actualStart > 0;
+          hasMoreAfter = actualEnd < extractedText.length;
+          nextOffset = hasMoreAfter ? actualEnd : null;
+          prevOffset = hasMoreBefore ? (pages[page - 2]?.start ?? 0) : null;
+
+        } else if (maxLength !== undefined) {
+          // SCENARIO 2: Controlled reading from start
+          const maxLen = maxLength;
+          const endPos = Math.min(extractedText.length, maxLen);
+          const endBoundary = findParagraphEnd(extractedText, endPos);
+
+          chunk = extractedText.substring(0, endBoundary);
+          actualStart = 0;
+          actualEnd = endBoundary;
+          hasMoreBefore = false;
+          hasMoreAfter = endBoundary < extractedText.length;
+          nextOffset = hasMoreAfter ? endBoundary : null;
+          prevOffset = null;
+
+        } else {
+          // SCENARIO 3: Full document retrieval (original behavior)
+          chunk = extractedText;
+          actualStart = 0;
+          actualEnd = extractedText.length;
+          hasMoreBefore = false;
+          hasMoreAfter = false;
+          nextOffset = null;
+          prevOffset = null;
+        }
+
+        // Return the document content along with metadata and pagination info
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+
+              // Text content
+              text: chunk,
+              textLength: chunk.length,
+
+              // Pagination info
+              offset: actualStart,
+              nextOffset: nextOffset,
+              prevOffset: prevOffset,
+              hasMoreBefore: hasMoreBefore,
+              hasMoreAfter: hasMoreAfter,
+
+              // Page info (PDF only)
+              pageStart: pageAtOffset(pages, actualStart),
+              pageEnd: pageAtOffset(pages, Math.max(actualStart, actualEnd - 1)),
+              totalPages: pages.length > 0 ? pages.length : null,
+              ...(offset === undefined && page === undefined && maxLength === undefined ? {
+                pageOffsets: Object.fromEntries(pages.map(entry => [entry.number, entry.start])),
+                headings
+              } : {}),
+
+              // Usage instructions
+              note: hasMoreAfter 
+                ? `This is a ${chunk.length}-character excerpt. To read more, call get_document_content({docId: '${docId}', offset: ${actualEnd}, maxLength: ${maxLength || 3000}})`
+                : "This is the complete section.",
+
+              documentLink: details?.directLinkPdf || null
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error extracting document content: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Find person occurrences in document */
+  mcp.tool(
+    "find_person_in_document",
+    "Searches for all occurrences of a person's name within a parliamentary document and returns their precise locations. This tool efficiently navigates large documents by identifying where specific persons speak, are mentioned, or are referenced without loading the entire document.\n\nThe tool uses fuzzy matching, so partial names work well:\n- Searching for \"Wilders\" will find \"Geert Wilders\", \"de heer Wilders\", \"Minister Wilders\", etc.\n- Searching for \"Rutte\" will find \"Mark Rutte\", \"Premier Rutte\", \"Minister-president Rutte\", etc.\n- Searching for \"Van der\" will find \"Van der Staaij\", \"Van der Plas\", etc.\n- Searching for a full name also finds the other forms of that name: \"Caroline van der Plas\" finds \"C. van der Plas\" and \"mevrouw Van der Plas\".\n\nNames are matched as written; for a misspelled or uncertain name, use resolve_person first.\n\nThe response includes:\n- Total number of occurrences found\n- For each occurrence:\n  - Line range (e.g., lines 45-47) showing where in the document the name appears\n  - Page number for PDF documents\n  - Character offset in the full document text (can be used with get_document_content)\n  - A brief snippet (preview) of the surrounding text to verify context\n\nParticularly valuable for debate transcripts, committee meetings, and lengthy parliamentary documents where multiple people speak.",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') - the unique identifier for the parliamentary document you want to search in"),
+      personName: z.string().describe("Name or part of a name to search for - can be a first name, last name, or full name. The tool uses fuzzy matching, so partial names work well (e.g., 'Wilders' will find 'Geert Wilders', 'de heer Wilders', etc.)")
+    },
+    async ({ docId, personName }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText, pages } = result;
+
+        // Find person occurrences in the extracted text
+        const occurrences = findPersonOccurrences(extractedText, personName, pages);
+
+        // Return the results with metadata and usage suggestions
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              searchTerm: personName,
+              totalOccurrences: occurrences.length,
+              totalPages: pages.length > 0 ? pages.length : null,
+              occurrences: occurrences,
+              usageInstructions: {
+                nextStep: "Use get_document_content with specific character offsets to retrieve relevant sections",
+                example: `get_document_content({docId: '${docId}', offset: ${occurrences.length > 0 ? occurrences[0]?.characterOffset ?? 0 : 0}})`,
+                note: "Each occurrence includes a characterOffset that you can use with get_document_content to read that specific section"
+              },
+              documentLink: details?.directLinkPdf || null
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error searching for person in document: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Find party occurrences in document */
+  mcp.tool(
+    "find_party_in_document",
+    "Searches for all occurrences of a political party within a parliamentary document and returns their precise locations. This tool efficiently navigates large documents by identifying where specific political parties are mentioned, referenced, or their positions are discussed without loading the entire document.\n\nThe tool uses fuzzy matching with party abbreviations:\n- Searching for \"VVD\" will find \"VVD\", \"de VVD\", \"VVD-fractie\", \"VVD-kamerlid\", etc.\n- Searching for \"PVV\" will find \"PVV\", \"de PVV\", \"PVV-fractie\", \"PVV-kamerlid\", etc.\n- Searching for \"CDA\" will find \"CDA\", \"de CDA\", \"CDA-fractie\", \"CDA-kamerlid\", etc.\n- Searching for \"D66\" will find \"D66\", \"de D66\", \"D66-fractie\", \"D66-kamerlid\", etc.\n\nThe response includes:\n- Total number of occurrences found\n- For each occurrence:\n  - Line range (e.g., lines 45-47) showing where in the document the party appears\n  - Page number for PDF documents\n  - Character offset in the full document text (can be used with get_document_content)\n  - A brief snippet (preview) of the surrounding text to verify context\n\nParticularly valuable for debate transcripts, committee meetings, and lengthy parliamentary documents where multiple parties' positions are discussed.",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') - the unique identifier for the parliamentary document you want to search in"),
+      partyName: z.string().describe("Party abbreviation to search for - can be official party abbreviations like 'VVD', 'PVV', 'CDA', 'D66', 'GroenLinks', 'PvdA', 'SP', etc. The tool uses fuzzy matching, so it will find variations like 'de VVD', 'VVD-fractie', etc.")
+    },
+    async ({ docId, partyName }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText, pages } = result;
+
+        // Find party occurrences in the extracted text
+        const occurrences = findPartyOccurrences(extractedText, partyName, pages);
+
+        // Return the results with metadata and usage suggestions
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              searchTerm: partyName,
+              totalOccurrences: occurrences.length,
+              totalPages: pages.length > 0 ? pages.length : null,
+              occurrences: occurrences,
+              usageInstructions: {
+                nextStep: "Use get_document_content with specific character offsets to retrieve relevant sections",
+                example: `get_document_content({docId: '${docId}', offset: ${occurrences.length > 0 ? occurrences[0]?.characterOffset ?? 0 : 0}})`,
+                note: "Each occurrence includes a characterOffset that you can use with get_document_content to read that specific section"
+              },
+              documentLink: details?.directLinkPdf || null
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error searching for party in document: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Split a debate transcript into speaker turns */
+  mcp.tool(
+    "get_speaker_turns",
+    "Splits a debate transcript (Handelingen of a plenary debate, or the report of a committee debate) into its ordered speaker turns. Each turn has the speaker's name as written in the transcript, their role ('voorzitter', 'minister', 'staatssecretaris', 'kamerlid' or 'overig'), their party when stated, the start and end character offsets, the page it starts on (PDF only), the word count and a short preview.\n\nInterruptions (interrupties) are marked: the speaker given the floor by the chair holds it, and turns by other speakers until the chair gives the floor to someone else have isInterruption set and name the speaker they interrupt in 'interrupting'.\n\nThe offsets are positions in the same text get_document_content returns, and get_document_content centers its excerpt on the offset it is given: read a whole turn with get_document_content({docId, offset: (start + end) / 2, maxLength: end - start}). Use the speaker and party parameters to list only the turns of one speaker or party.",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') of a debate transcript"),
+      speaker: z.string().optional().describe("Only return turns of speakers whose name contains this text, case-insensitively (e.g., 'Wilders' or 'Van der Plas')"),
+      party: z.string().optional().describe("Only return turns of speakers of this party, case-insensitively (e.g., 'PVV')"),
+      page: z.number().optional().describe("Page number for paginated results (default: 1)"),
+      limit: z.number().optional().describe("Maximum number of turns to return per page (default: 50, max: 200)")
+    },
+    async ({ docId, speaker, party, page = 1, limit = 50 }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText, pages } = result;
+        const allTurns = segmentSpeakerTurns(extractedText);
+
+        const speakerFilter = speaker?.trim().toLowerCase();
+        const partyFilter = party?.trim().toLowerCase();
+        const turns = allTurns.filter(turn =>
+          (!speakerFilter || turn.speaker.toLowerCase().includes(speakerFilter)) &&
+          (!partyFilter || (turn.party || '').toLowerCase() === partyFilter));
+
+        // Calculate pagination
+        const validatedLimit = Math.min(Math.max(1, limit), 200);
+        const validatedPage = Math.max(1, page);
+        const totalPages = Math.ceil(turns.length / validatedLimit);
+        const startIndex = (validatedPage - 1) * validatedLimit;
+        const paginatedTurns = turns.slice(startIndex, startIndex + validatedLimit);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              totalTurnsInDocument: allTurns.length,
+              pagination: {
+                speaker: speaker || null,
+                party: party || null,
+                totalResults: turns.length,
+                page: validatedPage,
+                limit: validatedLimit,
+                totalPages,
+                hasNextPage: validatedPage < totalPages,
+                hasPreviousPage: validatedPage > 1
+              },
+              turns: paginatedTurns.map(turn => ({
+                ...turn,
+                page: pageAtOffset(pages, turn.start),
+                preview: extractedText.substring(turn.textStart, Math.min(turn.end, turn.textStart + 120)).replace(/\s+/g, ' ')
+              })),
+              note: allTurns.length === 0
+                ? "No speaker headings such as 'De heer Wilders (PVV):' were found; this document does not look like a debate transcript."
+                : `Read a turn with get_document_content({docId: '${docId}', offset: <(start + end) / 2>, maxLength: <end - start>})`
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error splitting document into speaker turns: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Speaking time per speaker and party in a debate */
+  mcp.tool(
+    "get_debate_statistics",
+    "Reports who spoke how much in a debate transcript (Handelingen of a plenary debate, or the report of a committee debate). Speakers are detected from the speaker headings in the transcript, such as 'De heer Wilders (PVV):', so mentions of a name inside someone else's speech are not counted - unlike find_person_in_document, which finds every mention.\n\nFor each speaker (the chair is reported separately in the totals) the response gives the number of turns, the number of words, the interruptions they made and received, and their share of all speech. For each party the same figures are added up and compared with the party's current number of seats from list_persons: seatShare is the party's share of all seats, wordsPerSeat the words spoken per seat, and speechToSeatRatio the share of speech divided by the share of seats (above 1 means the party spoke more than its size suggests). Ministers and staatssecretarissen are not attributed to a party, because the transcript does not state one for them.",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') of a debate transcript")
+    },
+    async ({ docId }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText } = result;
+        const turns = segmentSpeakerTurns(extractedText);
+
+        // Current seat counts per party, from the members list
+        const persons = turns.length > 0 ? await apiService.getPersons() : [];
+        const seats: Record<string, number> = {};
+        for (const person of persons) {
+          if (person.Fractie) {
+            seats[person.Fractie] = (seats[person.Fractie] || 0) + 1;
+          }
+        }
+
+        const notes: string[] = [];
+        if (turns.length === 0) {
+          notes.push("No speaker headings such as 'De heer Wilders (PVV):' were found; this document does not look like a debate transcript.");
+        } else if (persons.length === 0) {
+          notes.push("The list of members could not be retrieved, so seat counts are not available.");
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              ...computeDebateStatistics(turns, seats),
+              notes
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error computing debate statistics: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Attributed quotes of one person in a debate */
+  mcp.tool(
+    "get_person_quotes",
+    "Returns what a person said in a debate transcript (Handelingen of a plenary debate, or the report of a committee debate) as attributed quotes, ready to cite. Unlike find_person_in_document, which finds every place a name appears, this tool only quotes the turns the person spoke themselves - passages where other speakers mention them are left out.\n\nThe person can be given by name (e.g., 'Van der Plas' or 'Caroline van der Plas') or by MP ID from list_persons (e.g., '1002'); with an MP ID, turns of namesakes from other parties are skipped. Each quote comes from one turn, starts and ends at a sentence boundary, and has the start and end character offsets in the same text get_document_content returns, the page it starts on (PDF only), and whether it interrupts another speaker. Use 'contains' to quote only the turns where the person talks about something, centered on that text.",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') of a debate transcript"),
+      person: z.string().describe("Name of the person (e.g., 'Wilders' or 'Caroline van der Plas') or their MP ID from list_persons (e.g., '1002')"),
+      contains: z.string().optional().describe("Only quote turns containing this text, case-insensitively (e.g., 'ondergrens')"),
+      maxLength: z.number().optional().describe("Maximum length of each quote in characters (default: 600, max: 5000); quotes are cut at sentence boundaries"),
+      limit: z.number().optional().describe("Maximum number of quotes to return (default: 20, max: 100)")
+    },
+    async ({ docId, person, contains, maxLength = 600, limit = 20 }) => {
+      try {
+        // Look up MP IDs so namesakes can be told apart by party
+        let name = person.trim();
+        let party: string | null = null;
+        let personId: number | null = null;
+        if (/^\d+$/.test(name)) {
+          personId = parseInt(name, 10);
+          const mp = await apiService.getPerson(personId);
+          if (!mp?.Fullname) {
+            throw new Error(`No MP found with ID ${personId}`);
+          }
+          name = mp.Fullname;
+          party = mp.Fractie || null;
+        }
+
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText, pages } = result;
+        const turns = segmentSpeakerTurns(extractedText);
+        const personTurns = turns.filter(turn =>
+          speakerMatchesName(turn.speaker, name) &&
+          (!party || !turn.party || turn.party.toLowerCase() === party.toLowerCase()));
+
+        const validatedLimit = Math.min(Math.max(1, limit), 100);
+        const quotes = extractQuotes(extractedText, personTurns, {
+          maxLength: Math.min(Math.max(50, maxLength), 5000),
+          contains
+        });
+
+        // Turns of other speakers that mention the person, which are deliberately not quoted
+        const surname = personTurns[0]?.speaker || name;
+        const mentionsByOthers = turns.filter(turn =>
+          !personTurns.includes(turn) && extractedText.slice(turn.textStart, turn.end).toLowerCase().includes(surname.toLowerCase())).length;
+
+        let note: string;
+        if (turns.length === 0) {
+          note = "No speaker headings such as 'De heer Wilders (PVV):' were found; this document does not look like a debate transcript.";
+        } else if (personTurns.length === 0) {
+          const speakers = Array.from(new Set(turns.filter(turn => turn.role !== 'voorzitter').map(turn => turn.speaker)));
+          note = `${name} does not speak in this document. Speakers: ${speakers.join(', ')}`;
+        } else if (quotes.length === 0) {
+          note = `${name} speaks in this document, but never says '${contains}'`;
+        } else {
+          note = `Read a whole turn with get_speaker_turns({docId: '${docId}', speaker: '${personTurns[0]?.speaker}'})`;
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              person: { query: person, id: personId, name, party },
+              contains: contains || null,
+              turnsBySpeaker: personTurns.length,
+              mentionsByOthers,
+              totalQuotes: quotes.length,
+              quotes: quotes.slice(0, validatedLimit).map(quote => ({
+                ...quote,
+                page: pageAtOffset(pages, quote.start)
+              })),
+              note
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error extracting quotes: ${error.message || 'Unknown error'}`,
+              suggestion: "Check the MP ID with list_persons, and use get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Structured motion text */
+  mcp.tool(
+    "get_motion",
+    "Parses a motie (or amendement) document into its structured parts: the Kamerstuk number (e.g., 'Kamerstuk 35334, nr. 300') and dossier title, the parliamentary year, the date it was proposed, the debate it was submitted in, the 'constaterende dat' / 'overwegende dat' considerations, the dictum (e.g., 'verzoekt de regering, ...') and all indieners (co-signers), first indiener first. For amendementen the proposed change is returned as the dictum together with the toelichting.\n\nWhen the motion has been voted on, the matching voting result from get_voting_results is included with the outcome and the parties that voted for and against. The debate is taken from the document when it says where the motion was submitted (debateSource 'document'); otherwise the dossier title is given (debateSource 'dossier'), since motions are submitted in a debate on their dossier.",
+    {
+      docId: z.string().describe("Document ID of the motion (e.g., '2024D40001'), as found with search_by_category using category 'moties'")
+    },
+    async ({ docId }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText } = result;
+        const motion = parseMotion(extractedText);
+
+        // Link the motion to its vote, when there has been one
+        let votingResult = null;
+        let votingResultsAvailable = true;
+        try {
+          const html = await apiService.fetchHtml("/stemmingen.html");
+          votingResult = findVotingResultForMotion(motion, details?.title || null, extractVotingResultsFromHtml(html, BASE_URL));
+        } catch (error) {
+          votingResultsAvailable = false;
+        }
+
+        const notes: string[] = [];
+        if (motion.kind === 'onbekend') {
+          notes.push("No heading such as 'MOTIE VAN HET LID ...' was found; this document does not look like a motion or amendment.");
+        }
+        if (!votingResultsAvailable) {
+          notes.push("The voting results could not be retrieved, so votingResult is empty.");
+        } else if (!votingResult) {
+          notes.push("No voting result was found for this motion; it may not have been voted on yet, or the vote is no longer among the recent voting results.");
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              ...motion,
+              votingResult,
+              notes
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error parsing motion: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Written questions paired with their answers */
+  mcp.tool(
+    "get_question_answers",
+    "Pairs written parliamentary questions (Kamervragen) with their answers. Given the document with the questions (as found with search_by_category using category 'vragen'), the tool finds the separate answer document (Aanhangsel van de Handelingen / antwoorden) by the zaak number of the questions, splits both documents into numbered questions ('Vraag 1') and answers ('Antwoord 1') and returns them paired by number. An answer document can also be given as docId; it usually repeats the questions.\n\nThe response names who asked and who answered (e.g., 'minister Agema (Volksgezondheid, Welzijn en Sport)'), the subject, and the timing: the date the questions were submitted, the three-week deadline for answering, the date the answers were received, the number of days taken and the number of days past the deadline. When no answer document is found the questions are returned unanswered, with the days elapsed so far.",
+    {
+      docId: z.string().describe("Document ID of the questions (e.g., '2024D41000') or of the answers"),
+      answerDocId: z.string().optional().describe("Document ID of the answers, when known; otherwise it is looked up")
+    },
+    async ({ docId, answerDocId }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText } = result;
+        const parsed = parseKamervragen(extractedText);
+        const notes: string[] = [];
+
+        // The document may itself be the answer document
+        const isAnswerDocument = !answerDocId && (parsed.answers.length > 0 || parsed.answeredBy !== null);
+        let questions = parsed;
+        let answers: ParsedKamervragen | null = isAnswerDocument ? parsed : null;
+        let questionsDocument = isAnswerDocument ? null : { docId, title: details?.title || null, date: details?.datum || null };
+        let answerDocument = isAnswerDocument ? { docId, title: details?.title || null, date: details?.datum || null } : null;
+
+        const queries = [
+          ...(parsed.zaakNummer ? [`"${parsed.zaakNummer}"`] : []),
+          ...(parsed.subject ? [`"${parsed.subject}"`] : [])
+        ];
+
+        if (!isAnswerDocument) {
+          const answerId = answerDocId || (await findRelatedDocument(queries, docId, /antwoord/i))?.id;
+          const answerText = answerId ? await documentTextService.getDocumentText(answerId) : null;
+          if (answerText?.status === 'ok') {
+            answers = parseKamervragen(answerText.text);
+            answerDocument = { docId: answerText.docId, title: answerText.details?.title || null, date: answerText.details?.datum || null };
+          } else if (answerText) {
+            notes.push(`The answer document ${answerId} could not be read (${answerText.status}).`);
+          } else {
+            notes.push("No answer document was found; the questions may not have been answered yet.");
+          }
+        } else {
+          // Look up the questions document for the submission date and the original wording
+          const questionsId = (await findRelatedDocument(queries, docId, /^\s*(?!antwoord)\S.*vragen/i))?.id;
+          const questionsText = questionsId ? await documentTextService.getDocumentText(questionsId) : null;
+          if (questionsText?.status === 'ok') {
+            questions = parseKamervragen(questionsText.text);
+            questionsDocument = { docId: questionsText.docId, title: questionsText.details?.title || null, date: questionsText.details?.datum || null };
+          }
+        }
+
+        const pairs = pairQuestionsAndAnswers(questions, answers);
+        if (pairs.length === 0) {
+          notes.push("No numbered questions ('Vraag 1') were found; this document does not look like written questions or their answers.");
+        } else if (answers && pairs.some(pair => pair.answer === null)) {
+          notes.push("Some questions have no numbered answer; the answers may have been combined.");
+        }
+
+        const submitted = questions.submitted || answers?.submitted || questionsDocument?.date || null;
+        const received = answers ? (answers.received || answerDocument?.date || null) : null;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              zaakNummer: questions.zaakNummer || answers?.zaakNummer || null,
+              questionsDocument,
+              answerDocument,
+              askedBy: questions.askedBy || answers?.askedBy || null,
+              addressedTo: questions.addressedTo || answers?.addressedTo || null,
+              subject: questions.subject || answers?.subject || null,
+              answeredBy: answers?.answeredBy || null,
+              timing: computeAnswerTiming(submitted, received),
+              totalQuestions: pairs.length,
+              pairs,
+              notes
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error pairing questions and answers: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Resolve references to parliamentary papers */
+  mcp.tool(
+    "resolve_reference",
+    "Resolves a reference to a parliamentary paper, as written in documents, news articles or footnotes, to its page on tkconv and on tweedekamer.nl. Accepted forms include Kamerstuk citations ('Kamerstuk 36200-XVI nr. 12', 'Kamerstukken II 2023/24, 36410, nr. 5'), Handelingen items ('Handelingen II 2023/24, nr. 45, item 12'), official identifiers ('kst-36410-5', 'h-tk-20232024-45-12', also inside officielebekendmakingen.nl links), document numbers ('2024D39058'), zaak numbers ('2024Z01234') and activity numbers ('2024A01234').\n\nThe response gives the normalized reference and one of three statuses: 'resolved' with the tkconv URL, the tweedekamer.nl URL and, for documents, the title, type and date; 'ambiguous' when the reference names a whole dossier, a whole meeting or several documents, with each possible reading resolved as a candidate; or 'unrecognized' / 'unresolvable' with the reason. Use get_document_content with the resolved document number to read the document.",
+    {
+      reference: z.string().describe("Reference to resolve, e.g. 'Kamerstuk 36200-XVI nr. 12', 'kst-36410-5', '2024D39058' or '2024Z01234'")
+    },
+    async ({ reference }) => {
+      try {
+        const parsed = parseReference(reference);
+
+        let body: Record<string, unknown>;
+        if (parsed.status === 'unrecognized') {
+          body = { input: reference, status: 'unrecognized', reason: parsed.reason };
+        } else if (parsed.status === 'ambiguous') {
+          // Resolve each reading one at a time, so the candidates can be compared
+          const candidates = [];
+          for (const candidate of parsed.candidates.slice(0, 10)) {
+            candidates.push(await resolveParsedReference(candidate));
+          }
+          body = {
+            input: reference,
+            status: 'ambiguous',
+            reason: parsed.reason,
+            totalCandidates: parsed.candidates.length,
+            candidates
+          };
+        } else {
+          body = { input: reference, ...await resolveParsedReference(parsed.reference) };
+        }
+
+        return { content: [{ type: "text", text: JSON.stringify(body, null, 2) }] };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error resolving reference: ${error.message || 'Unknown error'}`,
+              suggestion: "Try searching for the reference with search_tk instead."
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Citations of other papers, laws and rulings in a document */
+  mcp.tool(
+    "extract_citations",
+    "Finds the citations in a parliamentary document, so you can follow the paper trail: Kamerstukken ('Kamerstukken II 2023/24, 36200-XVI, nr. 12', 'kst-36410-5'), Handelingen ('Handelingen II 2023/24, nr. 45, item 12'), motions and amendments ('motie-Van der Plas c.s. (36200, nr. 12)'), laws and articles ('artikel 2, eerste lid, van de Wet natuurbescherming', 'Omgevingswet'), court rulings ('ECLI:NL:RVS:2019:1603') and document, zaak and activity numbers ('2024D39058').\n\nEach citation is returned as written, with its character offsets and PDF page, its normalized form and the references that resolve_reference understands; rulings get a link to uitspraken.rechtspraak.nl. With resolve set to true the cited parliamentary papers are also resolved to their tkconv and tweedekamer.nl pages (the first 20 distinct references). Read the text around a citation with get_document_content using its start offset.",
+    {
+      docId: z.string().describe("Document ID to extract citations from (e.g., '2024D39058')"),
+      type: z.enum(['kamerstuk', 'handelingen', 'motie', 'amendement', 'wet', 'ecli', 'document']).optional().describe("Only return citations of this type"),
+      resolve: z.boolean().optional().describe("Resolve the cited parliamentary papers to their tkconv and tweedekamer.nl pages (default: false)"),
+      limit: z.number().optional().describe("Maximum number of citations to return (default: 100)")
+    },
+    async ({ docId, type, resolve, limit }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText, pages } = result;
+        const allCitations = extractCitations(extractedText);
+        const citations = type ? allCitations.filter(citation => citation.type === type) : allCitations;
+        const validatedLimit = Math.max(1, Math.min(limit || 100, 500));
+        const returned = citations.slice(0, validatedLimit);
+
+        const byType: Record<string, number> = {};
+        for (const citation of allCitations) {
+          byType[citation.type] = (byType[citation.type] || 0) + 1;
+        }
+
+        // Resolve each distinct reference once, one at a time
+        const resolved = new Map<string, Awaited<ReturnType<typeof resolveParsedReference>>>();
+        let unresolvedReferences = false;
+        if (resolve) {
+          for (const citation of returned) {
+            for (const reference of citation.references) {
+              if (!reference.id || resolved.has(reference.id)) {
+                continue;
+              }
+              if (resolved.size >= MAX_RESOLVED_CITATIONS) {
+                unresolvedReferences = true;
+                continue;
+              }
+              resolved.set(reference.id, await resolveParsedReference(reference));
+            }
+          }
+        }
+
+        const notes: string[] = [];
+        if (citations.length > returned.length) {
+          notes.push(`Showing ${returned.length} of ${citations.length} citations; raise limit or filter by type to see more.`);
+        }
+        if (unresolvedReferences) {
+          notes.push(`Only the first ${MAX_RESOLVED_CITATIONS} distinct references were resolved; use resolve_reference for the others.`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+              totalCitations: citations.length,
+              byType,
+              citations: returned.map(citation => ({
+                ...citation,
+                page: pageAtOffset(pages, citation.start),
+                ...(resolve ? {
+                  resolved: citation.references
+                    .map(reference => reference.id ? resolved.get(reference.id) : undefined)
+                    .filter(entry => entry !== undefined)
+                } : {})
+              })),
+              notes
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error extracting citations: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /** Analyze document relevance */
+  mcp.tool(
+    "analyze_document_relevance",
+    "Performs intelligent pre-analysis of a parliamentary document to determine its relevance WITHOUT loading the full content into your context window. This is a lightweight reconnaissance tool that extracts key information about a document's content before you commit to reading the full text. Use this to efficiently assess whether a document is worth reading in detail, especially when you're uncertain about relevance or need to triage multiple documents.\n\n" +
+    "WHAT THIS TOOL RETURNS:\n" +
+    "- **Keywords**: Top 10-15 most important terms extracted via TF-IDF analysis, revealing the document's main subjects (e.g., 'klimaat', 'belasting', 'migratie', 'gezondheidszorg')\n" +
+    "- **Named Entities**: Structured lists of people mentioned (MPs, ministers, officials), political parties (VVD, PVV, CDA, D66, GroenLinks, etc.), and organizations\n" +
+    "- **Statistics**: Document length (character count, word count), estimated reading time, and structural information about the document format\n" +
+    "- **Preview**: The first ~500 characters of the document for immediate context\n" +
+    "- **Topics**: Main themes and subject areas identified through content analysis\n" +
+    "- **Citations**: The most cited Kamerstukken, motions, laws and rulings with their citation counts (extract_citations lists every citation with its position)\n" +
+    "- **Relevance Score** (optional): If you provide the searchTerms parameter, returns a 0-100 score indicating how well the document matches those specific terms, helping you rank multiple documents by relevance\n\n" +
+    "WHEN TO USE THIS TOOL:\n" +
+    "- When you need to understand what a document is about before reading it in full\n" +
+    "- When you have multiple candidate documents and need to determine which ones are most relevant\n" +
+    "- When you want to verify a document contains specific topics or entities before loading its full content\n" +
+    "- When context window efficiency is important and you want to avoid loading large documents that may not be relevant\n" +
+    "- When a user asks about document content but you're uncertain if it matches their query\n" +
+    "- When you need to filter or triage search results before committing to detailed reading\n\n" +
+    "WHEN NOT TO USE THIS TOOL:\n" +
+    "- When the user explicitly requests the full content or specific quotes from a document\n" +
+    "- When you already have high confidence the document is relevant and need to read it anyway\n" +
+    "- When you specifically need to locate where a person appears in a document (find_person_in_document is optimized for this)\n" +
+    "- When you only need structural metadata like title, date, and links\n\n" +
+    "RELATIONSHIP TO OTHER DOCUMENT TOOLS:\n" +
+    "- **get_document_content**: This analysis tool is lighter weight (~1-2KB) compared to reading full documents (10-50KB). Both tools access document content but serve different purposes: analysis for triage and overview, get_document_content for detailed reading.\n" +
+    "- **find_person_in_document**: The analysis tool identifies IF a person is mentioned; find_person_in_document locates WHERE they appear with character offsets. Analysis provides presence information, find_person provides location information.\n" +
+    "- **get_document_details**: Details provides structural metadata (title, type, date, links); this tool provides content intelligence (keywords, entities, topics). They offer complementary information about documents.\n" +
+    "- **search_tk/search_tk_filtered**: Search identifies candidate documents; this tool provides detailed content analysis of those candidates.\n\n" +
+    "CONTEXT WINDOW EFFICIENCY:\n" +
+    "This tool returns approximately 1-2KB of analysis data versus 10-50KB for reading full documents. Using this tool before get_document_content can reduce context usage by 80-90% when documents turn out to be irrelevant. It's particularly valuable when evaluating multiple documents or when a user's query is exploratory rather than specific.\n\n" +
+    "The searchTerms parameter is powerful for ranking documents by relevance: when provided, it calculates a 0-100 relevance score based on how well the document matches your search terms, allowing you to objectively compare multiple documents before deciding which to read in full.",
+    {
+      docId: z.string().describe("Document ID (e.g., '2024D39058') - the unique identifier for the parliamentary document you want to analyze"),
+      searchTerms: z.array(z.string()).optional().describe("Optional: Array of terms or phrases to check relevance against (e.g., ['climate', 'energy', 'klimaat']). When provided, the tool calculates a relevance score (0-100) indicating how well the document matches these terms. Useful for comparing and ranking multiple documents.")
+    },
+    async ({ docId, searchTerms }) => {
+      try {
+        // Download and extract the document text (memoized per document version)
+        const result = await documentTextService.getDocumentText(docId);
+        if (result.status !== 'ok') {
+          return documentUnavailableResponse(result);
+        }
+
+        const { details, documentLink, documentType, text: extractedText } = result;
+
+        // Analyze the document content
+        const analysis = await analyzeDocumentContent(extractedText, searchTerms);
+
+        // Return the analysis results with metadata
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              docId,
+              title: details?.title || "Unknown title",
+              type: details?.type || "Unknown type",
+              date: details?.datum || "Unknown date",
+              documentFormat: documentType,
+              cache: result.cache,
+              upstream: apiService.getUpstreamStatus(`/${documentLink}`, { cacheVariant: details?.versie }),
+
+              // Analysis results
+              keywords: analysis.keywords,
+              entities: analysis.entities,
+              statistics: analysis.statistics,
+              topics: analysis.topics,
+              citations: analysis.citations,
+              relevanceScore: analysis.relevanceScore,
+              preview: analysis.preview,
+
+              // Usage instructions
+              nextSteps: analysis.relevanceScore && analysis.relevanceScore > 60
+                ? "This document appears highly relevant. Consider using get_document_content or find_person_in_document to read specific sections."
+                : analysis.relevanceScore && analysis.relevanceScore > 30
+                ? "This document has moderate relevance. Review the keywords and entities to decide if it's worth reading in detail."
+                : searchTerms && searchTerms.length > 0
+                ? "This document has low relevance to your search terms. Consider analyzing other documents first."
+                : "Review the keywords, entities, and topics to determine if this document is relevant to your needs.",
+
+              documentLink: details?.directLinkPdf || null
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Error analyzing document: ${error.message || 'Unknown error'}`,
+              suggestion: "Try using get_document_details to verify the document exists and is accessible.",
+              documentLink: `${BASE_URL}/document.html?nummer=${encodeURIComponent(docId)}`
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  return mcp;
+}
@@ -1,5 +1,40 @@
-import { BASE_URL } from '../config.js';
-import { extractOverviewFromHtml } from '../utils/html-parser.js';
+import {
+  BASE_URL,
+  USER_AGENT,
+  EXTRA_HEADERS,
+  normalizeBaseUrl,
+  CACHE_ENABLED,
+  CACHE_DIR,
+  CACHE_MAX_ENTRIES,
+  CACHE_MAX_BYTES,
+  CACHE_TTL_RULES,
+  CACHE_DEFAULT_TTL_SECONDS,
+  REQUEST_TIMEOUT_MS,
+  RETRY_COUNT,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_COOLDOWN_MS,
+  RATE_LIMIT_PER_SECOND,
+  RATE_LIMIT_BURST,
+  MAX_CONCURRENT_REQUESTS,
+  FIXTURE_MODE,
+  FIXTURE_DIR
+} from '../config.js';
+import { extractOverviewFromHtml, extractPersonProfileFromHtml, personNameFields, PersonProfile } from '../utils/html-parser.js';
+import { ResponseCache, CacheEntry, CacheStatus, describeCacheEntry } from './cache.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitState,
+  RetryOptions,
+  isRetryableStatus,
+  parseRetryAfter,
+  backoffDelay,
+  sleep
+} from './resilience.js';
+import { RequestGovernor, RateLimitOptions, ThrottleStatus } from './rate-limiter.js';
+import { FixtureStore, FixtureMode, FixtureRequest, canonicalRequestBody } from './fixtures.js';
 import https from 'https';
 
 /**
@@ -9,10 +44,166 @@ interface NodeRequestInit extends RequestInit {
   agent?: https.Agent;
 }
 
+/**
+ * Request options accepted by the fetch methods, adding cache controls to RequestInit
+ */
+export interface ApiRequestOptions extends RequestInit {
+  /** Distinguishes cache entries for the same path, such as a document version */
+  cacheVariant?: string | number | null;
+  /** Skips the cache lookup and always fetches from the network */
+  noCache?: boolean;
+}
+
+/**
+ * Options for constructing an ApiService
+ */
+export interface ApiServiceOptions {
+  /** Response cache to use; null disables caching */
+  cache?: ResponseCache | null;
+  /** tkconv instance to talk to, such as a self-hosted mirror */
+  baseUrl?: string;
+  /** User agent for all requests; each request type has its own default when unset */
+  userAgent?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Timeout for a single attempt in milliseconds, including reading the body */
+  timeoutMs?: number;
+  /** Retry settings; unset fields use the configured defaults */
+  retry?: Partial<RetryOptions>;
+  /** Circuit breaker settings; unset fields use the configured defaults */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Rate limit and concurrency settings; unset fields use the configured defaults */
+  rateLimit?: Partial<RateLimitOptions>;
+  /** Records upstream responses to, or replays them from, a fixture directory */
+  fixtures?: { mode: FixtureMode, directory: string };
+}
+
+/**
+ * Options for the tkconv search endpoint
+ */
+export interface SearchOptions {
+  /** Only search the last two months */
+  twomonths?: boolean;
+  /** Document kinds to search: 'alles' (default), 'moties' or 'vragen' */
+  soorten?: string;
+}
+
+/**
+ * A search hit with its fields normalized
+ */
+export interface SearchResult {
+  id: string;
+  title: string;
+  /** 'Document', 'Activiteit', 'Zaak', or 'unknown' when it cannot be told */
+  category: string;
+  /** Document type such as 'Motie' or 'Brief regering' */
+  soort: string | null;
+  /** Date as returned by tkconv (YYYY-MM-DDT00:00:00) */
+  datum: string | null;
+  year: number | null;
+  /** Document number, for documents */
+  nummer: string | null;
+  /** Number of the zaak the hit is or belongs to */
+  zaakNummer: string | null;
+  url: string;
+  zaakUrl: string | null;
+  /** Matching text as plain text */
+  snippet: string | null;
+  /** Terms tkconv highlighted in the snippet */
+  highlights: string[];
+  score: number | null;
+}
+
+/**
+ * Hit counts over a full result set
+ */
+export interface SearchFacets {
+  category: Record<string, number>;
+  soort: Record<string, number>;
+  year: Record<string, number>;
+}
+
+/**
+ * Normalized search results with facets over all of them
+ */
+export interface SearchResponse {
+  results: SearchResult[];
+  facets: SearchFacets;
+  /** How the raw results were served */
+  cache: CacheStatus;
+  error?: string;
+}
+
+/**
+ * A fully buffered upstream response
+ */
+interface UpstreamResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: Buffer;
+}
+
+// Default user agents for page/file requests and for the search endpoint
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; OpenTK-MCP/1.0)';
+const DEFAULT_SEARCH_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36';
+
+// Maximum number of throttle statuses remembered for reporting
+const MAX_TRACKED_STATUSES = 1000;
+
 /**
  * Service for interacting with the tkconv API
  */
 export class ApiService {
+  readonly baseUrl: string;
+  private userAgent: string;
+  private extraHeaders: Record<string, string>;
+  private cache: ResponseCache | null;
+  private timeoutMs: number;
+  private retryOptions: RetryOptions;
+  private circuitBreaker: CircuitBreaker;
+  private governor: RequestGovernor;
+  private upstreamHost: string;
+  private throttleStatuses = new Map<string, { waitMs: number, queuedAhead: number }>();
+  private fixtureMode: FixtureMode;
+  private fixtures: FixtureStore | null;
+
+  constructor(options: ApiServiceOptions = {}) {
+    this.baseUrl = options.baseUrl ? normalizeBaseUrl(options.baseUrl) : BASE_URL;
+    this.userAgent = options.userAgent ?? USER_AGENT;
+    this.extraHeaders = options.headers ?? EXTRA_HEADERS;
+    this.timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+    this.retryOptions = {
+      retries: RETRY_COUNT,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      ...options.retry
+    };
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: CIRCUIT_COOLDOWN_MS,
+      ...options.circuitBreaker
+    });
+    this.governor = new RequestGovernor({
+      requestsPerSecond: RATE_LIMIT_PER_SECOND,
+      burst: RATE_LIMIT_BURST,
+      maxConcurrent: MAX_CONCURRENT_REQUESTS,
+      ...options.rateLimit
+    });
+    this.upstreamHost = new URL(this.baseUrl).host;
+
+    const fixtures = options.fixtures ?? { mode: FIXTURE_MODE, directory: FIXTURE_DIR };
+    this.fixtureMode = fixtures.mode;
+    this.fixtures = fixtures.mode !== 'off' ? new FixtureStore(fixtures.directory) : null;
+
+    this.cache = options.cache !== undefined
+      ? options.cache
+      : CACHE_ENABLED
+        ? new ResponseCache({ directory: CACHE_DIR || undefined, maxEntries: CACHE_MAX_ENTRIES, maxBytes: CACHE_MAX_BYTES })
+        : null;
+  }
+
   /**
    * Static HTTPS agent for connection pooling
    * Reuses connections across requests for better performance
@@ -37,22 +228,18 @@ export class ApiService {
       const normalizedPath = path.startsWith('/') ? path : `/${path}`;
 
       // Set default headers if not provided
-      const headers = {
-        'User-Agent': 'Mozilla/5.0 (compatible; OpenTK-MCP/1.0)',
-        ...options.headers
-      };
+      const headers = this.requestHeaders(options.headers);
 
-      const res = await fetch(`${BASE_URL}${normalizedPath}`, {
+      const res = await this.request(`${this.baseUrl}${normalizedPath}`, {
         ...options,
-        headers,
-        agent: ApiService.agent
-      } as NodeRequestInit);
+        headers
+      });
 
       if (!res.ok) {
         throw new Error(`API error: ${res.status} ${res.statusText}`);
       }
 
-      const text = await res.text();
+      const text = res.body.toString('utf8');
 
       // Check if the response is HTML
       if (text.trim().startsWith('<!DOCTYPE')) {
@@ -77,28 +264,45 @@ export class ApiService {
    * @returns HTML content as string
    * @throws Error if the request fails
    */
-  async fetchHtml(path: string, options: RequestInit = {}): Promise<string> {
+  async fetchHtml(path: string, options: ApiRequestOptions = {}): Promise<string> {
+    return (await this.fetchHtmlWithStatus(path, options)).html;
+  }
+
+  /**
+   * Fetches HTML content from the API and reports how it was served
+   * @param path The API path to fetch
+   * @param options Additional fetch options
+   * @returns HTML content as string and the cache status of this request
+   * @throws Error if the request fails
+   */
+  async fetchHtmlWithStatus(path: string, options: ApiRequestOptions = {}): Promise<{ html: string, cache: CacheStatus }> {
     try {
       // Ensure the path starts with a slash
       const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+      const { cacheVariant, noCache, ...init } = options;
+
+      // Serve from the cache when a fresh copy is available
+      const cacheKey = this.cacheKey(normalizedPath, cacheVariant);
+      const cached = await this.readCacheEntry(cacheKey, isCacheableRequest(init), noCache);
+      if (cached.entry) {
+        return { html: cached.entry.body.toString('utf8'), cache: cached.status };
+      }
 
       // Set default headers if not provided
-      const headers = {
-        'User-Agent': 'Mozilla/5.0 (compatible; OpenTK-MCP/1.0)',
-        ...options.headers
-      };
+      const headers = this.requestHeaders(init.headers);
 
-      const res = await fetch(`${BASE_URL}${normalizedPath}`, {
-        ...options,
-        headers,
-        agent: ApiService.agent
-      } as NodeRequestInit);
+      const res = await this.request(`${this.baseUrl}${normalizedPath}`, {
+        ...init,
+        headers
+      }, cacheKey);
 
       if (!res.ok) {
         throw new Error(`API error: ${res.status} ${res.statusText}`);
       }
 
-      return await res.text();
+      const cache = await this.writeCache(cacheKey, normalizedPath, res.body, res.headers.get('content-type') || 'text/html', isCacheableRequest(init)) ?? cached.status;
+
+      return { html: res.body.toString('utf8'), cache };
     } catch (error) {
       throw error;
     }
@@ -111,31 +315,47 @@ export class ApiService {
    * @returns Binary data as ArrayBuffer and content type
    * @throws Error if the request fails
    */
-  async fetchBinary(path: string, options: RequestInit = {}): Promise<{ data: ArrayBuffer, contentType: string }> {
+  async fetchBinary(path: string, options: ApiRequestOptions = {}): Promise<{ data: ArrayBuffer, contentType: string }> {
+    const { data, contentType } = await this.fetchBinaryWithStatus(path, options);
+    return { data, contentType };
+  }
+
+  /**
+   * Fetches binary data from the API and reports how it was served
+   * @param path The API path to fetch
+   * @param options Additional fetch options
+   * @returns Binary data as ArrayBuffer, content type and the cache status of this request
+   * @throws Error if the request fails
+   */
+  async fetchBinaryWithStatus(path: string, options: ApiRequestOptions = {}): Promise<{ data: ArrayBuffer, contentType: string, cache: CacheStatus }> {
     try {
       // Ensure the path starts with a slash
       const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+      const { cacheVariant, noCache, ...init } = options;
+
+      // Serve from the cache when a fresh copy is available
+      const cacheKey = this.cacheKey(normalizedPath, cacheVariant);
+      const cached = await this.readCacheEntry(cacheKey, isCacheableRequest(init), noCache);
+      if (cached.entry) {
+        return { data: toArrayBuffer(cached.entry.body), contentType: cached.entry.contentType, cache: cached.status };
+      }
 
       // Set default headers if not provided
-      const headers = {
-        'User-Agent': 'Mozilla/5.0 (compatible; OpenTK-MCP/1.0)',
-        ...options.headers
-      };
+      const headers = this.requestHeaders(init.headers);
 
-      const res = await fetch(`${BASE_URL}${normalizedPath}`, {
-        ...options,
-        headers,
-        agent: ApiService.agent
-      } as NodeRequestInit);
+      const res = await this.request(`${this.baseUrl}${normalizedPath}`, {
+        ...init,
+        headers
+      }, cacheKey);
 
       if (!res.ok) {
         throw new Error(`API error: ${res.status} ${res.statusText}`);
       }
 
-      const data = await res.arrayBuffer();
       const contentType = res.headers.get('content-type') || 'application/octet-stream';
+      const cache = await this.writeCache(cacheKey, normalizedPath, res.body, contentType, isCacheableRequest(init)) ?? cached.status;
 
-      return { data, contentType };
+      return { data: toArrayBuffer(res.body), contentType, cache };
     } catch (error) {
       throw error;
     }
@@ -148,137 +368,73 @@ export class ApiService {
    * @returns Search results
    * @throws Error if the request fails or returns HTML
    */
-  async search<T>(query: string, options: { twomonths?: boolean, soorten?: string } = {}): Promise<T> {
+  async search<T>(query: string, options: SearchOptions = {}): Promise<T> {
+    return (await this.searchWithStatus<T>(query, options)).data;
+  }
+
+  /**
+   * Searches for documents in the tkconv API and reports how the results were served
+   * @param query The search query
+   * @param options Additional options like twomonths flag
+   * @returns Search results and the cache status of this search
+   * @throws Error if the request fails or returns HTML
+   */
+  async searchWithStatus<T>(query: string, options: SearchOptions = {}): Promise<{ data: T, cache: CacheStatus }> {
     try {
       // Don't sanitize quotes as they're important for exact phrase searches
       // Only sanitize backslashes which could cause issues
       const sanitizedQuery = query.replace(/\\/g, ' ').trim();
 
+      // Serve from the cache when the same search was done recently
+      const cacheKey = this.searchCacheKey(sanitizedQuery, options);
+      const cached = await this.readCacheEntry(cacheKey, true);
+      if (cached.entry) {
+        return { data: JSON.parse(cached.entry.body.toString('utf8')) as T, cache: cached.status };
+      }
+      const cache = cached.status;
+
       // Use FormData for multipart/form-data
       const formData = new FormData();
       formData.append('q', sanitizedQuery);
       formData.append('twomonths', options.twomonths ? "true" : "false");
       formData.append('soorten', options.soorten || "alles"); // Default to 'alles'
 
-      const res = await fetch(`${BASE_URL}/search`, {
+      const res = await this.request(`${this.baseUrl}/search`, {
         method: "POST",
-        headers: {
-          // Remove explicit Content-Type, fetch will set it for FormData
-          'Accept': '*/*',
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-          'Referer': `${BASE_URL}/search.html?q=${encodeURIComponent(sanitizedQuery)}&twomonths=${options.twomonths ? "true" : "false"}&soorten=${options.soorten || "alles"}`,
-          'Origin': BASE_URL,
-          'Host': 'berthub.eu',
-          'Connection': 'keep-alive',
-          'Sec-Fetch-Dest': 'empty',
-          'Sec-Fetch-Mode': 'cors',
-          'Sec-Fetch-Site': 'same-origin',
-          'sec-ch-ua': '"Chromium";v="135", "Not-A.Brand";v="8"',
-          'sec-ch-ua-mobile': '?0',
-          'sec-ch-ua-platform': '"macOS"'
-        },
-        body: formData, // Pass FormData object directly
-        agent: ApiService.agent
-      } as NodeRequestInit);
+        headers: this.searchHeaders(sanitizedQuery, options),
+        body: formData // Pass FormData object directly
+      }, cacheKey);
 
       if (!res.ok) {
-        // If we get a 500 error, try to use a simplified query instead
-        if (res.status === 500) {
-          // API returned 500 error - let's investigate before simplifying
-          let actualErrorContent = await res.text().catch(() => "Could not read error response body");
-          let errorMessage = `Initial request failed with 500: ${res.statusText}. Response: ${actualErrorContent.substring(0, 200)}...`; // Limit length
-
-          // Optional: Try simplifying only if the error content suggests it,
-          // otherwise, maybe just report the initial 500 error.
-          // For now, we'll still try simplifying but provide better final message.
-
-          const simplifiedQuery = sanitizedQuery.split(/\\s+/)[0];
-
-          // Initialize retry error message
-          let retryErrorMessage = "Simplification/Retry not attempted or failed.";
-
-          if (simplifiedQuery && simplifiedQuery !== sanitizedQuery) {
-            // Retry with simplified query
-
-            // Use FormData for the retry as well
-            const simplifiedFormData = new FormData();
-            simplifiedFormData.append('q', simplifiedQuery);
-            simplifiedFormData.append('twomonths', options.twomonths ? "true" : "false");
-            simplifiedFormData.append('soorten', options.soorten || "alles"); // Default to 'alles'
-
-            try {
-              const retryRes = await fetch(`${BASE_URL}/search`, {
-                method: "POST",
-                headers: { // Use same headers as initial, without Content-Type
-                  'Accept': '*/*',
-                  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-                  'Referer': `${BASE_URL}/search.html?q=${encodeURIComponent(simplifiedQuery)}&twomonths=${options.twomonths ? "true" : "false"}&soorten=${options.soorten || "alles"}`,
-                  'Origin': BASE_URL,
-                  'Host': 'berthub.eu',
-                  'Connection': 'keep-alive',
-                  'Sec-Fetch-Dest': 'empty',
-                  'Sec-Fetch-Mode': 'cors',
-                  'Sec-Fetch-Site': 'same-origin',
-                  'sec-ch-ua': '"Chromium";v="135", "Not-A.Brand";v="8"',
-                  'sec-ch-ua-mobile': '?0',
-                  'sec-ch-ua-platform': '"macOS"'
-                },
-                body: simplifiedFormData, // Pass FormData object
-                agent: ApiService.agent
-              } as NodeRequestInit);
-
-              if (retryRes.ok) {
-                const retryText = await retryRes.text();
-                // Check for HTML in retry response too
-                if (retryText.trim().startsWith('<!DOCTYPE')) {
-                   retryErrorMessage = "Retry attempt returned HTML instead of JSON.";
-                } else {
-                  try {
-                    const retryData = JSON.parse(retryText);
-                    // Return only the parsed data, matching the expected type T
-                    return retryData as T;
-                  } catch (e) {
-                    retryErrorMessage = `Retry succeeded but failed to parse JSON response: ${e instanceof Error ? e.message : String(e)}. Response: ${retryText.substring(0, 200)}...`;
-                  }
-                }
-              } else {
-                // Capture retry failure details
-                const retryErrorBody = await retryRes.text().catch(() => "Could not read retry error body");
-                retryErrorMessage = `Retry with simplified query failed with status: ${retryRes.status} ${retryRes.statusText}. Response: ${retryErrorBody.substring(0, 200)}...`;
-              }
-            } catch (retryFetchError) {
-                 retryErrorMessage = `Fetch error during retry attempt: ${retryFetchError instanceof Error ? retryFetchError.message : String(retryFetchError)}`;
-            }
-          } else {
-             retryErrorMessage = "Original query was already simple; retry not attempted.";
-          }
+        const errorBody = res.body.toString('utf8');
 
-          // If retry failed or wasn't applicable, return empty results with a more informative error
-          // Combine initial error reason and retry outcome.
-          const finalErrorMessage = `Search failed for query '${sanitizedQuery}'. Initial error: ${res.status} ${res.statusText}. ${retryErrorMessage}`;
+        // Server errors have already been retried; report them alongside an empty result set
+        if (res.status >= 500) {
           return {
-            results: [],
-            error: finalErrorMessage
-          } as T;
+            data: {
+              results: [],
+              error: `Search failed for query '${sanitizedQuery}' after ${this.retryOptions.retries + 1} attempts: ${res.status} ${res.statusText}. Response: ${errorBody.substring(0, 200)}...`
+            } as T,
+            cache
+          };
         }
-        // Handle non-500 errors
-        const errorBody = await res.text().catch(() => "Could not read error response body");
         throw new Error(`API error: ${res.status} ${res.statusText}. Response: ${errorBody.substring(0, 200)}...`);
       }
 
       // Check if the response is HTML
-      const text = await res.text();
+      const text = res.body.toString('utf8');
       if (text.trim().startsWith('<!DOCTYPE')) {
         // The API returned HTML instead of JSON
-        return { results: [] } as T;
+        return { data: { results: [] } as T, cache };
       }
 
       // Parse JSON
       try {
-        return JSON.parse(text) as T;
+        const parsed = JSON.parse(text) as T;
+        return { data: parsed, cache: await this.writeCache(cacheKey, '/search', res.body, 'application/json', true) ?? cache };
       } catch (error) {
         // Failed to parse JSON
-        return { results: [] } as T;
+        return { data: { results: [] } as T, cache };
       }
     } catch (error) {
       // Unexpected error in search
@@ -286,6 +442,27 @@ export class ApiService {
     }
   }
 
+  /**
+   * Searches tkconv and normalizes the hits into SearchResult objects
+   * @param query The search query
+   * @param options Search options such as twomonths and soorten
+   * @returns Normalized results, facets over all results, and the error for failed searches
+   * @throws Error if the request fails with a client error
+   */
+  async searchResults(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const { data, cache } = await this.searchWithStatus<{ results?: unknown[], error?: string }>(query, options);
+    const results = (Array.isArray(data.results) ? data.results : [])
+      .filter((raw): raw is Record<string, unknown> => typeof raw === 'object' && raw !== null)
+      .map(raw => normalizeSearchResult(raw, this.baseUrl));
+
+    return {
+      results,
+      facets: computeSearchFacets(results),
+      cache,
+      ...(data.error ? { error: data.error } : {})
+    };
+  }
+
   /**
    * Resolves an external reference to a URL
    * @param extId The external ID to resolve
@@ -298,20 +475,17 @@ export class ApiService {
 
       // First try the direct approach with the /op/ endpoint
       try {
-        const res = await fetch(`${BASE_URL}/op/${encodeURIComponent(sanitizedExtId)}`, {
+        const res = await this.request(`${this.baseUrl}/op/${encodeURIComponent(sanitizedExtId)}`, {
           redirect: "manual",
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; OpenTK-MCP/1.0)'
-          },
-          agent: ApiService.agent
-        } as NodeRequestInit);
+          headers: this.requestHeaders()
+        });
 
         // Even if the response is not OK, we still want to check for a location header
         const location = res.headers.get("location") || "";
 
         // If we didn't get a location header but the response was OK, try to extract from body
         if (!location && res.ok) {
-          const text = await res.text();
+          const text = res.body.toString('utf8');
           // Look for a redirect URL in the response body (simple heuristic)
           const match = text.match(/window\.location\s*=\s*['"]([^'"]+)['"]/);
           if (match && match[1]) {
@@ -346,10 +520,10 @@ export class ApiService {
       }
 
       // If all else fails, construct a link to the document page
-      return `${BASE_URL}/document.html?nummer=${encodeURIComponent(sanitizedExtId)}`;
+      return `${this.baseUrl}/document.html?nummer=${encodeURIComponent(sanitizedExtId)}`;
     } catch (error) {
       // Return a fallback URL to the document page
-      return `${BASE_URL}/document.html?nummer=${encodeURIComponent(extId)}`;
+      return `${this.baseUrl}/document.html?nummer=${encodeURIComponent(extId)}`;
     }
   }
 
@@ -363,13 +537,9 @@ export class ApiService {
       // Sanitize the path
       const sanitizedPath = path.replace(/[\s]+/g, ' ').trim();
 
-      const res = await fetch(`${BASE_URL}/${sanitizedPath}`, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; OpenTK-MCP/1.0)'
-        },
-        agent: ApiService.agent
-        // We would add timeout here, but it's not supported in the RequestInit type
-      } as NodeRequestInit);
+      const res = await this.request(`${this.baseUrl}/${sanitizedPath}`, {
+        headers: this.requestHeaders()
+      });
 
       if (!res.ok) {
         // For 404 errors, return an empty array instead of failing
@@ -379,7 +549,7 @@ export class ApiService {
         throw new Error(`API error: ${res.status} ${res.statusText}`);
       }
 
-      const text = await res.text();
+      const text = res.body.toString('utf8');
 
       // Check if the response is HTML (which would be an error for a sitemap)
       if (text.trim().startsWith('<!DOCTYPE')) {
@@ -391,6 +561,106 @@ export class ApiService {
       throw error;
     }
   }
+
+  /**
+   * Reports the state of the upstream circuit breaker
+   * @returns Whether requests are currently sent or failing fast
+   */
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker.getState();
+  }
+
+  /**
+   * Sends a request upstream with a per-attempt timeout, retries and the circuit breaker
+   * Timeouts, network errors and 408/429/5xx responses are retried with jittered exponential backoff,
+   * honouring Retry-After; the body is read within the timeout so a stalled transfer is aborted too.
+   * Each attempt first waits for the rate limiter and a free slot; that wait does not count toward the timeout.
+   * In record mode the final response is saved as a fixture; in replay mode fixtures are served without network access
+   * @param url The absolute URL to request
+   * @param init Fetch options
+   * @param statusKey Key under which the time spent throttled is recorded for reporting
+   * @returns The buffered response, which may have a non-OK status
+   * @throws Error if the circuit is open, if every attempt timed out or failed on the network,
+   * or if no fixture was recorded for the request in replay mode
+   */
+  private async request(url: string, init: RequestInit, statusKey: string = url): Promise<UpstreamResponse> {
+    const fixture = this.fixtureRequest(url, init);
+    if (this.fixtureMode === 'replay' && this.fixtures) {
+      const recorded = await this.fixtures.load(fixture);
+      if (!recorded) {
+        throw new Error(`No recorded fixture for ${fixture.method} ${fixture.path} in ${this.fixtures.directory}; run with OPENTK_FIXTURE_MODE=record to capture it`);
+      }
+      return {
+        ok: recorded.status >= 200 && recorded.status < 300,
+        status: recorded.status,
+        statusText: recorded.statusText,
+        headers: new Headers(recorded.headers),
+        body: recorded.body
+      };
+    }
+
+    if (!this.circuitBreaker.tryAcquire()) {
+      const state = this.circuitBreaker.getState();
+      throw new Error(`Upstream ${this.baseUrl} is unavailable after ${state.consecutiveFailures} consecutive failures; not retrying until ${state.retryAt}`);
+    }
+
+    const throttle = { waitMs: 0, queuedAhead: 0 };
+    for (let attempt = 0; ; attempt++) {
+      const permit = await this.governor.acquire(this.upstreamHost);
+      throttle.waitMs += permit.waitMs;
+      throttle.queuedAhead = Math.max(throttle.queuedAhead, permit.queuedAhead);
+      rememberStatus(this.throttleStatuses, statusKey, { ...throttle });
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      let response: UpstreamResponse;
+      try {
+        const res = await fetch(url, {
+          ...init,
+          signal: controller.signal,
+          agent: ApiService.agent
+        } as NodeRequestInit);
+        const body = Buffer.from(await res.arrayBuffer());
+        response = { ok: res.ok, status: res.status, statusText: res.statusText, headers: res.headers, body };
+      } catch (error) {
+        const failure = controller.signal.aborted
+          ? new Error(`Request to ${url} timed out after ${this.timeoutMs} ms`)
+          : new Error(`Request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`);
+
+        if (attempt < this.retryOptions.retries) {
+          await sleep(backoffDelay(attempt, this.retryOptions));
+          continue;
+        }
+        this.circuitBreaker.recordFailure();
+        throw failure;
+      } finally {
+        clearTimeout(timer);
+        permit.release();
+      }
+
+      if (isRetryableStatus(response.status) && attempt < this.retryOptions.retries) {
+        // A Retry-After beyond our longest delay means the upstream wants us to back off for longer
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        if (retryAfter === null || retryAfter <= this.retryOptions.maxDelayMs) {
+          await sleep(retryAfter ?? backoffDelay(attempt, this.retryOptions));
+          continue;
+        }
+      }
+
+      // Only server errors count against the circuit; anything else proves the upstream is reachable
+      if (response.status >= 500) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordSuccess();
+      }
+
+      if (this.fixtureMode === 'record' && this.fixtures) {
+        await this.fixtures.save(fixture, response);
+      }
+      return response;
+    }
+  }
   /**
    * Fetches a list of all current Members of Parliament
    * @returns Array of MP data
@@ -448,11 +718,6 @@ export class ApiService {
         const nameMatch = rowContent.match(nameRegex);
         const fullName = nameMatch?.[1]?.trim() || "";
 
-        // Split the name into first and last name (simple approach)
-        const nameParts = fullName.split(" ");
-        const firstName = nameParts.length > 1 ? nameParts[0] : "";
-        const lastName = nameParts.length > 1 ? nameParts.slice(1).join(" ") : fullName;
-
         // Extract the party
         const partyRegex = /<td[^>]*>([\s\S]*?)<\/td>/gi;
         const cells = [];
@@ -471,8 +736,7 @@ export class ApiService {
         persons.push({
           Id: id,
           Persoonsnummer: id,
-          Voornaam: firstName,
-          Achternaam: lastName,
+          ...personNameFields(fullName),
           Fullname: fullName,
           Fractie: party,
           FractieAfkorting: party,
@@ -490,64 +754,141 @@ export class ApiService {
   }
 
   /**
-   * Fetches details for a specific Member of Parliament
+   * Fetches the profile of a specific Member of Parliament
    * @param id The ID of the MP to fetch
-   * @returns MP data or null if not found
+   * @returns The profile parsed from persoon.html, or null if not found
    */
-  async getPerson(id: number): Promise<any | null> {
+  async getPerson(id: number): Promise<PersonProfile | null> {
     try {
       // Fetch the HTML page for the specific MP
       const html = await this.fetchHtml(`/persoon.html?nummer=${id}`);
 
-      // Extract the MP data from the HTML
-      const person = this.extractPersonFromHtml(html, id);
-
-      return person;
+      return extractPersonProfileFromHtml(html, id, this.baseUrl);
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Extracts MP data from the HTML of the persoon.html page
-   * @param html The HTML content of the persoon.html page
-   * @param id The ID of the MP
-   * @returns MP data or null if not found
+   * Builds the headers for page, file and redirect requests
+   * @param headers Per-request headers, which take precedence
+   * @returns Header object including the user agent and configured extra headers
    */
-  private extractPersonFromHtml(html: string, id: number): any | null {
-    try {
-      // Extract the MP name from the title
-      const titleRegex = /<title>([\s\S]*?)<\/title>/i;
-      const titleMatch = html.match(titleRegex);
-      const fullName = titleMatch?.[1]?.trim() || "";
-
-      // Split the name into first and last name (simple approach)
-      const nameParts = fullName.split(" ");
-      const firstName = nameParts.length > 1 ? nameParts[0] : "";
-      const lastName = nameParts.length > 1 ? nameParts.slice(1).join(" ") : fullName;
-
-      // Extract the party
-      const partyRegex = /<h4>([\s\S]*?)<\/h4>/i;
-      const partyMatch = html.match(partyRegex);
-      const party = partyMatch?.[1]?.trim() || "";
-
-      // Create the person object
-      return {
-        Id: id,
-        Persoonsnummer: id,
-        Voornaam: firstName,
-        Achternaam: lastName,
-        Fullname: fullName,
-        Fractie: party,
-        FractieAfkorting: party,
-        Functie: "Tweede Kamerlid", // Assuming all are MPs
-        Links: {
-          self: `/persoon.html?nummer=${id}`
-        }
-      };
-    } catch (error) {
+  private requestHeaders(headers?: HeadersInit): Record<string, string> {
+    return {
+      'User-Agent': this.userAgent || DEFAULT_USER_AGENT,
+      ...this.extraHeaders,
+      ...(headers as Record<string, string> | undefined)
+    };
+  }
+
+  /**
+   * Builds browser-like headers for the search endpoint
+   * Host, Origin and Referer are derived from the configured base URL
+   * @param query The (sanitized) search query
+   * @param options The search options used in the Referer
+   * @returns Header object for the search POST request
+   */
+  private searchHeaders(query: string, options: SearchOptions): Record<string, string> {
+    const upstream = new URL(this.baseUrl);
+    return {
+      // No explicit Content-Type, fetch will set it for FormData
+      'Accept': '*/*',
+      'User-Agent': this.userAgent || DEFAULT_SEARCH_USER_AGENT,
+      'Referer': `${this.baseUrl}/search.html?q=${encodeURIComponent(query)}&twomonths=${options.twomonths ? "true" : "false"}&soorten=${options.soorten || "alles"}`,
+      'Origin': upstream.origin,
+      'Host': upstream.host,
+      'Connection': 'keep-alive',
+      'Sec-Fetch-Dest': 'empty',
+      'Sec-Fetch-Mode': 'cors',
+      'Sec-Fetch-Site': 'same-origin',
+      'sec-ch-ua': '"Chromium";v="135", "Not-A.Brand";v="8"',
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"macOS"',
+      ...this.extraHeaders
+    };
+  }
+
+  /**
+   * Reports how long the most recent request for a path was held back by the rate limiter and queue
+   * @param path The API path, as passed to fetchHtml or fetchBinary
+   * @param options The cache variant used for the request, if any
+   * @returns Wait time and current queue for the upstream host
+   */
+  getUpstreamStatus(path: string, options: { cacheVariant?: string | number | null } = {}): ThrottleStatus {
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    return this.lookupThrottleStatus(this.cacheKey(normalizedPath, options.cacheVariant));
+  }
+
+  /**
+   * Reports how long the most recent request for a search was held back by the rate limiter and queue
+   * @param query The search query
+   * @param options The search options
+   * @returns Wait time and current queue for the upstream host
+   */
+  getSearchUpstreamStatus(query: string, options: SearchOptions = {}): ThrottleStatus {
+    const sanitizedQuery = query.replace(/\\/g, ' ').trim();
+    return this.lookupThrottleStatus(this.searchCacheKey(sanitizedQuery, options));
+  }
+
+  /**
+   * Describes a request for fixture lookup, relative to the base URL so recordings work against any mirror
+   */
+  private fixtureRequest(url: string, init: RequestInit): FixtureRequest {
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      path: url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) || '/' : url,
+      body: canonicalRequestBody(init.body)
+    };
+  }
+
+  private lookupThrottleStatus(key: string): ThrottleStatus {
+    // Cached responses never reach the queue, so they report no wait
+    const recorded = this.throttleStatuses.get(key) || { waitMs: 0, queuedAhead: 0 };
+    return { ...recorded, ...this.governor.getHostStatus(this.upstreamHost) };
+  }
+
+  private cacheKey(normalizedPath: string, variant?: string | number | null): string {
+    // Include the base URL so mirrors sharing a cache directory do not mix responses
+    const url = `${this.baseUrl}${normalizedPath}`;
+    return variant !== undefined && variant !== null ? `${url}#${variant}` : url;
+  }
+
+  private searchCacheKey(sanitizedQuery: string, options: SearchOptions): string {
+    return `${this.baseUrl}/search?q=${encodeURIComponent(sanitizedQuery)}&twomonths=${options.twomonths ? "true" : "false"}&soorten=${options.soorten || "alles"}`;
+  }
+
+  /**
+   * Looks up a fresh cached response, with the cache status to report when it is used or when the network is
+   */
+  private async readCacheEntry(key: string, cacheable: boolean, noCache: boolean = false): Promise<{ entry: CacheEntry | null, status: CacheStatus }> {
+    if (!this.cache || !cacheable) {
+      return { entry: null, status: describeCacheEntry(null, 'network', false) };
+    }
+    if (noCache) {
+      return { entry: null, status: describeCacheEntry(null, 'network') };
+    }
+
+    const cached = await this.cache.get(key);
+    if (!cached) {
+      return { entry: null, status: describeCacheEntry(null, 'network') };
+    }
+
+    this.throttleStatuses.delete(key);
+    return { entry: cached.entry, status: describeCacheEntry(cached.entry, cached.source) };
+  }
+
+  /**
+   * Stores a fresh response body using the TTL of its route class
+   * @returns The cache status of the stored entry, or null when the response is not cached
+   */
+  private async writeCache(key: string, normalizedPath: string, body: Buffer, contentType: string, cacheable: boolean): Promise<CacheStatus | null> {
+    if (!this.cache || !cacheable) {
       return null;
     }
+
+    const entry = await this.cache.set(key, body, contentType, ttlForPath(normalizedPath));
+    return describeCacheEntry(entry, 'network');
   }
 
   /**
@@ -564,7 +905,7 @@ export class ApiService {
       const html = await this.fetchHtml("/");
 
       // Extract overview data from the HTML with pagination
-      const overviewData = extractOverviewFromHtml(html, BASE_URL, validatedPage);
+      const overviewData = extractOverviewFromHtml(html, this.baseUrl, validatedPage);
 
       return overviewData;
     } catch (error) {
@@ -583,5 +924,147 @@ export class ApiService {
   }
 }
 
+/**
+ * Stores a status for reporting, keeping only the most recent entries
+ */
+function rememberStatus<T>(statuses: Map<string, T>, key: string, status: T): void {
+  statuses.delete(key);
+  statuses.set(key, status);
+
+  if (statuses.size > MAX_TRACKED_STATUSES) {
+    const oldestKey = statuses.keys().next().value;
+    if (oldestKey !== undefined) {
+      statuses.delete(oldestKey);
+    }
+  }
+}
+
+/**
+ * Looks up the cache lifetime for a path based on its route class
+ * @param normalizedPath The API path, starting with a slash
+ * @returns TTL in seconds
+ */
+export function ttlForPath(normalizedPath: string): number {
+  const rule = CACHE_TTL_RULES.find(r => r.pattern.test(normalizedPath));
+  return rule ? rule.ttlSeconds : CACHE_DEFAULT_TTL_SECONDS;
+}
+
+// Pages tkconv uses for each kind of search hit
+const SEARCH_CATEGORY_PAGES: Record<string, string> = {
+  Document: 'document.html',
+  Activiteit: 'activiteit.html',
+  Zaak: 'zaak.html'
+};
+
+/**
+ * Normalizes a raw tkconv search hit
+ * The category is inferred from the number (2024D…, 2024Z…, 2024A…) when tkconv leaves it out,
+ * and relative links are resolved against the base URL.
+ * @param raw A single entry of the search endpoint's results array
+ * @param baseUrl tkconv base URL without trailing slash
+ * @returns The normalized result
+ */
+export function normalizeSearchResult(raw: Record<string, unknown>, baseUrl: string): SearchResult {
+  const text = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : null;
+
+  const id = text(raw.id) || text(raw.nummer) || '';
+  const category = normalizeCategory(text(raw.category), id);
+  const datum = text(raw.datum);
+  const yearMatch = datum ? /^(\d{4})/.exec(datum) : null;
+  const nummer = text(raw.nummer) || (category === 'Document' ? id || null : null);
+  const zaakNummer = text(raw.zaak) || text(raw.zaaknummer) || (category === 'Zaak' ? id || null : null);
+
+  const page = SEARCH_CATEGORY_PAGES[category] || 'document.html';
+  const link = text(raw.url) || text(raw.relurl);
+  const url = link ? new URL(link, `${baseUrl}/`).href : `${baseUrl}/${page}?nummer=${encodeURIComponent(id)}`;
+
+  const rawSnippet = text(raw.snippet) || text(raw.snip) || text(raw.highlight);
+  const highlights = rawSnippet
+    ? Array.from(new Set(Array.from(rawSnippet.matchAll(/<(b|em|mark|strong)\b[^>]*>([\s\S]*?)<\/\1>/gi), match => stripMarkup(match[2] || '')).filter(Boolean)))
+    : [];
+  const score = typeof raw.score === 'number' ? raw.score : Number.parseFloat(text(raw.score) || '');
+
+  return {
+    id,
+    title: stripMarkup(text(raw.title) || ''),
+    category,
+    soort: text(raw.soort),
+    datum,
+    year: yearMatch ? Number(yearMatch[1]) : null,
+    nummer,
+    zaakNummer,
+    url,
+    zaakUrl: zaakNummer ? `${baseUrl}/zaak.html?nummer=${encodeURIComponent(zaakNummer)}` : null,
+    snippet: rawSnippet ? stripMarkup(rawSnippet) || null : null,
+    highlights,
+    score: Number.isFinite(score) ? score : null
+  };
+}
+
+/**
+ * Counts results by category, document type and year
+ * @param results The full result set, before pagination
+ * @returns Counts per value; missing types and years are counted as 'unknown'
+ */
+export function computeSearchFacets(results: SearchResult[]): SearchFacets {
+  const facets: SearchFacets = { category: {}, soort: {}, year: {} };
+  const count = (facet: Record<string, number>, key: string) => {
+    facet[key] = (facet[key] || 0) + 1;
+  };
+
+  for (const result of results) {
+    count(facets.category, result.category);
+    count(facets.soort, result.soort || 'unknown');
+    count(facets.year, result.year !== null ? String(result.year) : 'unknown');
+  }
+  return facets;
+}
+
+/**
+ * Maps a category to its canonical spelling, falling back to the letter in the number
+ */
+function normalizeCategory(category: string | null, id: string): string {
+  const known = Object.keys(SEARCH_CATEGORY_PAGES).find(name => name.toLowerCase() === category?.toLowerCase());
+  if (known) {
+    return known;
+  }
+  if (category) {
+    return category;
+  }
+  const letter = /^\d{4}([DAZ])\d+/i.exec(id)?.[1]?.toUpperCase();
+  return letter === 'D' ? 'Document' : letter === 'A' ? 'Activiteit' : letter === 'Z' ? 'Zaak' : 'unknown';
+}
+
+/**
+ * Turns snippet or title HTML into plain text
+ */
+function stripMarkup(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Only plain GET requests are cached
+ */
+function isCacheableRequest(init: RequestInit): boolean {
+  return !init.method || init.method.toUpperCase() === 'GET';
+}
+
+/**
+ * Copies a Buffer into a standalone ArrayBuffer
+ */
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
 // Export a singleton instance
 export const apiService = new ApiService();
@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * A single cached upstream response
+ */
+export interface CacheEntry {
+  body: Buffer;
+  contentType: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Where a response was served from; 'memo' is text extracted earlier from the same document version
+ */
+export type CacheSource = 'memory' | 'disk' | 'network' | 'memo';
+
+/**
+ * Cache status as reported in tool responses
+ */
+export interface CacheStatus {
+  status: 'hit' | 'miss' | 'bypass';
+  source: CacheSource;
+  fetchedAt: string | null;
+  expiresAt: string | null;
+  ageSeconds: number | null;
+}
+
+/**
+ * Options for the response cache
+ */
+export interface ResponseCacheOptions {
+  /** Directory for the filesystem layer; memory only when not set */
+  directory?: string;
+  /** Maximum number of entries per layer */
+  maxEntries: number;
+  /** Maximum total body size in bytes per layer */
+  maxBytes: number;
+}
+
+/**
+ * Metadata stored next to each cached body on disk
+ */
+interface DiskMetadata {
+  key: string;
+  contentType: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Two-layer (memory + filesystem) cache for upstream responses with TTL and LRU eviction
+ */
+export class ResponseCache {
+  private memory = new Map<string, CacheEntry>();
+  private memoryBytes = 0;
+
+  constructor(private options: ResponseCacheOptions) {}
+
+  /**
+   * Looks up a fresh entry, checking memory first and then the filesystem
+   * @param key The cache key
+   * @returns The entry and the layer it came from, or null when missing or expired
+   */
+  async get(key: string): Promise<{ entry: CacheEntry, source: CacheSource } | null> {
+    const now = Date.now();
+
+    const memoryEntry = this.memory.get(key);
+    if (memoryEntry) {
+      if (memoryEntry.expiresAt > now) {
+        // Re-insert to mark the entry as most recently used
+        this.memory.delete(key);
+        this.memory.set(key, memoryEntry);
+        return { entry: memoryEntry, source: 'memory' };
+      }
+      this.removeFromMemory(key);
+    }
+
+    if (!this.options.directory) {
+      return null;
+    }
+
+    try {
+      const { metaPath, bodyPath } = this.diskPaths(key);
+      const meta = JSON.parse(await fs.readFile(metaPath, 'utf8')) as DiskMetadata;
+
+      // Guard against hash collisions and expired entries
+      if (meta.key !== key || meta.expiresAt <= now) {
+        await this.removeFromDisk(key);
+        return null;
+      }
+
+      const body = await fs.readFile(bodyPath);
+      const entry: CacheEntry = {
+        body,
+        contentType: meta.contentType,
+        storedAt: meta.storedAt,
+        expiresAt: meta.expiresAt
+      };
+
+      // Touch the body file so disk eviction sees it as recently used
+      const touchedAt = new Date();
+      await fs.utimes(bodyPath, touchedAt, touchedAt).catch(() => undefined);
+
+      this.addToMemory(key, entry);
+      return { entry, source: 'disk' };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Stores a response body in both layers
+   * @param key The cache key
+   * @param body The response body
+   * @param contentType The response content type
+   * @param ttlSeconds Time to live in seconds
+   */
+  async set(key: string, body: Buffer, contentType: string, ttlSeconds: number): Promise<CacheEntry> {
+    const storedAt = Date.now();
+    const entry: CacheEntry = {
+      body,
+      contentType,
+      storedAt,
+      expiresAt: storedAt + ttlSeconds * 1000
+    };
+
+    this.addToMemory(key, entry);
+
+    if (this.options.directory) {
+      try {
+        const { metaPath, bodyPath } = this.diskPaths(key);
+        const meta: DiskMetadata = { key, contentType, storedAt, expiresAt: entry.expiresAt };
+
+        await fs.mkdir(this.options.directory, { recursive: true });
+        await fs.writeFile(bodyPath, body);
+        await fs.writeFile(metaPath, JSON.stringify(meta));
+        await this.evictDisk();
+      } catch (error) {
+        // The filesystem layer is best-effort; memory still holds the entry
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Removes all entries from both layers
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.memoryBytes = 0;
+
+    if (this.options.directory) {
+      const files = await fs.readdir(this.options.directory).catch(() => [] as string[]);
+      await Promise.all(files
+        .filter(file => file.endsWith('.bin') || file.endsWith('.json'))
+        .map(file => fs.unlink(path.join(this.options.directory as string, file)).catch(() => undefined)));
+    }
+  }
+
+  /**
+   * Adds an entry to the memory layer, evicting least recently used entries when over the limits
+   */
+  private addToMemory(key: string, entry: CacheEntry): void {
+    // Entries larger than the whole budget are only kept on disk
+    if (entry.body.length > this.options.maxBytes) {
+      return;
+    }
+
+    this.removeFromMemory(key);
+    this.memory.set(key, entry);
+    this.memoryBytes += entry.body.length;
+
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (this.memory.size > this.options.maxEntries || this.memoryBytes > this.options.maxBytes) {
+      const oldestKey = this.memory.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.removeFromMemory(oldestKey);
+    }
+  }
+
+  private removeFromMemory(key: string): void {
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memoryBytes -= existing.body.length;
+      this.memory.delete(key);
+    }
+  }
+
+  private async removeFromDisk(key: string): Promise<void> {
+    const { metaPath, bodyPath } = this.diskPaths(key);
+    await fs.unlink(metaPath).catch(() => undefined);
+    await fs.unlink(bodyPath).catch(() => undefined);
+  }
+
+  /**
+   * Evicts the least recently used files until the disk layer is within its limits
+   */
+  private async evictDisk(): Promise<void> {
+    const directory = this.options.directory;
+    if (!directory) return;
+
+    const files = (await fs.readdir(directory)).filter(file => file.endsWith('.bin'));
+    const stats = await Promise.all(files.map(async file => {
+      const stat = await fs.stat(path.join(directory, file)).catch(() => null);
+      return stat ? { file, size: stat.size, mtime: stat.mtimeMs } : null;
+    }));
+
+    const entries = stats
+      .filter((entry): entry is { file: string, size: number, mtime: number } => entry !== null)
+      .sort((a, b) => a.mtime - b.mtime); // Oldest first
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+
+    for (const entry of entries) {
+      if (count <= this.options.maxEntries && totalBytes <= this.options.maxBytes) break;
+
+      const hash = entry.file.slice(0, -'.bin'.length);
+      await fs.unlink(path.join(directory, entry.file)).catch(() => undefined);
+      await fs.unlink(path.join(directory, `${hash}.json`)).catch(() => undefined);
+      totalBytes -= entry.size;
+      count--;
+    }
+  }
+
+  private diskPaths(key: string): { metaPath: string, bodyPath: string } {
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    const directory = this.options.directory as string;
+    return {
+      metaPath: path.join(directory, `${hash}.json`),
+      bodyPath: path.join(directory, `${hash}.bin`)
+    };
+  }
+}
+
+/**
+ * Builds the cache status reported to tool callers
+ * @param entry The entry that was served, if any
+ * @param source Where the response came from
+ * @param enabled Whether caching is enabled at all
+ */
+export function describeCacheEntry(entry: CacheEntry | null, source: CacheSource, enabled: boolean = true): CacheStatus {
+  if (!entry) {
+    return {
+      status: enabled ? 'miss' : 'bypass',
+      source,
+      fetchedAt: null,
+      expiresAt: null,
+      ageSeconds: null
+    };
+  }
+
+  return {
+    status: !enabled ? 'bypass' : source === 'network' ? 'miss' : 'hit',
+    source,
+    fetchedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+    ageSeconds: Math.max(0, Math.round((Date.now() - entry.storedAt) / 1000))
+  };
+}
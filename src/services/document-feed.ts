@@ -0,0 +1,234 @@
+/**
+ * Feed of documents added to or updated on tkconv, built on the yearly sitemaps
+ * Named feeds remember where the previous check ended, so each check only reports what changed since
+ */
+
+import { ApiService, apiService } from './api.js';
+import { StateStore, stateStore } from './state-store.js';
+import { extractDocumentDetailsFromHtml } from '../utils/html-parser.js';
+
+/**
+ * A document reported by the feed
+ */
+export interface FeedDocument {
+  nummer: string;
+  title: string | null;
+  type: string | null;
+  datum: string | null;
+  bijgewerkt: string | null;
+  versie: number | null;
+  /** 'added' for documents dated or first listed after the checkpoint, 'updated' for older documents changed since */
+  change: 'added' | 'updated';
+  url: string;
+  tweedekamerLink: string | null;
+}
+
+/**
+ * Where a named feed stopped, stored between checks
+ */
+export interface FeedCheckpoint {
+  checkedAt: string;
+  /** Highest document sequence number seen per year and letter, e.g. { '2024D': 44000 } */
+  highestNumbers: Record<string, number>;
+  /** Set when the previous check was cut short: the next check continues the walk below this point */
+  resume?: FeedResumePoint;
+}
+
+/**
+ * Where a check that was cut short by the limit or the scan budget stopped
+ */
+export interface FeedResumePoint {
+  /** Last document number looked at; the walk continues with the numbers below it */
+  below: string;
+  /** Moment of the check that was cut short, which becomes the checkpoint once the walk is finished */
+  checkedAt: string;
+  /** Highest numbers seen by the check that was cut short */
+  highestNumbers: Record<string, number>;
+}
+
+export interface NewDocumentsOptions {
+  /** Name of a feed whose checkpoint is read and advanced */
+  feed?: string;
+  /** Report changes since this moment instead of since the feed's checkpoint */
+  since?: Date;
+  /** Only report documents whose title contains all of these words */
+  topic?: string;
+  /** Maximum number of documents to report */
+  limit?: number;
+  now?: Date;
+}
+
+export interface NewDocumentsResult {
+  feed: string | null;
+  since: string | null;
+  checkedAt: string;
+  previousCheckpoint: FeedCheckpoint | null;
+  /** Document number the walk continued below, when the previous check of the feed was cut short */
+  resumedBelow: string | null;
+  documents: FeedDocument[];
+  /** Number of document pages looked at */
+  scanned: number;
+  /** False when the limit or the scan budget cut the walk short, so older changes may be missing */
+  complete: boolean;
+}
+
+// Name of the state file holding all feed checkpoints
+const FEEDS_STATE = 'feeds';
+
+// Most document pages fetched in one check
+const MAX_SCANNED = 100;
+
+// The walk from the newest document number down stops after this many unchanged documents in a row
+const STOP_AFTER_UNCHANGED = 10;
+
+/**
+ * Service that reports new and updated documents from the tkconv sitemaps
+ */
+export class DocumentFeedService {
+  constructor(private api: ApiService = apiService, private store: StateStore = stateStore) {}
+
+  /**
+   * Lists documents added or updated since a moment or since the feed's previous check
+   * Sitemaps carry no dates, so document pages are fetched from the highest document number down,
+   * which is roughly newest first, until a run of unchanged documents is found.
+   * Without a moment and without a checkpoint the newest documents are returned.
+   * When a named feed's walk is cut short, its checkpoint keeps the old moment and records where the
+   * walk stopped; the next check continues from there before the checkpoint moves on.
+   * @param options Feed name, moment, topic and limit
+   * @returns The documents with the checkpoint that was used
+   */
+  async getNewDocuments(options: NewDocumentsOptions = {}): Promise<NewDocumentsResult> {
+    const now = options.now ?? new Date();
+    const limit = Math.max(1, Math.min(options.limit || 25, 100));
+    const feeds = options.feed ? await this.store.read<Record<string, FeedCheckpoint>>(FEEDS_STATE) ?? {} : {};
+    const checkpoint = options.feed ? feeds[options.feed] ?? null : null;
+    const since = options.since ?? (checkpoint ? new Date(checkpoint.checkedAt) : null);
+    // An explicit moment starts a new walk from the top
+    const resume = !options.since ? checkpoint?.resume ?? null : null;
+
+    const numbers = new Set<string>();
+    for (let year = (since ?? now).getFullYear(); year <= now.getFullYear(); year++) {
+      for (const url of await this.api.fetchSitemap(`sitemap-${year}.txt`)) {
+        const nummer = /[?&]nummer=([^&#]+)/.exec(url)?.[1];
+        if (nummer && parseNumber(decodeURIComponent(nummer))) {
+          numbers.add(decodeURIComponent(nummer));
+        }
+      }
+    }
+
+    const highestNumbers: Record<string, number> = { ...(resume?.highestNumbers || checkpoint?.highestNumbers || {}) };
+    if (!resume) {
+      for (const nummer of numbers) {
+        const { series, sequence } = parseNumber(nummer)!;
+        highestNumbers[series] = Math.max(highestNumbers[series] ?? 0, sequence);
+      }
+    }
+
+    const topicWords = (options.topic || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const documents: FeedDocument[] = [];
+    let scanned = 0;
+    let unchangedInARow = 0;
+    let complete = true;
+    let lastScanned: string | null = null;
+
+    const pending = Array.from(numbers)
+      .filter(nummer => !resume || compareNumbersDescending(resume.below, nummer) < 0)
+      .sort(compareNumbersDescending);
+    for (const nummer of pending) {
+      if (documents.length >= limit || scanned >= MAX_SCANNED) {
+        complete = false;
+        break;
+      }
+      scanned++;
+      lastScanned = nummer;
+
+      const html = await this.api.fetchHtml(`/document.html?nummer=${encodeURIComponent(nummer)}`);
+      const details = extractDocumentDetailsFromHtml(html, this.api.baseUrl);
+      if (!details?.nummer) {
+        continue;
+      }
+
+      const { series, sequence } = parseNumber(nummer)!;
+      const firstListed = checkpoint !== null && sequence > (checkpoint.highestNumbers[series] ?? 0);
+      const change = !since || firstListed || isOnOrAfter(details.datum, since) ? 'added'
+        : isOnOrAfter(details.bijgewerkt, since) ? 'updated'
+        : null;
+
+      if (!change) {
+        if (++unchangedInARow >= STOP_AFTER_UNCHANGED) {
+          break;
+        }
+        continue;
+      }
+      unchangedInARow = 0;
+
+      const title = (details.title || '').toLowerCase();
+      if (topicWords.every(word => title.includes(word))) {
+        documents.push({
+          nummer: details.nummer,
+          title: details.title,
+          type: details.type,
+          datum: details.datum,
+          bijgewerkt: details.bijgewerkt,
+          versie: details.versie,
+          change,
+          url: `${this.api.baseUrl}/document.html?nummer=${encodeURIComponent(details.nummer)}`,
+          tweedekamerLink: details.tweedekamerLink
+        });
+      }
+    }
+
+    if (options.feed) {
+      const checkedAt = resume?.checkedAt ?? now.toISOString();
+      // Without a moment the newest documents are a starting point, so there is nothing to resume
+      feeds[options.feed] = complete || !since || !lastScanned
+        ? { checkedAt, highestNumbers }
+        : {
+            checkedAt: since.toISOString(),
+            // Keep the numbers the walk compared against, so the rest is judged the same way
+            highestNumbers: checkpoint?.highestNumbers ?? highestNumbers,
+            resume: { below: lastScanned, checkedAt, highestNumbers }
+          };
+      await this.store.write(FEEDS_STATE, feeds);
+    }
+
+    return {
+      feed: options.feed || null,
+      since: since ? since.toISOString() : null,
+      checkedAt: now.toISOString(),
+      previousCheckpoint: checkpoint,
+      resumedBelow: resume?.below ?? null,
+      documents,
+      scanned,
+      complete
+    };
+  }
+}
+
+/**
+ * Splits a document number such as '2024D39058' into its series ('2024D') and sequence (39058)
+ */
+function parseNumber(nummer: string): { series: string, sequence: number } | null {
+  const match = /^(\d{4}[A-Z])(\d+)$/.exec(nummer);
+  return match ? { series: match[1]!, sequence: parseInt(match[2]!, 10) } : null;
+}
+
+function compareNumbersDescending(a: string, b: string): number {
+  const left = parseNumber(a)!;
+  const right = parseNumber(b)!;
+  return right.series.localeCompare(left.series) || right.sequence - left.sequence;
+}
+
+/**
+ * Compares a tkconv date such as '2024-10-17' or '2024-10-17 09:12' with a moment
+ */
+function isOnOrAfter(value: string | null, moment: Date): boolean {
+  if (!value) {
+    return false;
+  }
+  const date = new Date(value.trim().replace(' ', 'T'));
+  return !isNaN(date.getTime()) && date.getTime() >= moment.getTime();
+}
+
+// Export a singleton instance
+export const documentFeedService = new DocumentFeedService();
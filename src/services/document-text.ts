@@ -0,0 +1,155 @@
+import { ApiService, apiService } from './api.js';
+import { CacheStatus } from './cache.js';
+import { extractDocumentLink, extractDocumentDetailsFromHtml, DocumentDetails } from '../utils/html-parser.js';
+import { extractStructuredTextFromPdf, extractStructuredTextFromDocx, DocumentPage, DocumentHeading, StructuredText } from '../utils/document-extractor.js';
+
+/**
+ * Extracted text of a document together with its metadata
+ */
+export interface DocumentText {
+  docId: string;
+  details: DocumentDetails | null;
+  documentLink: string;
+  documentType: 'PDF' | 'Word';
+  contentType: string;
+  /** Text with line breaks, with paragraphs and pages separated by a blank line */
+  text: string;
+  /** Where each page starts and ends in the text; empty for Word documents */
+  pages: DocumentPage[];
+  headings: DocumentHeading[];
+  /** True when the text was served from the memo instead of being extracted again */
+  memoized: boolean;
+  /** How the document file was served; source 'memo' when the text was not downloaded again */
+  cache: CacheStatus;
+}
+
+/**
+ * Result of looking up the text of a document
+ */
+export type DocumentTextResult =
+  | ({ status: 'ok' } & DocumentText)
+  | { status: 'not_found', docId: string }
+  | { status: 'no_link', docId: string, details: DocumentDetails | null }
+  | { status: 'unsupported', docId: string, details: DocumentDetails | null, contentType: string };
+
+/**
+ * Memoized extraction, valid as long as the document's bijgewerkt timestamp is unchanged
+ */
+interface MemoEntry {
+  bijgewerkt: string | null;
+  text: Omit<DocumentText, 'memoized'>;
+}
+
+// Number of extracted documents kept in memory
+const MAX_MEMOIZED_DOCUMENTS = 50;
+
+/**
+ * Service that downloads parliamentary documents and extracts their text,
+ * memoizing the result per document number and version
+ */
+export class DocumentTextService {
+  private memo = new Map<string, MemoEntry>();
+  private pending = new Map<string, Promise<DocumentTextResult>>();
+
+  constructor(private api: ApiService = apiService) {}
+
+  /**
+   * Retrieves the extracted text of a document
+   * @param docId The document number (e.g. '2024D39058')
+   * @returns The extracted text with metadata, or a status describing why it is unavailable
+   */
+  async getDocumentText(docId: string): Promise<DocumentTextResult> {
+    // The document page is small and tells us the current version
+    const html = await this.api.fetchHtml(`/document.html?nummer=${encodeURIComponent(docId)}`);
+
+    const documentLink = extractDocumentLink(html);
+    if (documentLink === 'NOT_FOUND') {
+      return { status: 'not_found', docId };
+    }
+
+    const details = extractDocumentDetailsFromHtml(html, this.api.baseUrl);
+    if (!documentLink) {
+      return { status: 'no_link', docId, details };
+    }
+
+    const memoKey = `${details?.nummer || docId}@${details?.versie ?? 'unknown'}`;
+    const memoized = this.memo.get(memoKey);
+    if (memoized && memoized.bijgewerkt === (details?.bijgewerkt ?? null)) {
+      // Re-insert to mark the entry as most recently used
+      this.memo.delete(memoKey);
+      this.memo.set(memoKey, memoized);
+      const { fetchedAt } = memoized.text.cache;
+      return {
+        status: 'ok',
+        ...memoized.text,
+        docId,
+        memoized: true,
+        cache: {
+          ...memoized.text.cache,
+          status: 'hit',
+          source: 'memo',
+          ageSeconds: fetchedAt ? Math.max(0, Math.round((Date.now() - Date.parse(fetchedAt)) / 1000)) : null
+        }
+      };
+    }
+
+    // Share a single download when the same document is requested concurrently
+    const inFlight = this.pending.get(memoKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const extraction = this.extract(docId, memoKey, details, documentLink)
+      .finally(() => this.pending.delete(memoKey));
+    this.pending.set(memoKey, extraction);
+    return extraction;
+  }
+
+  /**
+   * Forgets all memoized documents
+   */
+  clear(): void {
+    this.memo.clear();
+  }
+
+  /**
+   * Downloads the document file and extracts its text based on the content type
+   */
+  private async extract(docId: string, memoKey: string, details: DocumentDetails | null, documentLink: string): Promise<DocumentTextResult> {
+    // Download the document (cached per document version)
+    const { data, contentType, cache } = await this.api.fetchBinaryWithStatus(`/${documentLink}`, { cacheVariant: details?.versie });
+
+    let structured: StructuredText;
+    let documentType: 'PDF' | 'Word';
+
+    if (contentType.includes('pdf')) {
+      // Handle PDF documents using pdf-parse library
+      structured = await extractStructuredTextFromPdf(data);
+      documentType = 'PDF';
+    } else if (contentType.includes('wordprocessingml.document') || contentType.includes('msword') || documentLink.endsWith('.docx') || documentLink.endsWith('.doc')) {
+      // Handle Word documents (DOCX/DOC) using mammoth library
+      structured = await extractStructuredTextFromDocx(data);
+      documentType = 'Word';
+    } else {
+      return { status: 'unsupported', docId, details, contentType };
+    }
+
+    const entry: MemoEntry = {
+      bijgewerkt: details?.bijgewerkt ?? null,
+      text: { docId, details, documentLink, documentType, contentType, cache, ...structured }
+    };
+
+    this.memo.delete(memoKey);
+    this.memo.set(memoKey, entry);
+    while (this.memo.size > MAX_MEMOIZED_DOCUMENTS) {
+      const oldestKey = this.memo.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.memo.delete(oldestKey);
+    }
+
+    return { status: 'ok', ...entry.text, memoized: false };
+  }
+}
+
+// Export a singleton instance
+export const documentTextService = new DocumentTextService();
@@ -0,0 +1,141 @@
+/**
+ * Record/replay fixtures for upstream requests
+ * Recording saves every upstream response to a directory; replaying serves them back without network access
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Whether upstream requests are sent normally, recorded, or replayed from fixtures
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * Identifies a request independently of the tkconv instance it was sent to
+ */
+export interface FixtureRequest {
+  method: string;
+  /** Path relative to the base URL, such as /document.html?nummer=2024D39058 */
+  path: string;
+  /** Canonical form of the request body, if any */
+  body?: string;
+}
+
+/**
+ * A recorded upstream response
+ */
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+/**
+ * Metadata stored next to each recorded body
+ */
+interface FixtureMeta {
+  request: FixtureRequest;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  recordedAt: string;
+}
+
+// Response headers that are specific to one exchange and not worth recording
+const SKIPPED_HEADERS = new Set(['set-cookie', 'date', 'connection', 'keep-alive', 'transfer-encoding']);
+
+/**
+ * Stores responses as <name>.json (request, status, headers) plus <name>.bin (raw body),
+ * named after the request path so fixture directories stay readable
+ */
+export class FixtureStore {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Loads the recorded response for a request
+   * @param request The request to look up
+   * @returns The recorded response, or null if the request was never recorded
+   */
+  async load(request: FixtureRequest): Promise<RecordedResponse | null> {
+    const base = path.join(this.directory, fixtureName(request));
+    try {
+      const meta = JSON.parse(await fs.promises.readFile(`${base}.json`, 'utf8')) as FixtureMeta;
+      const body = await fs.promises.readFile(`${base}.bin`);
+      return { status: meta.status, statusText: meta.statusText, headers: meta.headers, body };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Records a response, replacing an earlier recording of the same request
+   * @param request The request that was sent
+   * @param response The response that was received
+   */
+  async save(request: FixtureRequest, response: { status: number, statusText: string, headers: Headers, body: Buffer }): Promise<void> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SKIPPED_HEADERS.has(name.toLowerCase())) {
+        headers[name.toLowerCase()] = value;
+      }
+    });
+
+    const meta: FixtureMeta = {
+      request,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      recordedAt: new Date().toISOString()
+    };
+
+    const base = path.join(this.directory, fixtureName(request));
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(`${base}.bin`, response.body);
+    await fs.promises.writeFile(`${base}.json`, JSON.stringify(meta, null, 2));
+  }
+}
+
+/**
+ * Converts a request body into a stable string for matching recordings
+ * Form fields are sorted so the same search always maps to the same fixture
+ * @param body The request body
+ * @returns The canonical body, or undefined for requests without a body
+ */
+export function canonicalRequestBody(body: RequestInit['body']): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body instanceof URLSearchParams || body instanceof FormData) {
+    const fields: string[] = [];
+    body.forEach((value, name) => {
+      fields.push(`${encodeURIComponent(name)}=${encodeURIComponent(typeof value === 'string' ? value : value.name)}`);
+    });
+    return fields.sort().join('&');
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    const bytes = body instanceof ArrayBuffer ? new Uint8Array(body) : new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+    return crypto.createHash('sha1').update(bytes).digest('hex');
+  }
+  return String(body);
+}
+
+/**
+ * Builds a readable, collision-free file name for a request
+ */
+function fixtureName(request: FixtureRequest): string {
+  const hash = crypto.createHash('sha1')
+    .update(`${request.method.toUpperCase()} ${request.path}\n${request.body ?? ''}`)
+    .digest('hex')
+    .slice(0, 12);
+  const slug = `${request.method.toLowerCase()}${request.path}`
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return `${slug}-${hash}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Parties (fracties) in the Tweede Kamer: seats, members, history, motions and votes
+ * Seats and members come from the current member list; names and history from the party list in utils/parties
+ */
+
+import { ApiService, apiService } from './api.js';
+import { extractVotingResultsFromHtml, PersonListedItem } from '../utils/html-parser.js';
+import { findParty, isPartyName, PartyInfo, PartyEvent } from '../utils/parties.js';
+
+/**
+ * A fractie on the current member list
+ */
+export interface PartySummary {
+  abbreviation: string;
+  name: string;
+  /** The fractie as written on the member list */
+  fractie: string;
+  seats: number;
+  /** False when the fractie is not in the party list, so only its name as written is known */
+  known: boolean;
+}
+
+export interface PartyMember {
+  id: number;
+  name: string;
+  sortName: string;
+  /** 'Fractievoorzitter' or another function from the member page, 'Lid' otherwise, null when the page could not be read */
+  role: string | null;
+  url: string;
+}
+
+export interface PartyVote {
+  id: string;
+  title: string;
+  date: string;
+  vote: 'Voor' | 'Tegen';
+  result: string;
+  url: string;
+}
+
+export interface PartyDetails extends PartySummary {
+  aliases: string[];
+  history: PartyEvent[];
+  /** Fractievoorzitter first, then by surname */
+  members: PartyMember[];
+  /** Members who sat for another fractie before joining this one */
+  joinedFrom: Array<{ id: number, name: string, party: string, until: string | null }>;
+  /** Motions listed on the members' pages, newest first */
+  motions: Array<PersonListedItem & { member: string }>;
+  /** Recent votes in which the party took part, newest first */
+  votes: PartyVote[];
+}
+
+// Most motions and votes reported for a party
+const MAX_ITEMS = 10;
+
+/**
+ * Service that groups the member list by fractie
+ */
+export class PartyDirectoryService {
+  constructor(private api: ApiService = apiService) {}
+
+  /**
+   * Lists the fracties on the current member list, largest first
+   * @returns The fracties and the total number of seats
+   * @throws Error if the member list cannot be fetched
+   */
+  async listParties(): Promise<{ totalSeats: number, parties: PartySummary[] }> {
+    const persons = await this.roster();
+    const seats = new Map<string, number>();
+    for (const person of persons) {
+      seats.set(person.Fractie, (seats.get(person.Fractie) ?? 0) + 1);
+    }
+
+    const parties = Array.from(seats, ([fractie, count]) => summarize(fractie, count))
+      .sort((a, b) => b.seats - a.seats || a.abbreviation.localeCompare(b.abbreviation));
+    return { totalSeats: persons.length, parties };
+  }
+
+  /**
+   * Describes one party: its seats, members with their roles, history, recent motions and votes
+   * @param name Abbreviation, full name or fractie as written, e.g. 'CDA', 'GroenLinks-PvdA' or 'Partij voor de Dieren'
+   * @returns The party, or null when it is neither in the party list nor on the member list
+   * @throws Error if the member list cannot be fetched
+   */
+  async getParty(name: string): Promise<PartyDetails | null> {
+    const persons = await this.roster();
+    const info = findParty(name);
+    const matches = (fractie: string) => info ? isPartyName(fractie, info) : fractie.toLowerCase() === name.trim().toLowerCase();
+    const partyMembers = persons.filter(person => matches(person.Fractie));
+    if (!info && partyMembers.length === 0) {
+      return null;
+    }
+
+    const members: PartyMember[] = [];
+    const joinedFrom: PartyDetails['joinedFrom'] = [];
+    const motions = new Map<string, PersonListedItem & { member: string }>();
+    for (const person of partyMembers) {
+      const profile = await this.api.getPerson(person.Id);
+      members.push({
+        id: person.Id,
+        name: person.Fullname,
+        sortName: profile?.sortName ?? person.sortName,
+        role: profile ? (/^tweede kamerlid$/i.test(profile.Functie) ? 'Lid' : profile.Functie) : null,
+        url: `${this.api.baseUrl}/persoon.html?nummer=${person.Id}`
+      });
+
+      for (const earlier of profile?.partyHistory ?? []) {
+        if (!matches(earlier.party)) {
+          joinedFrom.push({ id: person.Id, name: person.Fullname, party: earlier.party, until: earlier.until });
+        }
+      }
+      for (const motion of profile?.motions ?? []) {
+        motions.set(motion.nummer || motion.title, { ...motion, member: person.Fullname });
+      }
+    }
+    members.sort((a, b) => Number(isLeader(b)) - Number(isLeader(a)) || a.sortName.localeCompare(b.sortName));
+
+    const html = await this.api.fetchHtml('/stemmingen.html');
+    const votes: PartyVote[] = [];
+    for (const result of extractVotingResultsFromHtml(html, this.api.baseUrl)) {
+      const vote = result.votes?.voor.some(matches) ? 'Voor' : result.votes?.tegen.some(matches) ? 'Tegen' : null;
+      if (vote) {
+        votes.push({ id: result.id, title: result.title, date: result.date, vote, result: result.result, url: result.url });
+      }
+    }
+
+    return {
+      ...summarize(partyMembers[0]?.Fractie ?? info!.abbreviation, partyMembers.length),
+      aliases: info?.aliases ?? [],
+      history: info?.history ?? [],
+      members,
+      joinedFrom,
+      motions: Array.from(motions.values()).sort((a, b) => (b.date || '').localeCompare(a.date || '')).slice(0, MAX_ITEMS),
+      votes: votes.sort((a, b) => b.date.localeCompare(a.date)).slice(0, MAX_ITEMS)
+    };
+  }
+
+  private async roster(): Promise<any[]> {
+    const persons = await this.api.getPersons();
+    if (persons.length === 0) {
+      throw new Error('The list of members could not be retrieved');
+    }
+    return persons;
+  }
+}
+
+function summarize(fractie: string, seats: number): PartySummary {
+  const info: PartyInfo | null = findParty(fractie);
+  return {
+    abbreviation: info?.abbreviation ?? fractie,
+    name: info?.name ?? fractie,
+    fractie,
+    seats,
+    known: info !== null
+  };
+}
+
+function isLeader(member: PartyMember): boolean {
+  return /fractievoorzitter/i.test(member.role || '');
+}
+
+// Export a singleton instance
+export const partyDirectoryService = new PartyDirectoryService();
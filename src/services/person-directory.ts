@@ -0,0 +1,300 @@
+/**
+ * Directory of current and former Members of Parliament, for resolving free-text names to MP IDs
+ * Members are remembered in the local state directory, so members who left parliament can still be found
+ */
+
+import { ApiService, apiService } from './api.js';
+import { StateStore, stateStore } from './state-store.js';
+import { parseDutchName, scoreNameMatch, formatSortName, formatCitationName, DutchName } from '../utils/person-names.js';
+import { PersonProfile, PersonNameFields } from '../utils/html-parser.js';
+import { findParty } from '../utils/parties.js';
+
+/**
+ * A member as remembered between lookups
+ */
+export interface KnownPerson {
+  id: number;
+  name: string;
+  party: string;
+  /** Last day the member was on the roster, as YYYY-MM-DD */
+  lastSeen: string;
+}
+
+/**
+ * A person a name may refer to
+ */
+export interface PersonCandidate {
+  id: number;
+  name: string;
+  party: string;
+  /** False for members who were on an earlier roster but are not on the current one */
+  current: boolean;
+  lastSeen: string;
+  sortName: string;
+  citationName: string;
+  /** How well the name matches, between 0 and 1 */
+  confidence: number;
+}
+
+export interface PersonResolution {
+  query: string;
+  /** How the name was read, without titles */
+  parsed: DutchName;
+  /** The best candidate when it is clearly better than the others, otherwise null */
+  match: PersonCandidate | null;
+  candidates: PersonCandidate[];
+  /** False when the roster could not be fetched and only remembered members were searched */
+  rosterAvailable: boolean;
+}
+
+/**
+ * A member of the Kamer during a period, in the shape of the list_persons entries
+ */
+export type PeriodMember = Pick<PersonProfile, 'Id' | 'Persoonsnummer' | keyof PersonNameFields | 'Fullname' | 'Fractie' | 'FractieAfkorting' | 'Functie' | 'Links'> & {
+  /** Start of the membership, as YYYY-MM-DD */
+  memberFrom: string | null;
+  /** End of the membership, or null for members still seated */
+  memberUntil: string | null;
+  /** Why the member left, when the member page says */
+  leaveReason: string | null;
+};
+
+export interface CompositionResult {
+  from: string;
+  to: string;
+  /** Members seated at some moment in the period, by surname */
+  members: PeriodMember[];
+  /** Number of people who may have been seated in the period */
+  candidates: number;
+  /** Number of member pages read; lower than candidates when the least likely ones were skipped */
+  checkedProfiles: number;
+  /** False when member pages or sitemaps could not be read or candidates were skipped, so members may be missing */
+  complete: boolean;
+}
+
+// Name of the state file holding the members seen so far
+const PERSONS_STATE = 'persons';
+
+// Candidates scoring lower than this are left out
+const MIN_CONFIDENCE = 0.8;
+
+// Most member pages read for one composition, the most likely candidates first
+const MAX_PROFILES = 200;
+
+// Member pages read at the same time; the request governor still applies the rate limit
+const PROFILE_CONCURRENCY = 4;
+
+// A candidate is a match when it scores at least this and leads the next one by MATCH_MARGIN
+const MATCH_CONFIDENCE = 0.9;
+const MATCH_MARGIN = 0.05;
+
+/**
+ * Service that matches names against the roster and the members remembered from earlier rosters
+ */
+export class PersonDirectoryService {
+  constructor(private api: ApiService = apiService, private store: StateStore = stateStore) {}
+
+  /**
+   * Finds the members a free-text name may refer to
+   * Titles and forms of address ('minister', 'mevrouw') are ignored, typos and a missing tussenvoegsel are tolerated.
+   * @param query The name as written, e.g. 'minister Jeten' or 'mevrouw Plas'
+   * @param limit Maximum number of candidates to return
+   * @returns The candidates, best first, and the match if there is a clear one
+   */
+  async resolvePerson(query: string, limit: number = 5, now: Date = new Date()): Promise<PersonResolution> {
+    const parsed = parseDutchName(query);
+    const { persons, current, rosterAvailable } = await this.knownPersons(now);
+
+    const candidates = persons
+      .map(person => {
+        const name = parseDutchName(person.name);
+        return {
+          id: person.id,
+          name: person.name,
+          party: person.party,
+          current: current.has(person.id),
+          lastSeen: person.lastSeen,
+          sortName: formatSortName(name),
+          citationName: formatCitationName(name),
+          confidence: scoreNameMatch(parsed, name)
+        };
+      })
+      .filter(candidate => candidate.confidence >= MIN_CONFIDENCE)
+      // Current members go first among equally good matches
+      .sort((a, b) => b.confidence - a.confidence || Number(b.current) - Number(a.current) || a.sortName.localeCompare(b.sortName))
+      .slice(0, Math.max(1, limit));
+
+    const [best, runnerUp] = candidates;
+    const match = best && best.confidence >= MATCH_CONFIDENCE && (!runnerUp || best.confidence - runnerUp.confidence >= MATCH_MARGIN) ? best : null;
+
+    return { query, parsed, match, candidates, rosterAvailable };
+  }
+
+  /**
+   * Lists the members seated at some moment in a period, with the party they belonged to at the end of it
+   * Candidates come from the member pages listed in the sitemaps of the period's years, the current roster and
+   * the members remembered from earlier lookups, in that order of likelihood; each candidate's member page tells
+   * when they were seated and for which party. Former members found this way are remembered for resolvePerson.
+   * @param from First day of the period, as YYYY-MM-DD
+   * @param to Last day of the period, as YYYY-MM-DD; defaults to from
+   * @returns The members of the period
+   */
+  async getComposition(from: string, to: string = from): Promise<CompositionResult> {
+    const remembered = await this.store.read<Record<string, KnownPerson>>(PERSONS_STATE) ?? {};
+    const roster = await this.api.getPersons();
+    let complete = roster.length > 0;
+
+    const listed = new Set<number>();
+    for (let year = parseInt(from.slice(0, 4), 10); year <= parseInt(to.slice(0, 4), 10); year++) {
+      try {
+        for (const url of await this.api.fetchSitemap(`sitemap-${year}.txt`)) {
+          const id = /persoon\.html\?nummer=(\d+)/.exec(url)?.[1];
+          if (id) {
+            listed.add(parseInt(id, 10));
+          }
+        }
+      } catch (error) {
+        complete = false;
+      }
+    }
+
+    // Members listed in the period's years first, then the roster and the members seen on or after its start
+    const onRoster = new Set<number>(roster.map(person => person.Id as number));
+    const likelihood = (id: number): number => {
+      if (listed.has(id)) {
+        return 0;
+      }
+      const known = remembered[id];
+      return onRoster.has(id) || (known && known.lastSeen >= from) ? 1 : 2;
+    };
+    const candidates = Array.from(new Set<number>([...listed, ...onRoster, ...Object.values(remembered).map(person => person.id)]))
+      .sort((a, b) => likelihood(a) - likelihood(b) || a - b);
+    if (candidates.length > MAX_PROFILES) {
+      complete = false;
+    }
+
+    const selected = candidates.slice(0, MAX_PROFILES);
+    const profiles: Array<PersonProfile | null> = new Array(selected.length).fill(null);
+    let next = 0;
+    await Promise.all(Array.from({ length: Math.min(PROFILE_CONCURRENCY, selected.length) }, async () => {
+      while (next < selected.length) {
+        const index = next++;
+        profiles[index] = await this.api.getPerson(selected[index]!);
+      }
+    }));
+
+    const members: PeriodMember[] = [];
+    let changed = false;
+    let checkedProfiles = 0;
+    for (const [index, profile] of profiles.entries()) {
+      const id = selected[index]!;
+      if (!profile) {
+        complete = false;
+        continue;
+      }
+      checkedProfiles++;
+
+      const member = memberDuring(profile, from, to);
+      if (member) {
+        members.push(member);
+      }
+
+      // Remember members who left, so resolvePerson finds them too
+      if (profile.term.end && !remembered[id]) {
+        remembered[id] = { id, name: profile.Fullname, party: profile.Fractie, lastSeen: profile.term.end };
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.store.write(PERSONS_STATE, remembered);
+    }
+
+    members.sort((a, b) => a.sortName.localeCompare(b.sortName));
+    return { from, to, members, candidates: candidates.length, checkedProfiles, complete };
+  }
+
+  /**
+   * Combines the current roster with the members remembered from earlier rosters, and remembers the new ones
+   */
+  private async knownPersons(now: Date): Promise<{ persons: KnownPerson[], current: Set<number>, rosterAvailable: boolean }> {
+    const remembered = await this.store.read<Record<string, KnownPerson>>(PERSONS_STATE) ?? {};
+    const roster = await this.api.getPersons();
+    const today = now.toISOString().slice(0, 10);
+
+    let changed = false;
+    for (const person of roster) {
+      const known = remembered[person.Id];
+      if (!known || known.lastSeen !== today || known.party !== person.Fractie || known.name !== person.Fullname) {
+        remembered[person.Id] = { id: person.Id, name: person.Fullname, party: person.Fractie, lastSeen: today };
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.store.write(PERSONS_STATE, remembered);
+    }
+
+    // Without a roster, the members on the latest remembered roster count as current
+    const persons = Object.values(remembered);
+    const latest = persons.reduce((max, person) => person.lastSeen > max ? person.lastSeen : max, '');
+    const current = roster.length > 0
+      ? new Set(roster.map(person => person.Id as number))
+      : new Set(persons.filter(person => person.lastSeen === latest).map(person => person.id));
+
+    return { persons, current, rosterAvailable: roster.length > 0 };
+  }
+}
+
+/**
+ * Returns a member's entry for a period, or null when they were not seated at any moment in it
+ * Party spans come from the party history on the member page, or else from the latest term.
+ */
+function memberDuring(profile: PersonProfile, from: string, to: string): PeriodMember | null {
+  const spans = profile.partyHistory.length > 0
+    ? profile.partyHistory
+    : [{ party: profile.Fractie, from: profile.term.start, until: profile.term.end }];
+  const overlapping = spans.filter(span => (!span.from || span.from <= to) && (!span.until || span.until >= from));
+  const last = overlapping[overlapping.length - 1];
+  if (!last) {
+    return null;
+  }
+
+  // The membership starts with the first overlapping span, or earlier when the member switched party without a break
+  let first = spans.indexOf(overlapping[0]!);
+  while (first > 0 && adjoins(spans[first - 1]!.until, spans[first]!.from)) {
+    first--;
+  }
+  const memberUntil = last.until ?? (profile.term.end && profile.term.end >= from ? profile.term.end : null);
+
+  return {
+    Id: profile.Id,
+    Persoonsnummer: profile.Persoonsnummer,
+    Voornaam: profile.Voornaam,
+    Roepnaam: profile.Roepnaam,
+    Initialen: profile.Initialen,
+    Tussenvoegsel: profile.Tussenvoegsel,
+    Achternaam: profile.Achternaam,
+    sortName: profile.sortName,
+    citationName: profile.citationName,
+    Fullname: profile.Fullname,
+    Fractie: last.party,
+    FractieAfkorting: findParty(last.party)?.abbreviation ?? last.party,
+    Functie: profile.Functie,
+    Links: profile.Links,
+    memberFrom: spans[first]!.from ?? null,
+    memberUntil,
+    leaveReason: memberUntil && memberUntil === profile.term.end ? profile.term.endReason : null
+  };
+}
+
+/**
+ * Checks whether a span starting on a day follows one ending on another without a break
+ */
+function adjoins(until: string | null, from: string | null): boolean {
+  if (!until || !from) {
+    return false;
+  }
+  return Date.parse(`${from}T00:00:00Z`) - Date.parse(`${until}T00:00:00Z`) <= 24 * 60 * 60 * 1000;
+}
+
+// Export a singleton instance
+export const personDirectoryService = new PersonDirectoryService();
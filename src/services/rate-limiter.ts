@@ -0,0 +1,156 @@
+/**
+ * Client-side rate limiting and concurrency control for upstream requests
+ */
+
+/**
+ * Rate limit settings, applied per upstream host
+ */
+export interface RateLimitOptions {
+  /** Sustained request rate; 0 disables rate limiting */
+  requestsPerSecond: number;
+  /** Number of requests that may be sent at once after an idle period */
+  burst: number;
+  /** Maximum number of requests in flight; further requests wait in a FIFO queue */
+  maxConcurrent: number;
+}
+
+/**
+ * How a request was throttled, as reported to callers
+ */
+export interface ThrottleStatus {
+  /** Time spent waiting for a rate limit token and a free slot, in milliseconds */
+  waitMs: number;
+  /** Requests queued ahead of this one when it arrived */
+  queuedAhead: number;
+  /** Requests currently waiting for the same host */
+  queueDepth: number;
+  /** Requests currently in flight to the same host */
+  active: number;
+}
+
+/**
+ * Permission to send one request; release() must be called when the request has finished
+ */
+export interface Permit {
+  waitMs: number;
+  queuedAhead: number;
+  release: () => void;
+}
+
+interface HostState {
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  waiters: Array<() => void>;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Token bucket rate limiter combined with a per-host concurrency queue
+ * Requests are granted strictly in arrival order, so a burst of downloads cannot starve a search
+ */
+export class RequestGovernor {
+  private hosts = new Map<string, HostState>();
+
+  /**
+   * @throws Error if maxConcurrent is below 1 or the rate or burst is negative, which would stall every request
+   */
+  constructor(private options: RateLimitOptions) {
+    if (!(options.maxConcurrent >= 1)) {
+      throw new Error(`maxConcurrent must be at least 1, got ${options.maxConcurrent}`);
+    }
+    if (!(options.requestsPerSecond >= 0) || !(options.burst >= 0)) {
+      throw new Error(`requestsPerSecond and burst must be at least 0, got ${options.requestsPerSecond} and ${options.burst}`);
+    }
+  }
+
+  /**
+   * Waits until a request to the host may be sent
+   * @param host The upstream host
+   * @returns A permit recording the wait, to be released once the response has been read
+   */
+  async acquire(host: string): Promise<Permit> {
+    const state = this.stateFor(host);
+    const start = Date.now();
+    const queuedAhead = state.waiters.length;
+
+    await new Promise<void>(resolve => {
+      state.waiters.push(resolve);
+      this.pump(state);
+    });
+
+    let released = false;
+    return {
+      waitMs: Date.now() - start,
+      queuedAhead,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        state.active--;
+        this.pump(state);
+      }
+    };
+  }
+
+  /**
+   * Reports the current queue for a host
+   * @param host The upstream host
+   * @returns Number of waiting and in-flight requests
+   */
+  getHostStatus(host: string): { queueDepth: number, active: number } {
+    const state = this.hosts.get(host);
+    return { queueDepth: state ? state.waiters.length : 0, active: state ? state.active : 0 };
+  }
+
+  private stateFor(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { tokens: this.options.burst, lastRefill: Date.now(), active: 0, waiters: [], timer: null };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Grants waiting requests while slots and tokens are available, scheduling a retry for the next token
+   */
+  private pump(state: HostState): void {
+    while (state.waiters.length > 0 && state.active < this.options.maxConcurrent) {
+      if (!this.takeToken(state)) {
+        if (!state.timer) {
+          const delay = Math.ceil((1 - state.tokens) * 1000 / this.options.requestsPerSecond);
+          state.timer = setTimeout(() => {
+            state.timer = null;
+            this.pump(state);
+          }, delay);
+        }
+        return;
+      }
+
+      state.active++;
+      const next = state.waiters.shift();
+      next?.();
+    }
+  }
+
+  private takeToken(state: HostState): boolean {
+    if (this.options.requestsPerSecond <= 0) {
+      return true;
+    }
+
+    const now = Date.now();
+    state.tokens = Math.min(
+      Math.max(1, this.options.burst),
+      state.tokens + (now - state.lastRefill) * this.options.requestsPerSecond / 1000
+    );
+    state.lastRefill = now;
+
+    if (state.tokens < 1) {
+      return false;
+    }
+    state.tokens--;
+    return true;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Retry, backoff and circuit breaker primitives for upstream requests
+ */
+
+/**
+ * Retry settings for upstream requests
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single delay, including Retry-After, in milliseconds */
+  maxDelayMs: number;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures after which the circuit opens */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is allowed, in milliseconds */
+  cooldownMs: number;
+}
+
+/**
+ * Current circuit state as reported to callers
+ */
+export interface CircuitState {
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  /** When an open circuit will allow a trial request (ISO 8601), null otherwise */
+  retryAt: string | null;
+}
+
+/**
+ * Circuit breaker that fails fast after repeated upstream failures
+ * After the cooldown a single trial request is let through; its outcome closes or re-opens the circuit
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInProgress = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Checks whether a request may be sent, claiming the trial slot when half-open
+   * @returns True when the request may proceed
+   */
+  tryAcquire(): boolean {
+    if (this.openedAt === null) {
+      return true;
+    }
+    if (Date.now() - this.openedAt < this.options.cooldownMs || this.trialInProgress) {
+      return false;
+    }
+    this.trialInProgress = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.trialInProgress || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInProgress = false;
+  }
+
+  getState(): CircuitState {
+    if (this.openedAt === null) {
+      return { state: 'closed', consecutiveFailures: this.consecutiveFailures, retryAt: null };
+    }
+
+    const retryAt = this.openedAt + this.options.cooldownMs;
+    return {
+      state: Date.now() >= retryAt ? 'half-open' : 'open',
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: new Date(retryAt).toISOString()
+    };
+  }
+}
+
+/**
+ * Checks whether an HTTP status is worth retrying
+ * @param status The HTTP status code
+ * @returns True for 408, 429 and 5xx responses
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ * @param value The header value
+ * @param now Current time in milliseconds (for testing)
+ * @returns Delay in milliseconds, or null when absent or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff with jitter
+ * @param attempt Zero-based number of the attempt that just failed
+ * @param options Retry settings
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  // Equal jitter: wait at least half the backoff, spread the rest randomly
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,187 @@
+/**
+ * Saved searches ("watches") that report only results not seen at an earlier check
+ * Watches are kept in the local state directory, so they survive restarts
+ */
+
+import { ApiService, apiService, SearchResult } from './api.js';
+import { StateStore, stateStore } from './state-store.js';
+import { applySearchFilters, describeSearchFilters, validateSearchFilters, SearchFilters } from '../utils/search-filters.js';
+
+/**
+ * A saved search with the results seen so far
+ */
+export interface SearchWatch {
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  /** Latest datum among the results seen so far */
+  highWaterMark: string | null;
+  /** datum of every result seen, by result id */
+  seen: Record<string, string | null>;
+}
+
+/**
+ * A watch as shown to callers, without the seen results
+ */
+export type WatchSummary = Omit<SearchWatch, 'seen'> & { seenResults: number };
+
+export interface WatchCheckResult {
+  watch: WatchSummary;
+  previousCheckAt: string | null;
+  previousHighWaterMark: string | null;
+  /** Results not seen before, or seen with an earlier datum, newest first */
+  newResults: SearchResult[];
+  /** Number of results the search returned after filtering */
+  totalResults: number;
+}
+
+// Name of the state file holding all watches
+const WATCHES_STATE = 'watches';
+
+// Most results remembered per watch beyond the current ones; the ones with the oldest datum are forgotten first
+const MAX_SEEN_RESULTS = 1000;
+
+/**
+ * Service that stores named searches and reports their new results
+ */
+export class SearchWatchService {
+  constructor(private api: ApiService = apiService, private store: StateStore = stateStore) {}
+
+  /**
+   * Saves a search and marks its current results as seen
+   * @param name Name of the watch
+   * @param query Search query, in search_tk syntax
+   * @param filters Filters applied to the results
+   * @returns The watch and the number of results that already existed
+   * @throws Error if a watch with this name exists or the search fails
+   */
+  async createWatch(name: string, query: string, filters: SearchFilters = {}, now: Date = new Date()): Promise<{ watch: WatchSummary, existingResults: number }> {
+    validateSearchFilters(filters);
+    const watches = await this.readWatches();
+    if (watches[name]) {
+      throw new Error(`A watch named '${name}' already exists`);
+    }
+
+    const results = await this.search(query, filters);
+    const watch: SearchWatch = {
+      name,
+      query,
+      filters: describeSearchFilters(filters),
+      createdAt: now.toISOString(),
+      lastCheckedAt: now.toISOString(),
+      highWaterMark: null,
+      seen: {}
+    };
+    markSeen(watch, results);
+
+    watches[name] = watch;
+    await this.store.write(WATCHES_STATE, watches);
+    return { watch: summarize(watch), existingResults: results.length };
+  }
+
+  /**
+   * Lists all watches, by name
+   */
+  async listWatches(): Promise<WatchSummary[]> {
+    const watches = await this.readWatches();
+    return Object.values(watches)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(summarize);
+  }
+
+  /**
+   * Deletes a watch
+   * @param name Name of the watch
+   * @returns False if there was no watch with this name
+   */
+  async deleteWatch(name: string): Promise<boolean> {
+    const watches = await this.readWatches();
+    if (!watches[name]) {
+      return false;
+    }
+    delete watches[name];
+    await this.store.write(WATCHES_STATE, watches);
+    return true;
+  }
+
+  /**
+   * Runs a watch's search and reports the results not seen at an earlier check
+   * The new results are then marked as seen and the high-water mark is advanced.
+   * @param name Name of the watch
+   * @returns The new results, newest first
+   * @throws Error if there is no watch with this name or the search fails
+   */
+  async checkWatch(name: string, now: Date = new Date()): Promise<WatchCheckResult> {
+    const watches = await this.readWatches();
+    const watch = watches[name];
+    if (!watch) {
+      throw new Error(`No watch named '${name}'`);
+    }
+
+    const results = await this.search(watch.query, watch.filters);
+    const newResults = results
+      .filter(result => {
+        if (!(result.id in watch.seen)) {
+          return true;
+        }
+        const seenDatum = watch.seen[result.id];
+        return !!result.datum && (!seenDatum || result.datum > seenDatum);
+      })
+      .sort((a, b) => (b.datum || '').localeCompare(a.datum || ''));
+
+    const previousCheckAt = watch.lastCheckedAt;
+    const previousHighWaterMark = watch.highWaterMark;
+    markSeen(watch, results);
+    watch.lastCheckedAt = now.toISOString();
+    await this.store.write(WATCHES_STATE, watches);
+
+    return { watch: summarize(watch), previousCheckAt, previousHighWaterMark, newResults, totalResults: results.length };
+  }
+
+  private async readWatches(): Promise<Record<string, SearchWatch>> {
+    return await this.store.read<Record<string, SearchWatch>>(WATCHES_STATE) ?? {};
+  }
+
+  private async search(query: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const data = await this.api.searchResults(query, { twomonths: filters.recentOnly === true });
+    if (data.error) {
+      throw new Error(data.error);
+    }
+    return applySearchFilters(data.results, filters);
+  }
+}
+
+/**
+ * Records the results in the watch, forgetting the oldest ones beyond MAX_SEEN_RESULTS
+ * Results the search still returns are never forgotten, or the next check would report them as new.
+ */
+function markSeen(watch: SearchWatch, results: SearchResult[]): void {
+  const current = new Set<string>();
+  for (const result of results) {
+    current.add(result.id);
+    watch.seen[result.id] = result.datum;
+    if (result.datum && (!watch.highWaterMark || result.datum > watch.highWaterMark)) {
+      watch.highWaterMark = result.datum;
+    }
+  }
+
+  const ids = Object.keys(watch.seen);
+  if (ids.length > MAX_SEEN_RESULTS) {
+    const forgettable = ids
+      .filter(id => !current.has(id))
+      .sort((a, b) => (watch.seen[a] || '').localeCompare(watch.seen[b] || ''));
+    for (const id of forgettable.slice(0, ids.length - MAX_SEEN_RESULTS)) {
+      delete watch.seen[id];
+    }
+  }
+}
+
+function summarize(watch: SearchWatch): WatchSummary {
+  const { seen, ...summary } = watch;
+  return { ...summary, seenResults: Object.keys(seen).length };
+}
+
+// Export a singleton instance
+export const searchWatchService = new SearchWatchService();
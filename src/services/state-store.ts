@@ -0,0 +1,56 @@
+/**
+ * Local state that has to survive restarts, such as feed checkpoints and saved searches
+ * Every state is a JSON file in one directory, replaced atomically on write
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { STATE_DIR } from '../config.js';
+
+/**
+ * Stores named JSON values as <name>.json files
+ */
+export class StateStore {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Reads a stored value
+   * @param name The state name, such as 'feeds'
+   * @returns The stored value, or null if nothing was stored yet
+   * @throws Error if the file exists but cannot be read or parsed
+   */
+  async read<T>(name: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(name), 'utf8')) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Could not read state ${name} from ${this.directory}: ${error.message || String(error)}`);
+    }
+  }
+
+  /**
+   * Stores a value, replacing the previous one
+   * The value is written to a temporary file first so an interrupted write never leaves a broken file
+   * @param name The state name, such as 'feeds'
+   * @param value Any JSON-serializable value
+   */
+  async write(name: string, value: unknown): Promise<void> {
+    const target = this.filePath(name);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(temporary, JSON.stringify(value, null, 2));
+    await fs.promises.rename(temporary, target);
+  }
+
+  private filePath(name: string): string {
+    if (!/^[a-z0-9-]+$/i.test(name)) {
+      throw new Error(`Invalid state name: ${name}`);
+    }
+    return path.join(this.directory, `${name}.json`);
+  }
+}
+
+// Export a singleton instance
+export const stateStore = new StateStore(STATE_DIR);
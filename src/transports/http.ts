@@ -0,0 +1,259 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import crypto from 'crypto';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** When set, every request except /health must send "Authorization: Bearer <token>" */
+  authToken?: string;
+  /** Creates a fresh MCP server for each session */
+  createServer: () => McpServer;
+}
+
+/**
+ * A running HTTP transport
+ */
+export interface RunningHttpServer {
+  server: http.Server;
+  /** The address the server is listening on */
+  url: string;
+  /** Closes all sessions and stops accepting connections */
+  close: () => Promise<void>;
+}
+
+/**
+ * A connected MCP session over either transport flavour
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+}
+
+// Upper bound for JSON-RPC request bodies
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Thrown when a request body exceeds MAX_BODY_BYTES, answered with 413
+ */
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Starts an HTTP server exposing the MCP tools over Streamable HTTP (/mcp),
+ * with the legacy SSE transport (/sse + /messages) as a fallback for older clients
+ * @param options Host, port, optional bearer token and the server factory
+ * @returns The running server and a function for graceful shutdown
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (error instanceof SyntaxError && !res.headersSent) {
+        sendJsonRpcError(res, 400, -32700, "Parse error: request body is not valid JSON");
+        return;
+      }
+      if (error instanceof PayloadTooLargeError && !res.headersSent) {
+        sendJsonRpcError(res, 413, -32600, `Invalid Request: ${error.message}`);
+        return;
+      }
+
+      console.error("HTTP transport error:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, "Unauthorized: missing or invalid bearer token");
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      await handleStreamableRequest(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSseConnect(res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url.searchParams.get('sessionId') || '');
+    } else {
+      sendJsonRpcError(res, 404, -32601, `Not found: ${req.method} ${url.pathname}`);
+    }
+  }
+
+  /**
+   * Streamable HTTP: POST carries JSON-RPC messages, GET opens a notification stream, DELETE ends the session
+   */
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: session belongs to the SSE transport");
+        return;
+      }
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New sessions start with an initialize request without a session id
+    if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId
+        ? "Session not found"
+        : "Bad Request: no valid session id provided");
+      return;
+    }
+
+    const mcp = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { transport, server: mcp });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await mcp.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Legacy SSE: GET /sse opens the event stream and announces the /messages endpoint
+   */
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    const mcp = options.createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, server: mcp });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+    });
+
+    await mcp.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32000, "Session not found");
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    server,
+    url: `http://${options.host}:${port}`,
+    close: async () => {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map(session => session.server.close().catch(() => undefined)));
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Drop idle keep-alive connections so close() does not wait for them
+        server.closeIdleConnections?.();
+      });
+    }
+  };
+}
+
+/**
+ * Checks the bearer token using a constant-time comparison
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = headerValue(req, 'authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match || !match[1]) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads and parses a JSON request body
+ * An oversized body is read to the end but not kept, so the client still receives the 413
+ * @throws PayloadTooLargeError if the body is too large
+ * @throws SyntaxError if the body is not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  }));
+}
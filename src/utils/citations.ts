@@ -0,0 +1,198 @@
+/**
+ * Utilities for finding citations of parliamentary papers, laws and court rulings in document text
+ */
+
+import { parseReference, ParsedReference } from './references.js';
+
+export type CitationType = 'kamerstuk' | 'handelingen' | 'motie' | 'amendement' | 'wet' | 'ecli' | 'document';
+
+/**
+ * A citation found in a text
+ */
+export interface Citation {
+  type: CitationType;
+  /** The citation as written */
+  text: string;
+  /** Offset of the first character in the text */
+  start: number;
+  /** Offset just past the last character in the text */
+  end: number;
+  /** Normalized form, e.g. 'Kamerstuk 36200-XVI, nr. 12' or 'artikel 2, eerste lid, Wet natuurbescherming' */
+  normalized: string;
+  /** Parliamentary papers the citation refers to, in the form resolve_reference understands */
+  references: ParsedReference[];
+  /** Public URL for citations that live outside tkconv, such as court rulings */
+  url: string | null;
+}
+
+// 'Kamerstukken II 2023/24, 36200-XVI, nr. 12', '36 200 XVI, nrs. 12 en 13', '21501-32 nr. 1234'
+const KAMERSTUK_PATTERN = /(?:\b[Kk]amerstuk(?:ken)?\s+(?:I{1,2}\s+)?(?:\d{4}\s*[/-]\s*\d{2,4}\s*,?\s*)?)?\b\d{2}\s?\d{3}(?:(?:\s*-\s*|\s+)(?:[IVXLC]+|[A-Z]|\d{1,3})(?![\w.]))?\s*,?\s*[Nn][Rr][Ss]?\.?\s*\d+(?:\s*(?:,|en|t\/m)\s*\d+(?![\d/-]))*/g;
+
+const KST_ID_PATTERN = /\bkst-\d{5}(?:-[A-Z0-9]+)*?-\d+(?![\w-])/gi;
+
+const HANDELINGEN_PATTERN = /\bHandelingen\s+I{1,2}\s+\d{4}\s*[/-]\s*(?:\d{4}|\d{2})\s*,?\s*(?:nr\.?\s*)?\d+(?:\s*,?\s*(?:item|punt)\s*\d+)?/g;
+
+const HANDELINGEN_ID_PATTERN = /\bh-(?:tk|ek)-\d{8}-\d+-\d+\b/gi;
+
+// 'motie-Van der Plas c.s. (36200, nr. 12)', 'gewijzigde motie-Bontenbal/Dijk'
+const NAME = "\\p{Lu}[\\p{L}'-]*";
+const PARTICLE = "(?:van|de|der|den|het|ter|ten|in|'t)";
+const PERSON = `(?:${PARTICLE}\\s+)*${NAME}`;
+const MOTION_PATTERN = new RegExp(
+  `\\b(?:[Gg]ewijzigde\\s+)?([Mm]otie|[Aa]mendement)-(${PERSON}(?:\\s+(?:${PARTICLE}\\s+)*${NAME})*(?:\\s*\\/\\s*${PERSON})*)(\\s+c\\.s\\.)?(?:\\s*\\(([^()]{3,80})\\))?`,
+  'gu'
+);
+
+const ECLI_PATTERN = /\bECLI:[A-Z]{2}:[A-Z0-9]{1,7}:\d{4}:[A-Z0-9.]*[A-Z0-9]/g;
+
+const NUMBER_PATTERN = /\b\d{4}[DZA]\d{5}\b/g;
+
+// Words after 'Wet' that end the law's name, or show it is not one
+const NOT_IN_LAW_NAME = [
+  'is', 'wordt', 'werd', 'zijn', 'was', 'dat', 'die', 'om', 'kan', 'moet', 'zal', 'heeft', 'had',
+  'niet', 'ook', 'nog', 'al', 'wel', 'als', 'maar', 'want', 'nu', 'dan', 'er', 'artikel', 'artikelen', 'lid', 'onder'
+];
+
+// Laws by name: 'Grondwet', 'Omgevingswet', 'Wet natuurbescherming', 'Algemene wet bestuursrecht'
+const LAW = [
+  'Algemene wet bestuursrecht',
+  'Burgerlijk Wetboek',
+  'Wetboek van (?:Strafrecht|Strafvordering|Burgerlijke Rechtsvordering|Koophandel)',
+  '\\p{Lu}\\p{Ll}*wet(?:\\s+\\d{4})?',
+  `Wet(?:\\s+(?!(?:${NOT_IN_LAW_NAME.join('|')})(?![\\p{L}\\d'-]))[\\p{Ll}\\d'-]+){1,6}`,
+  'Awb',
+  'BW'
+].join('|');
+
+// 'artikel 2, eerste lid, onder b, van de Wet natuurbescherming', 'artikel 6:162 BW'
+const ARTICLE_PATTERN = new RegExp(
+  `\\b[Aa]rt(?:ikel(?:en)?|\\.)\\s+(\\d+[a-z]?(?::\\d+[a-z]?)?(?:\\.\\d+)?)(?:,?\\s+(\\p{Ll}+)\\s+lid)?(?:,?\\s+onder(?:deel)?\\s+([a-z0-9]+))?(?:,?\\s+(?:van\\s+)?(?:de|het)\\s+|\\s+)?(${LAW})?`,
+  'gu'
+);
+
+const LAW_PATTERN = new RegExp(`(?<![\\p{L}-])(?:${LAW})(?![\\p{L}-])`, 'gu');
+
+// Words a law's name does not end with
+const TRAILING_WORDS = /(?:\s+(?:en|de|het|van|op|tot|voor|in|of|met|te|een|die|dat))+$/u;
+
+/**
+ * Finds citations of Kamerstukken, Handelingen, motions, amendments, laws, court rulings and document numbers
+ * A citation inside a longer one, such as the Kamerstuk in 'motie-Dijk (36200, nr. 12)', is only reported as
+ * part of the longer citation.
+ * @param text Document text
+ * @returns Citations in the order they appear
+ */
+export function extractCitations(text: string): Citation[] {
+  const found: Citation[] = [];
+
+  for (const match of text.matchAll(KAMERSTUK_PATTERN)) {
+    const references = referencesIn(match[0]);
+    if (references.length > 0) {
+      found.push(citation('kamerstuk', match[0], match.index!, references.map(reference => reference.citation).join('; '), references));
+    }
+  }
+
+  for (const pattern of [KST_ID_PATTERN, HANDELINGEN_PATTERN, HANDELINGEN_ID_PATTERN]) {
+    for (const match of text.matchAll(pattern)) {
+      const references = referencesIn(match[0]);
+      const type = references[0]?.kind === 'handelingen' ? 'handelingen' : 'kamerstuk';
+      if (references.length > 0) {
+        found.push(citation(type, match[0], match.index!, references.map(reference => reference.citation).join('; '), references));
+      }
+    }
+  }
+
+  for (const match of text.matchAll(MOTION_PATTERN)) {
+    const type = match[1]!.toLowerCase() === 'motie' ? 'motie' : 'amendement';
+    const names = match[2]!.replace(/\s*\/\s*/g, '/');
+    const normalized = `${type}-${names}${match[3] ? ' c.s.' : ''}`;
+    const references = match[4] ? referencesIn(match[4]) : [];
+    if (references.length > 0) {
+      found.push(citation(type, match[0], match.index!, `${normalized} (${references.map(reference => reference.citation).join('; ')})`, references));
+    } else {
+      // Only the name part when the parentheses hold something else
+      const written = match[4] ? match[0].slice(0, match[0].lastIndexOf('(')).trimEnd() : match[0];
+      found.push(citation(type, written, match.index!, normalized, []));
+    }
+  }
+
+  for (const match of text.matchAll(ECLI_PATTERN)) {
+    const id = match[0];
+    const url = id.startsWith('ECLI:NL:') ? `https://uitspraken.rechtspraak.nl/details?id=${id}` : null;
+    found.push({ ...citation('ecli', id, match.index!, id, []), url });
+  }
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    found.push(citation('document', match[0], match.index!, match[0], referencesIn(match[0])));
+  }
+
+  for (const match of text.matchAll(ARTICLE_PATTERN)) {
+    const law = match[4] ? lawName(match[4]) : null;
+    const article = match[4] ? match[0].slice(0, match[0].lastIndexOf(match[4])) : match[0];
+    const written = law
+      ? article + law
+      // Drop a dangling 'van de' when no law follows
+      : article.replace(/(?:,?\s+(?:van\s+)?(?:de|het)\s*)$/u, '').replace(/[,\s]+$/, '');
+    const parts = [`artikel ${match[1]}`];
+    if (match[2]) {
+      parts.push(`${match[2]} lid`);
+    }
+    if (match[3]) {
+      parts.push(`onder ${match[3]}`);
+    }
+    // 'artikel 6:162 BW', but 'artikel 2, eerste lid, Wet natuurbescherming'
+    const normalized = law ? `${parts.join(', ')}${parts.length > 1 ? ', ' : ' '}${law}` : parts.join(', ');
+    found.push(citation('wet', written, match.index!, normalized, []));
+  }
+
+  for (const match of text.matchAll(LAW_PATTERN)) {
+    const law = lawName(match[0]);
+    if (law) {
+      found.push(citation('wet', law, match.index!, law, []));
+    }
+  }
+
+  return withoutOverlaps(found);
+}
+
+function citation(type: CitationType, text: string, start: number, normalized: string, references: ParsedReference[]): Citation {
+  return { type, text, start, end: start + text.length, normalized, references, url: null };
+}
+
+/**
+ * Parliamentary papers a cited text refers to; all candidates when the citation names several documents
+ */
+function referencesIn(text: string): ParsedReference[] {
+  const result = parseReference(text);
+  if (result.status === 'ok') {
+    return [result.reference];
+  }
+  if (result.status === 'ambiguous') {
+    return result.candidates.filter(candidate => candidate.kind !== 'dossier');
+  }
+  return [];
+}
+
+/**
+ * Trims words such as 'en de' off the end of a law's name; null when nothing but 'Wet' remains
+ */
+function lawName(matched: string): string | null {
+  const name = matched.replace(TRAILING_WORDS, '');
+  return name === 'Wet' ? null : name;
+}
+
+/**
+ * Keeps the longest citation where citations overlap, preferring the one that starts first
+ */
+function withoutOverlaps(citations: Citation[]): Citation[] {
+  const sorted = [...citations].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const kept: Citation[] = [];
+  for (const candidate of sorted) {
+    const last = kept[kept.length - 1];
+    if (last && candidate.start < last.end) {
+      continue;
+    }
+    kept.push(candidate);
+  }
+  return kept;
+}
@@ -0,0 +1,37 @@
+/**
+ * Utilities for reading the dates written in parliamentary documents and on tkconv pages
+ */
+
+const DUTCH_MONTHS = ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
+
+/**
+ * Reads a date like '15 oktober 2024' from a text
+ * @param text Text containing the date
+ * @returns The first date in the text as YYYY-MM-DD, or null when there is none
+ */
+export function parseDutchDate(text: string): string | null {
+  const match = /(\d{1,2})\s+(\p{L}+)\s+(\d{4})/u.exec(text);
+  const month = match ? DUTCH_MONTHS.indexOf(match[2]!.toLowerCase()) : -1;
+  if (!match || month === -1) {
+    return null;
+  }
+  return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[1]!.padStart(2, '0')}`;
+}
+
+/**
+ * Normalizes '2024-10-15', '2024-10-15T10:30:00', '15-10-2024' and '15 oktober 2024' to YYYY-MM-DD
+ */
+export function toIsoDate(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const iso = /^(\d{4}-\d{2}-\d{2})/.exec(value.trim());
+  if (iso) {
+    return iso[1]!;
+  }
+  const numeric = /^(\d{1,2})-(\d{1,2})-(\d{4})$/.exec(value.trim());
+  if (numeric) {
+    return `${numeric[3]}-${numeric[2]!.padStart(2, '0')}-${numeric[1]!.padStart(2, '0')}`;
+  }
+  return parseDutchDate(value);
+}
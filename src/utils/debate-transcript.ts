@@ -0,0 +1,513 @@
+/**
+ * Utilities for splitting debate transcripts (Handelingen, committee reports) into speaker turns
+ */
+
+import { findParty } from './parties.js';
+
+/**
+ * Role of a speaker in a debate
+ */
+export type SpeakerRole = 'voorzitter' | 'minister' | 'staatssecretaris' | 'kamerlid' | 'overig';
+
+/**
+ * A single uninterrupted contribution by one speaker
+ */
+export interface SpeakerTurn {
+  /** Position of the turn in the debate, starting at 0 */
+  index: number;
+  /** Name as written in the heading, e.g. 'Van der Plas'; 'De voorzitter' for the chair */
+  speaker: string;
+  role: SpeakerRole;
+  /** Party as written in the heading, or null when not stated */
+  party: string | null;
+  /** The heading that introduces the turn, e.g. 'Mevrouw Van der Plas (BBB):' */
+  heading: string;
+  /** Offset of the heading in the document text */
+  start: number;
+  /** Offset just past the last character of the turn */
+  end: number;
+  /** Offset of the first spoken word, after the heading */
+  textStart: number;
+  wordCount: number;
+  /** True when the speaker interrupts someone who has the floor */
+  isInterruption: boolean;
+  /** Speaker who had the floor when this turn interrupted them */
+  interrupting: string | null;
+}
+
+/**
+ * Participation of one speaker in a debate
+ */
+export interface SpeakerStatistics {
+  speaker: string;
+  role: SpeakerRole;
+  party: string | null;
+  turns: number;
+  words: number;
+  interruptionsMade: number;
+  interruptionsReceived: number;
+  /** Fraction (0-1) of all words spoken by anyone but the chair */
+  shareOfSpeech: number;
+}
+
+/**
+ * Participation of one party in a debate, compared with its number of seats
+ */
+export interface PartyStatistics {
+  party: string;
+  speakers: string[];
+  turns: number;
+  words: number;
+  interruptionsMade: number;
+  interruptionsReceived: number;
+  shareOfSpeech: number;
+  /** Seats of the party, or null when unknown */
+  seats: number | null;
+  /** Fraction (0-1) of all seats held by the party, or null when unknown */
+  seatShare: number | null;
+  wordsPerSeat: number | null;
+  /** shareOfSpeech divided by seatShare: above 1 means the party spoke more than its size suggests */
+  speechToSeatRatio: number | null;
+}
+
+/**
+ * Speaking time and participation figures for a whole debate
+ */
+export interface DebateStatistics {
+  totals: {
+    turns: number;
+    /** Words spoken by anyone but the chair */
+    words: number;
+    interruptions: number;
+    chairTurns: number;
+    chairWords: number;
+  };
+  /** Speakers other than the chair, most words first */
+  speakers: SpeakerStatistics[];
+  /** Parties as stated in the speaker headings, most words first */
+  parties: PartyStatistics[];
+}
+
+/**
+ * A passage spoken by one speaker, cut at sentence boundaries
+ */
+export interface SpeakerQuote {
+  /** Index of the turn the quote comes from */
+  turnIndex: number;
+  speaker: string;
+  role: SpeakerRole;
+  party: string | null;
+  heading: string;
+  /** Offset of the first character of the quote in the document text */
+  start: number;
+  /** Offset just past the last character of the quote */
+  end: number;
+  /** Quoted text with whitespace collapsed */
+  text: string;
+  /** True when the turn has sentences that are not part of the quote */
+  truncated: boolean;
+  isInterruption: boolean;
+  interrupting: string | null;
+}
+
+export interface QuoteOptions {
+  /** Maximum quote length in characters; a single longer sentence is still quoted whole */
+  maxLength?: number;
+  /** Only quote turns containing this text, centering the quote on its first occurrence */
+  contains?: string;
+}
+
+// Lowercase name particles such as in 'Van der Plas' or 'De Jonge'
+const PARTICLE = "(?:van|der|den|de|het|ter|ten|te|in|op|'t)";
+const NAME_WORD = `(?:\\p{Lu}[\\p{L}'’.-]*|${PARTICLE})`;
+const NAME = `${NAME_WORD}(?:\\s+${NAME_WORD}){0,5}`;
+
+// Words ending in a period that do not end a sentence
+const ABBREVIATIONS = new Set([
+  'dhr', 'mw', 'mevr', 'drs', 'dr', 'mr', 'ir', 'ing', 'prof', 'bijv', 'bv', 'o.a', 'oa', 'nr', 'nrs', 'art', 'blz',
+  'p', 'pag', 'd.w.z', 'm.a.w', 'i.p.v', 'ipv', 'e.d', 'enz', 'etc', 'jl', 'vs', 'resp', 'ca', 'zgn', 'm.b.t', 'mbt', 't.a.v', 'tav'
+]);
+
+// Turns often open by addressing the chair; that is not worth quoting
+const SALUTATION = /^(?:dank u wel,?\s+)?voorzitter[.!]?$/i;
+
+// 'De voorzitter:', 'Mevrouw Van der Plas (BBB):', 'De heer Wilders (PVV):', 'Minister Wiersma:'
+const HEADING_PATTERN = new RegExp(
+  `^(?:(?<chair>De\\s+(?:voorzitter|Voorzitter|VOORZITTER))` +
+  `|(?<aanhef>De heer|Mevrouw|Minister-president|Viceminister-president|Minister|Staatssecretaris)\\s+(?<name>${NAME})(?:\\s*\\((?<party>[^()\\n]{1,40})\\))?)` +
+  `\\s*:`,
+  'u'
+);
+
+/**
+ * Splits a transcript into speaker turns
+ * A turn starts at a heading on its own line such as 'De heer Wilders (PVV):' and runs until the next heading.
+ * The first speaker after the chair gives the floor ("het woord") holds it; turns by others until the chair
+ * gives the floor again are interruptions of that speaker.
+ * @param text Document text with line breaks, as extracted by the document text service
+ * @returns Turns in document order; empty when the text has no speaker headings
+ */
+export function segmentSpeakerTurns(text: string): SpeakerTurn[] {
+  const headings: Array<{ start: number, textStart: number, heading: string, speaker: string, role: SpeakerRole, party: string | null }> = [];
+
+  let lineStart = 0;
+  while (lineStart <= text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.slice(lineStart, lineEnd);
+
+    const match = HEADING_PATTERN.exec(line);
+    if (match?.groups) {
+      const { chair, aanhef, name, party } = match.groups;
+      headings.push({
+        start: lineStart,
+        textStart: skipWhitespace(text, lineStart + match[0].length),
+        heading: match[0].trim(),
+        speaker: chair ? 'De voorzitter' : (name || '').trim(),
+        role: chair ? 'voorzitter' : roleForAanhef(aanhef || '', party),
+        party: party ? party.trim() : null
+      });
+    }
+
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+
+  const turns: SpeakerTurn[] = [];
+  let floorHolder: string | null = null;
+
+  headings.forEach((heading, index) => {
+    const next = headings[index + 1];
+    const end = trimmedEnd(text, heading.textStart, next ? next.start : text.length);
+    const spoken = text.slice(heading.textStart, end);
+
+    let isInterruption = false;
+    let interrupting: string | null = null;
+    if (heading.role === 'voorzitter') {
+      // The chair hands over the floor with "het woord"
+      if (/\bhet woord\b/i.test(spoken)) {
+        floorHolder = null;
+      }
+    } else if (floorHolder === null) {
+      floorHolder = heading.speaker;
+    } else if (floorHolder !== heading.speaker) {
+      isInterruption = true;
+      interrupting = floorHolder;
+    }
+
+    turns.push({
+      index,
+      speaker: heading.speaker,
+      role: heading.role,
+      party: heading.party,
+      heading: heading.heading,
+      start: heading.start,
+      end,
+      textStart: Math.min(heading.textStart, end),
+      wordCount: countWords(spoken),
+      isInterruption,
+      interrupting
+    });
+  });
+
+  return turns;
+}
+
+/**
+ * Totals words, turns and interruptions per speaker and per party
+ * Parties are matched through the party list, so 'GL-PvdA' in a heading finds the seats of 'GroenLinks-PvdA'.
+ * Interruptions received go to the speaker who last spoke under the interrupted name.
+ * @param turns Speaker turns from segmentSpeakerTurns
+ * @param seats Number of seats per party, one entry per party; parties that are missing get null seat figures
+ * @returns Statistics for the debate
+ */
+export function computeDebateStatistics(turns: SpeakerTurn[], seats: Record<string, number> = {}): DebateStatistics {
+  const speakerStats = new Map<string, SpeakerStatistics>();
+  const received = new Map<string, number>();
+  const lastKeyBySpeaker = new Map<string, string>();
+  let chairTurns = 0;
+  let chairWords = 0;
+
+  for (const turn of turns) {
+    if (turn.role === 'voorzitter') {
+      chairTurns++;
+      chairWords += turn.wordCount;
+      continue;
+    }
+
+    const key = `${turn.speaker}|${turn.party ?? ''}|${turn.role}`;
+    const stats = speakerStats.get(key) ?? {
+      speaker: turn.speaker,
+      role: turn.role,
+      party: turn.party,
+      turns: 0,
+      words: 0,
+      interruptionsMade: 0,
+      interruptionsReceived: 0,
+      shareOfSpeech: 0
+    };
+    stats.turns++;
+    stats.words += turn.wordCount;
+    if (turn.isInterruption) {
+      stats.interruptionsMade++;
+    }
+    speakerStats.set(key, stats);
+
+    // The floor holder is known by name only; namesakes are told apart by who last spoke under it
+    const interruptedKey = turn.interrupting ? lastKeyBySpeaker.get(turn.interrupting) : undefined;
+    if (interruptedKey) {
+      received.set(interruptedKey, (received.get(interruptedKey) || 0) + 1);
+    }
+    lastKeyBySpeaker.set(turn.speaker, key);
+  }
+
+  const totalWords = Array.from(speakerStats.values()).reduce((sum, stats) => sum + stats.words, 0);
+  for (const [key, stats] of speakerStats) {
+    stats.interruptionsReceived = received.get(key) || 0;
+    stats.shareOfSpeech = ratio(stats.words, totalWords) ?? 0;
+  }
+  const speakers = Array.from(speakerStats.values());
+
+  const seatsByParty = new Map<string, number>();
+  for (const [party, count] of Object.entries(seats)) {
+    const key = partyKey(party);
+    seatsByParty.set(key, (seatsByParty.get(key) || 0) + count);
+  }
+  const totalSeats = Object.values(seats).reduce((sum, count) => sum + count, 0);
+
+  const partyStats = new Map<string, PartyStatistics>();
+  for (const stats of speakers) {
+    if (!stats.party) continue;
+
+    const key = partyKey(stats.party);
+    const party = partyStats.get(key) ?? {
+      party: stats.party,
+      speakers: [],
+      turns: 0,
+      words: 0,
+      interruptionsMade: 0,
+      interruptionsReceived: 0,
+      shareOfSpeech: 0,
+      seats: seatsByParty.get(key) ?? null,
+      seatShare: null,
+      wordsPerSeat: null,
+      speechToSeatRatio: null
+    };
+    if (!party.speakers.includes(stats.speaker)) {
+      party.speakers.push(stats.speaker);
+    }
+    party.turns += stats.turns;
+    party.words += stats.words;
+    party.interruptionsMade += stats.interruptionsMade;
+    party.interruptionsReceived += stats.interruptionsReceived;
+    partyStats.set(key, party);
+  }
+
+  const parties = Array.from(partyStats.values());
+  for (const party of parties) {
+    party.shareOfSpeech = ratio(party.words, totalWords) ?? 0;
+    if (party.seats) {
+      party.seatShare = ratio(party.seats, totalSeats);
+      party.wordsPerSeat = round(party.words / party.seats);
+      party.speechToSeatRatio = party.seatShare ? round(party.shareOfSpeech / party.seatShare) : null;
+    }
+  }
+
+  const byWords = (a: { words: number }, b: { words: number }) => b.words - a.words;
+  return {
+    totals: {
+      turns: turns.length,
+      words: totalWords,
+      interruptions: turns.filter(turn => turn.isInterruption).length,
+      chairTurns,
+      chairWords
+    },
+    speakers: speakers.sort(byWords),
+    parties: parties.sort(byWords)
+  };
+}
+
+/**
+ * Quotes what the given turns say, one quote per turn
+ * Each quote starts and ends at a sentence boundary and skips an opening 'Voorzitter.'.
+ * @param text Document text the turns were taken from
+ * @param turns Turns to quote, usually those of one speaker
+ * @param options Maximum length and an optional text to center the quotes on
+ * @returns Quotes in document order; turns without matching text are left out
+ */
+export function extractQuotes(text: string, turns: SpeakerTurn[], options: QuoteOptions = {}): SpeakerQuote[] {
+  const maxLength = options.maxLength ?? 600;
+  const needle = options.contains?.trim().toLowerCase();
+  const quotes: SpeakerQuote[] = [];
+
+  for (const turn of turns) {
+    let sentences = splitSentences(text, turn.textStart, turn.end);
+    if (sentences.length > 1 && SALUTATION.test(text.slice(sentences[0]!.start, sentences[0]!.end))) {
+      sentences = sentences.slice(1);
+    }
+    if (sentences.length === 0) continue;
+
+    // Start at the first sentence, or at the one that contains the text we look for
+    let first = 0;
+    if (needle) {
+      first = sentences.findIndex(sentence => text.slice(sentence.start, sentence.end).toLowerCase().includes(needle));
+      if (first === -1) continue;
+    }
+    let last = first;
+
+    // Grow the quote a sentence at a time, after the start first and then before it
+    const length = (from: number, to: number) => sentences[to]!.end - sentences[from]!.start;
+    let grown = true;
+    while (grown) {
+      grown = false;
+      if (last + 1 < sentences.length && length(first, last + 1) <= maxLength) {
+        last++;
+        grown = true;
+      } else if (needle && first > 0 && length(first - 1, last) <= maxLength) {
+        first--;
+        grown = true;
+      }
+    }
+
+    const start = sentences[first]!.start;
+    const end = sentences[last]!.end;
+    quotes.push({
+      turnIndex: turn.index,
+      speaker: turn.speaker,
+      role: turn.role,
+      party: turn.party,
+      heading: turn.heading,
+      start,
+      end,
+      text: text.slice(start, end).replace(/\s+/g, ' '),
+      truncated: first > 0 || last < sentences.length - 1,
+      isInterruption: turn.isInterruption,
+      interrupting: turn.interrupting
+    });
+  }
+
+  return quotes;
+}
+
+/**
+ * Splits part of a text into sentences
+ * A sentence ends at '.', '!' or '?' followed by whitespace and a capital, digit or quote mark,
+ * unless the period belongs to an initial or a common abbreviation such as 'bijv.' or 'nr.'.
+ * @param text Text to split
+ * @param start Offset to start at (default: 0)
+ * @param end Offset to stop at (default: end of text)
+ * @returns Sentence spans without surrounding whitespace
+ */
+export function splitSentences(text: string, start = 0, end = text.length): Array<{ start: number, end: number }> {
+  const sentences: Array<{ start: number, end: number }> = [];
+  const terminator = /[.!?]+["'”’)]*/g;
+  terminator.lastIndex = start;
+  let sentenceStart = skipWhitespace(text, start);
+
+  let match: RegExpExecArray | null;
+  while (sentenceStart < end && (match = terminator.exec(text)) !== null && match.index < end) {
+    const sentenceEnd = Math.min(match.index + match[0].length, end);
+    const next = skipWhitespace(text, sentenceEnd);
+    const followedByBreak = sentenceEnd >= end || (next > sentenceEnd && (next >= end || /[\p{Lu}\p{N}"'“‘(]/u.test(text[next] || '')));
+    if (!followedByBreak || (match[0].startsWith('.') && isAbbreviation(text.slice(sentenceStart, match.index)))) {
+      continue;
+    }
+
+    sentences.push({ start: sentenceStart, end: sentenceEnd });
+    sentenceStart = Math.min(next, end);
+  }
+
+  const rest = trimmedEnd(text, sentenceStart, end);
+  if (rest > sentenceStart) {
+    sentences.push({ start: sentenceStart, end: rest });
+  }
+  return sentences;
+}
+
+/**
+ * Checks whether a speaker heading name refers to the given person
+ * Compares case- and accent-insensitively: 'Van der Plas' matches 'Caroline van der Plas', 'van der plas' and 'Plas'.
+ * @param speaker Name from a speaker heading
+ * @param name Full name or surname of the person
+ * @returns True when the names agree on the surname
+ */
+export function speakerMatchesName(speaker: string, name: string): boolean {
+  const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+  const normalizedSpeaker = normalize(speaker);
+  const normalizedName = normalize(name);
+  if (!normalizedSpeaker || !normalizedName) {
+    return false;
+  }
+  return normalizedSpeaker === normalizedName ||
+    normalizedName.endsWith(` ${normalizedSpeaker}`) ||
+    normalizedSpeaker.endsWith(` ${normalizedName}`);
+}
+
+/**
+ * Counts the words in a piece of text
+ * @param text Text to count
+ * @returns Number of whitespace-separated tokens containing a letter or digit
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * Key that is the same for every way a party is written, e.g. 'GL-PvdA' and 'GroenLinks-PvdA'
+ */
+function partyKey(party: string): string {
+  return (findParty(party)?.abbreviation ?? party).toLowerCase();
+}
+
+/**
+ * Divides and rounds to three decimals, or returns null when dividing by zero
+ */
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? round(part / total) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Checks whether the last word before a period is an initial or abbreviation rather than the end of a sentence
+ */
+function isAbbreviation(sentenceSoFar: string): boolean {
+  const word = /(\S+)$/.exec(sentenceSoFar)?.[1] || '';
+  return /^\p{Lu}$/u.test(word) || /^(?:\p{Lu}\.)+\p{Lu}$/u.test(word) || ABBREVIATIONS.has(word.toLowerCase());
+}
+
+/**
+ * Maps the form of address in a heading to a role
+ */
+function roleForAanhef(aanhef: string, party: string | undefined): SpeakerRole {
+  if (aanhef === 'Staatssecretaris') {
+    return 'staatssecretaris';
+  }
+  if (aanhef.includes('inister')) {
+    return 'minister';
+  }
+  return party ? 'kamerlid' : 'overig';
+}
+
+/**
+ * Moves an offset forward over whitespace
+ */
+function skipWhitespace(text: string, position: number): number {
+  while (position < text.length && /\s/.test(text[position] || '')) {
+    position++;
+  }
+  return position;
+}
+
+/**
+ * Moves an end offset back over trailing whitespace, but not before the start
+ */
+function trimmedEnd(text: string, start: number, end: number): number {
+  let position = end;
+  while (position > start && /\s/.test(text[position - 1] || '')) {
+    position--;
+  }
+  return position;
+}
@@ -7,6 +7,9 @@
 const pdfParse = require('pdf-parse');
 import * as mammoth from 'mammoth';
 import * as natural from 'natural';
+import { extractCitations, CitationType } from './citations.js';
+import { personNameForms } from './person-names.js';
+import { PARTY_NAMES } from './parties.js';
 
 // Initialize TF-IDF for keyword extraction
 const TfIdf = natural.TfIdf;
@@ -18,11 +21,9 @@ const TfIdf = natural.TfIdf;
  */
 export async function extractTextFromPdf(data: ArrayBuffer): Promise<string> {
   try {
-    // Convert ArrayBuffer to Buffer for pdf-parse
-    const buffer = Buffer.from(data);
-
-    // Parse the PDF
-    const result = await pdfParse(buffer);
+    // Parse the PDF; pdf.js copies its input, and copies of small Buffers land in
+    // Node's shared pool where pdf.js reads past them, so pass a plain Uint8Array
+    const result = await pdfParse(new Uint8Array(data));
 
     // Get the text content
     let extractedText = result.text || '';
@@ -69,6 +70,288 @@ export async function extractTextFromDocx(data: ArrayBuffer): Promise<string> {
   }
 }
 
+/**
+ * A page of an extracted document and where its text sits in the full text
+ */
+export interface DocumentPage {
+  /** 1-based page number */
+  number: number;
+  /** Offset of the first character of the page */
+  start: number;
+  /** Offset just past the last character of the page */
+  end: number;
+}
+
+/**
+ * A heading found while extracting a document
+ */
+export interface DocumentHeading {
+  text: string;
+  /** 1 for the most prominent headings */
+  level: number;
+  offset: number;
+  /** Page the heading is on, or null when the format has no pages */
+  page: number | null;
+}
+
+/**
+ * Extracted text that keeps line breaks, paragraphs (separated by a blank line) and pages
+ */
+export interface StructuredText {
+  text: string;
+  /** Pages in order; empty for formats without pages such as Word */
+  pages: DocumentPage[];
+  headings: DocumentHeading[];
+}
+
+/**
+ * A line of text on a PDF page with its vertical position and font size
+ */
+interface PdfLine {
+  text: string;
+  y: number;
+  size: number;
+}
+
+/**
+ * Extracts text from a PDF document, keeping lines, paragraphs, headings and page boundaries
+ * Paragraphs are separated where the vertical gap between lines is larger than the usual line spacing,
+ * headings are paragraphs set in a larger font than the body text or in capitals.
+ * @param data The PDF document as an ArrayBuffer
+ * @returns The extracted text with its page map and headings
+ */
+export async function extractStructuredTextFromPdf(data: ArrayBuffer): Promise<StructuredText> {
+  try {
+    const pageLines: PdfLine[][] = [];
+
+    // Render each page ourselves to keep the text positions (a plain Uint8Array, see extractTextFromPdf)
+    await pdfParse(new Uint8Array(data), {
+      pagerender: (pageData: any) => pageData
+        .getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+        .then((content: any) => {
+          const index = typeof pageData.pageIndex === 'number' ? pageData.pageIndex : pageLines.length;
+          pageLines[index] = collectPdfLines(content.items || []);
+          return '';
+        })
+    });
+
+    const structured = assemblePdfText(Array.from(pageLines, lines => lines || []));
+    if (structured.text.replace(/\s+/g, ' ').trim().length < 50) {
+      return { text: 'The document appears to be a PDF file, but no readable text content could be extracted. This might be due to the document structure, content format, or encryption. Please download the original document for full content.', pages: [], headings: [] };
+    }
+    return structured;
+  } catch (error) {
+    return { text: 'Failed to extract text from the PDF document. This might be due to the document structure, content format, or encryption. Please download the original document for full content.', pages: [], headings: [] };
+  }
+}
+
+/**
+ * Extracts text from a DOCX document, keeping paragraphs and headings
+ * Word documents have no fixed pages, so the page map is empty.
+ * @param data The DOCX document as an ArrayBuffer
+ * @returns The extracted text with its headings
+ */
+export async function extractStructuredTextFromDocx(data: ArrayBuffer): Promise<StructuredText> {
+  try {
+    const result = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+
+    let text = '';
+    const headings: DocumentHeading[] = [];
+    for (const [, tag = '', inner = ''] of (result.value || '').matchAll(/<(h[1-6]|p|li)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+      const blockText = htmlToPlainText(inner);
+      if (!blockText) continue;
+
+      if (text) text += '\n\n';
+      const level = /^h([1-6])$/i.exec(tag)?.[1];
+      if (level) {
+        headings.push({ text: blockText.replace(/\n/g, ' '), level: Number(level), offset: text.length, page: null });
+      }
+      text += blockText;
+    }
+
+    if (text.replace(/\s+/g, ' ').trim().length < 50) {
+      return { text: 'The document appears to be a Word file, but no readable text content could be extracted. This might be due to the document structure or content format. Please download the original document for full content.', pages: [], headings: [] };
+    }
+    return { text, pages: [], headings };
+  } catch (error) {
+    return { text: 'Failed to extract text from the DOCX document. This might be due to the document structure or content format. Please download the original document for full content.', pages: [], headings: [] };
+  }
+}
+
+/**
+ * Looks up the page a character offset falls on
+ * @param pages Page map from a structured extraction
+ * @param offset Character offset in the full text
+ * @returns The 1-based page number, or null when there is no page map
+ */
+export function pageAtOffset(pages: DocumentPage[], offset: number): number | null {
+  if (pages.length === 0) {
+    return null;
+  }
+
+  // Offsets in the separator between two pages belong to the next page
+  let low = 0;
+  let high = pages.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((pages[middle] as DocumentPage).end <= offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return (pages[low] as DocumentPage).number;
+}
+
+/**
+ * Groups the text items of a PDF page into lines
+ */
+function collectPdfLines(items: any[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  for (const item of items) {
+    const str = typeof item.str === 'string' ? item.str : '';
+    const y = Number(item.transform?.[5]) || 0;
+    const size = Math.abs(Number(item.transform?.[3])) || Number(item.height) || 0;
+
+    if (current && Math.abs(current.y - y) <= Math.max(1, current.size * 0.2)) {
+      // The size of a line is that of its first visible text
+      if (!current.text.trim() && str.trim()) {
+        current.size = size;
+      }
+      current.text += str;
+    } else {
+      current = { text: str, y, size };
+      lines.push(current);
+    }
+  }
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/[ \t\u00a0]+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0);
+}
+
+/**
+ * Joins the lines of all pages into text, recording page offsets and headings
+ */
+function assemblePdfText(pageLines: PdfLine[][]): StructuredText {
+  const allLines = pageLines.flat();
+  const bodySize = mostCommon(allLines.map(line => Math.round(line.size * 10) / 10), allLines.map(line => line.text.length));
+
+  let text = '';
+  const pages: DocumentPage[] = [];
+  const headings: DocumentHeading[] = [];
+
+  pageLines.forEach((lines, index) => {
+    const paragraphs = splitPdfParagraphs(lines);
+    if (text && paragraphs.length > 0) {
+      text += '\n\n';
+    }
+    const start = text.length;
+
+    paragraphs.forEach((paragraph, paragraphIndex) => {
+      if (paragraphIndex > 0) {
+        text += '\n\n';
+      }
+      const paragraphText = paragraph.map(line => line.text).join('\n');
+      const level = headingLevel(paragraph, paragraphText, bodySize);
+      if (level > 0) {
+        headings.push({ text: paragraphText.replace(/\n/g, ' '), level, offset: text.length, page: index + 1 });
+      }
+      text += paragraphText;
+    });
+
+    pages.push({ number: index + 1, start, end: text.length });
+  });
+
+  return { text, pages, headings };
+}
+
+/**
+ * Splits the lines of a page into paragraphs at wider gaps, column jumps and font size changes
+ */
+function splitPdfParagraphs(lines: PdfLine[]): PdfLine[][] {
+  const gaps = lines.slice(1).map((line, index) => (lines[index] as PdfLine).y - line.y);
+  const spacing = mostCommon(gaps.filter(gap => gap > 0).map(gap => Math.round(gap)));
+
+  const paragraphs: PdfLine[][] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    const current = paragraphs[paragraphs.length - 1];
+
+    if (!previous || !current || gap <= 0 || (spacing > 0 && gap > spacing * 1.4) || Math.abs(line.size - previous.size) > 0.5) {
+      paragraphs.push([line]);
+    } else {
+      current.push(line);
+    }
+  });
+  return paragraphs;
+}
+
+/**
+ * Decides whether a paragraph is a heading and how prominent it is
+ * @returns 1 or 2 for headings in a larger font, 3 for short lines in capitals, 0 otherwise
+ */
+function headingLevel(paragraph: PdfLine[], paragraphText: string, bodySize: number): number {
+  if (paragraphText.length > 200) {
+    return 0;
+  }
+
+  const size = Math.min(...paragraph.map(line => line.size));
+  if (bodySize > 0 && size >= bodySize * 1.5) {
+    return 1;
+  }
+  if (bodySize > 0 && size >= bodySize * 1.15) {
+    return 2;
+  }
+  if (paragraph.length === 1 && /\p{Lu}{3}/u.test(paragraphText) && paragraphText === paragraphText.toUpperCase()) {
+    return 3;
+  }
+  return 0;
+}
+
+/**
+ * Finds the most common value, optionally weighing each value
+ * @returns The most common value, or 0 when there are none
+ */
+function mostCommon(values: number[], weights?: number[]): number {
+  const totals = new Map<number, number>();
+  values.forEach((value, index) => {
+    totals.set(value, (totals.get(value) || 0) + (weights?.[index] ?? 1));
+  });
+
+  let best = 0;
+  let bestTotal = 0;
+  for (const [value, total] of totals) {
+    if (total > bestTotal || (total === bestTotal && value < best)) {
+      best = value;
+      bestTotal = total;
+    }
+  }
+  return best;
+}
+
+/**
+ * Converts the inner HTML of a block produced by mammoth into plain text
+ */
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
 /**
  * Summarizes the extracted text to a reasonable length
  * @param text The full extracted text
@@ -124,17 +407,22 @@ export interface PersonOccurrence {
   lineStart: number;
   lineEnd: number;
   characterOffset: number;
+  /** Page of the occurrence, or null when the document has no page map */
+  page: number | null;
   snippet: string;
   context: string;
 }
 
 /**
  * Finds all occurrences of a person's name in document text using fuzzy matching
+ * Besides the name as given, the other forms of a Dutch name are matched as whole words:
+ * 'Caroline van der Plas' also finds 'C. van der Plas' and 'mevrouw Van der Plas'.
  * @param text The full document text to search in
  * @param personName The name or part of a name to search for
+ * @param pages Page map of the text, used to report the page of each occurrence
  * @returns Array of occurrence objects with location and context information
  */
-export function findPersonOccurrences(text: string, personName: string): PersonOccurrence[] {
+export function findPersonOccurrences(text: string, personName: string, pages: DocumentPage[] = []): PersonOccurrence[] {
   if (!text || !personName) {
     return [];
   }
@@ -144,8 +432,8 @@ export function findPersonOccurrences(text: string, personName: string): PersonO
   // Split text into lines for line number tracking
   const lines = text.split(/\r?\n/);
   
-  // Normalize the search name for fuzzy matching
-  const normalizedSearchName = normalizeText(personName);
+  // The name as given, then its other forms such as initials and the citation form
+  const searchForms = [personName, ...personNameForms(personName).filter(form => normalizeText(form) !== normalizeText(personName))];
   
   // Track character positions for each line
   let currentCharOffset = 0;
@@ -153,10 +441,7 @@ export function findPersonOccurrences(text: string, personName: string): PersonO
   
   for (let i = 0; i < lines.length; i++) {
     lineOffsets.push(currentCharOffset);
-    const line = lines[i];
-    if (line) {
-      currentCharOffset += line.length + 1; // +1 for newline character
-    }
+    currentCharOffset += (lines[i]?.length ?? 0) + 1; // +1 for newline character
   }
 
   // Search through each line for fuzzy matches
@@ -164,36 +449,40 @@ export function findPersonOccurrences(text: string, personName: string): PersonO
     const line = lines[lineIndex];
     if (!line) continue;
     
-    const normalizedLine = normalizeText(line);
+    // Find the earliest match of any form in the line
+    let matchIndex = -1;
+    let matchLength = 0;
+    for (const form of searchForms) {
+      const index = findFuzzyMatch(line, form, form !== personName);
+      if (index !== -1 && (matchIndex === -1 || index < matchIndex)) {
+        matchIndex = index;
+        matchLength = form.length;
+      }
+    }
     
-    // Check if the normalized line contains the normalized search name
-    if (normalizedLine.includes(normalizedSearchName)) {
-      // Find the actual position in the original line
-      const matchIndex = findFuzzyMatch(line, personName);
+    if (matchIndex !== -1) {
+      const lineOffset = lineOffsets[lineIndex];
+      if (lineOffset !== undefined) {
+        const characterOffset = lineOffset + matchIndex;
+        
+        // Create snippet (30 chars before and after the match)
+        const snippetStart = Math.max(0, matchIndex - 30);
+        const snippetEnd = Math.min(line.length, matchIndex + matchLength + 30);
+        const snippet = line.substring(snippetStart, snippetEnd);
       
-      if (matchIndex !== -1) {
-        const lineOffset = lineOffsets[lineIndex];
-        if (lineOffset !== undefined) {
-          const characterOffset = lineOffset + matchIndex;
-          
-          // Create snippet (30 chars before and after the match)
-          const snippetStart = Math.max(0, matchIndex - 30);
-          const snippetEnd = Math.min(line.length, matchIndex + personName.length + 30);
-          const snippet = line.substring(snippetStart, snippetEnd);
+        // Create context (2 lines before and after)
+        const contextStart = Math.max(0, lineIndex - 2);
+        const contextEnd = Math.min(lines.length, lineIndex + 3);
+        const context = lines.slice(contextStart, contextEnd).join('\n');
         
-          // Create context (2 lines before and after)
-          const contextStart = Math.max(0, lineIndex - 2);
-          const contextEnd = Math.min(lines.length, lineIndex + 3);
-          const context = lines.slice(contextStart, contextEnd).join('\n');
-          
-          occurrences.push({
-            lineStart: lineIndex + 1, // Convert to 1-based line numbers
-            lineEnd: lineIndex + 1,
-            characterOffset,
-            snippet: snippet.trim(),
-            context: context.trim()
-          });
-        }
+        occurrences.push({
+          lineStart: lineIndex + 1, // Convert to 1-based line numbers
+          lineEnd: lineIndex + 1,
+          characterOffset,
+          page: pageAtOffset(pages, characterOffset),
+          snippet: snippet.trim(),
+          context: context.trim()
+        });
       }
     }
   }
@@ -205,9 +494,10 @@ export function findPersonOccurrences(text: string, personName: string): PersonO
  * Finds all occurrences of a political party in document text using fuzzy matching
  * @param text The full document text to search in
  * @param partyName The party abbreviation or name to search for (e.g., 'VVD', 'PVV', 'CDA')
+ * @param pages Page map of the text, used to report the page of each occurrence
  * @returns Array of occurrence objects with location and context information
  */
-export function findPartyOccurrences(text: string, partyName: string): PersonOccurrence[] {
+export function findPartyOccurrences(text: string, partyName: string, pages: DocumentPage[] = []): PersonOccurrence[] {
   if (!text || !partyName) {
     return [];
   }
@@ -226,10 +516,7 @@ export function findPartyOccurrences(text: string, partyName: string): PersonOcc
   
   for (let i = 0; i < lines.length; i++) {
     lineOffsets.push(currentCharOffset);
-    const line = lines[i];
-    if (line) {
-      currentCharOffset += line.length + 1; // +1 for newline character
-    }
+    currentCharOffset += (lines[i]?.length ?? 0) + 1; // +1 for newline character
   }
 
   // Search through each line for fuzzy matches
@@ -263,6 +550,7 @@ export function findPartyOccurrences(text: string, partyName: string): PersonOcc
             lineStart: lineIndex + 1, // Convert to 1-based line numbers
             lineEnd: lineIndex + 1,
             characterOffset,
+            page: pageAtOffset(pages, characterOffset),
             snippet: snippet.trim(),
             context: context.trim()
           });
@@ -321,34 +609,42 @@ function normalizeText(text: string): string {
  * Finds the position of a fuzzy match in the original text
  * @param originalText The original text to search in
  * @param searchName The name to search for
+ * @param wholeWords Only match where the name starts and ends at a word boundary
  * @returns The character index of the match, or -1 if not found
  */
-function findFuzzyMatch(originalText: string, searchName: string): number {
-  const normalizedOriginal = normalizeText(originalText);
+function findFuzzyMatch(originalText: string, searchName: string, wholeWords: boolean = false): number {
   const normalizedSearch = normalizeText(searchName);
-  
-  const index = normalizedOriginal.indexOf(normalizedSearch);
-  if (index === -1) {
+  if (!normalizedSearch) {
     return -1;
   }
-  
-  // Find the corresponding position in the original text
-  let originalIndex = 0;
-  let normalizedIndex = 0;
-  
-  while (normalizedIndex < index && originalIndex < originalText.length) {
-    const char = originalText[originalIndex];
-    if (char) {
-      const normalizedChar = normalizeText(char);
-      
-      if (normalizedChar.length > 0) {
-        normalizedIndex += normalizedChar.length;
+
+  // Normalize character by character, remembering where each normalized character came from
+  let normalized = '';
+  const origins: number[] = [];
+  for (let originalIndex = 0; originalIndex < originalText.length; originalIndex++) {
+    const chars = (originalText[originalIndex] as string)
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\w\s]/g, ' ')
+      .replace(/\s/g, ' ');
+
+    for (const char of chars) {
+      // Collapse whitespace like normalizeText does
+      if (char === ' ' && (normalized === '' || normalized.endsWith(' '))) {
+        continue;
       }
+      normalized += char;
+      origins.push(originalIndex);
     }
-    originalIndex++;
   }
-  
-  return originalIndex;
+
+  let index = normalized.indexOf(normalizedSearch);
+  while (wholeWords && index !== -1 &&
+    ((index > 0 && normalized[index - 1] !== ' ') || (index + normalizedSearch.length < normalized.length && normalized[index + normalizedSearch.length] !== ' '))) {
+    index = normalized.indexOf(normalizedSearch, index + 1);
+  }
+  return index === -1 ? -1 : origins[index] ?? -1;
 }
 
 /**
@@ -368,6 +664,8 @@ export interface DocumentAnalysis {
     documentStructure: string;
   };
   topics: string[];
+  /** Most cited Kamerstukken, laws and rulings, by number of citations */
+  citations: Array<{ type: CitationType; normalized: string; count: number }>;
   relevanceScore?: number;
   preview: string;
 }
@@ -393,6 +691,9 @@ export async function analyzeDocumentContent(
   
   // Extract topics (derived from top keywords)
   const topics = deriveTopics(keywords);
+
+  // Count citations of other papers, laws and rulings
+  const citations = countCitations(text);
   
   // Calculate relevance score if search terms provided
   let relevanceScore: number | undefined;
@@ -408,11 +709,30 @@ export async function analyzeDocumentContent(
     entities,
     statistics,
     topics,
+    citations,
     relevanceScore,
     preview
   };
 }
 
+/**
+ * Counts the citations in a text by their normalized form
+ * @param text The text to analyze
+ * @returns The 10 most cited forms
+ */
+function countCitations(text: string): Array<{ type: CitationType; normalized: string; count: number }> {
+  const counts = new Map<string, { type: CitationType; normalized: string; count: number }>();
+  for (const citation of extractCitations(text)) {
+    const key = `${citation.type}:${citation.normalized}`;
+    const entry = counts.get(key) || { type: citation.type, normalized: citation.normalized, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10);
+}
+
 /**
  * Extracts top keywords from text using TF-IDF analysis
  * @param text The text to analyze
@@ -470,15 +790,6 @@ function extractEntities(text: string): {
     'kamerlid'
   ];
   
-  // Dutch political parties (comprehensive list)
-  const dutchParties = [
-    'VVD', 'PVV', 'CDA', 'D66', 'GroenLinks', 'GL',
-    'PvdA', 'SP', 'PvdD', 'ChristenUnie', 'CU',
-    'SGP', 'DENK', 'FvD', 'Forum voor Democratie',
-    'JA21', 'Volt', 'BIJ1', 'BBB', 'BoerBurgerBeweging',
-    'NSC', 'Nieuw Sociaal Contract', 'Omtzigt'
-  ];
-  
   // Extract persons using pattern matching
   personTitles.forEach(title => {
     // Match patterns like "de heer [Name]" or "minister [Name]"
@@ -507,7 +818,7 @@ function extractEntities(text: string): {
   }
   
   // Extract political parties
-  dutchParties.forEach(party => {
+  PARTY_NAMES.forEach(party => {
     // Look for the party name with word boundaries
     const regex = new RegExp(`\\b${party}\\b`, 'gi');
     if (regex.test(text)) {
@@ -2,7 +2,10 @@
  * Utility functions for parsing HTML content
  */
 
-interface DocumentDetails {
+import { toIsoDate } from './dates.js';
+import { parseDutchName, formatSortName, formatCitationName } from './person-names.js';
+
+export interface DocumentDetails {
   title: string | null;
   type: string | null;
   nummer: string | null;
@@ -50,7 +53,7 @@ interface Activity {
   type?: string;
 }
 
-interface VotingResult {
+export interface VotingResult {
   id: string;
   title: string;
   date: string;
@@ -65,6 +68,69 @@ interface VotingResult {
   url: string;
 }
 
+/**
+ * A parliamentary document or vote listed on a member's page
+ */
+export interface PersonListedItem {
+  /** Document or zaak number, e.g. '2024D40001' */
+  nummer: string | null;
+  title: string;
+  date: string | null;
+  url: string | null;
+  /** How the member or their party voted, for votes: 'Voor', 'Tegen' or 'Niet deelgenomen' */
+  vote?: string | null;
+  /** Outcome, for votes and motions: e.g. 'Aangenomen' */
+  result?: string | null;
+}
+
+/**
+ * The parts of a member's name, as in the Persoon entity of the Tweede Kamer open data
+ */
+export interface PersonNameFields {
+  Voornaam: string;
+  Roepnaam: string;
+  Initialen: string;
+  /** Particles such as 'van der', or an empty string */
+  Tussenvoegsel: string;
+  /** Surname without the tussenvoegsel, e.g. 'Plas' */
+  Achternaam: string;
+  /** Key to sort members on, e.g. 'Plas, C. van der' */
+  sortName: string;
+  /** The name as cited on its own, e.g. 'Van der Plas' */
+  citationName: string;
+}
+
+/**
+ * Everything the persoon.html page tells about a member of parliament
+ * The capitalized fields keep the shape of the kamerleden.html entries
+ */
+export interface PersonProfile extends PersonNameFields {
+  Id: number;
+  Persoonsnummer: number;
+  Fullname: string;
+  Fractie: string;
+  FractieAfkorting: string;
+  Functie: string;
+  Links: {
+    self: string;
+  };
+  birthDate: string | null;
+  birthPlace: string | null;
+  residence: string | null;
+  /** Start and end of the latest membership; end is null while the member is seated */
+  term: {
+    start: string | null;
+    end: string | null;
+    /** Why the member left, e.g. 'Benoemd tot minister', when the page says */
+    endReason: string | null;
+  };
+  partyHistory: Array<{ party: string; from: string | null; until: string | null }>;
+  committees: Array<{ id: string | null; name: string; role: string | null; url: string | null }>;
+  motions: PersonListedItem[];
+  questions: PersonListedItem[];
+  votes: PersonListedItem[];
+}
+
 interface RecentDocument {
   id: string;
   title: string;
@@ -807,3 +873,189 @@ export function extractOverviewFromHtml(html: string, baseUrl: string, page: num
     }
   };
 }
+
+// Section headings on persoon.html and the list each one holds
+const PERSON_SECTIONS: Array<{ key: 'partyHistory' | 'committees' | 'motions' | 'questions' | 'votes', heading: RegExp }> = [
+  { key: 'partyHistory', heading: /^(?:fractie(?:s|geschiedenis|historie)|partij(?:en|geschiedenis))$/i },
+  { key: 'committees', heading: /^commissies?/i },
+  { key: 'motions', heading: /^(?:recente\s+)?moties/i },
+  { key: 'questions', heading: /^(?:recente\s+)?(?:schriftelijke\s+|kamer)?vragen/i },
+  { key: 'votes', heading: /^(?:recente\s+)?stemmingen/i }
+];
+
+const VOTE_PATTERN = /^(?:voor|tegen|niet deelgenomen|afwezig)$/i;
+const RESULT_PATTERN = /^(?:aangenomen|verworpen|ingetrokken|aangehouden)$/i;
+
+/**
+ * Extracts a member's profile from the persoon.html page
+ * Personal details are read from labelled fields ('Geboortedatum', 'Woonplaats', 'Lid sinds') and the
+ * lists from the tables or lists under the section headings ('Fracties', 'Commissies', 'Moties',
+ * 'Schriftelijke vragen', 'Stemmingen'). Dates are returned as YYYY-MM-DD where they can be read.
+ * @param html The HTML content of the persoon.html page
+ * @param id The member's number
+ * @param baseUrl The base URL for resolving relative URLs
+ * @returns The profile, or null when the page does not describe a member
+ */
+export function extractPersonProfileFromHtml(html: string, id: number, baseUrl: string): PersonProfile | null {
+  const fullName = htmlToText(extractValue(html, /<title>([\s\S]*?)<\/title>/i) || extractValue(html, /<h[12][^>]*>([\s\S]*?)<\/h[12]>/i) || '');
+  if (!fullName || /niet gevonden|not found/i.test(fullName)) {
+    return null;
+  }
+
+  const party = htmlToText(extractValue(html, /<h4[^>]*>([\s\S]*?)<\/h4>/i) || labelledValue(html, ['Fractie', 'Partij']) || '');
+  // 'Geboren: 18 mei 1977, Ankara' gives both date and place
+  const born = labelledValue(html, ['Geboren']);
+
+  const profile: PersonProfile = {
+    Id: id,
+    Persoonsnummer: id,
+    ...personNameFields(fullName),
+    Fullname: fullName,
+    Fractie: party,
+    FractieAfkorting: party,
+    Functie: labelledValue(html, ['Functie']) || 'Tweede Kamerlid',
+    Links: {
+      self: `/persoon.html?nummer=${id}`
+    },
+    birthDate: toIsoDate(labelledValue(html, ['Geboortedatum', 'Geboren op']) || born),
+    birthPlace: labelledValue(html, ['Geboorteplaats', 'Geboren te']) || (born && /,\s*([^,\d]+)$/.exec(born)?.[1]) || null,
+    residence: labelledValue(html, ['Woonplaats']),
+    term: {
+      start: toIsoDate(labelledValue(html, ['Lid sinds', 'Lid vanaf', 'Begin termijn', 'Kamerlid sinds'])),
+      end: toIsoDate(labelledValue(html, ['Lid tot', 'Einde termijn', 'Kamerlid tot'])),
+      endReason: labelledValue(html, ['Reden vertrek', 'Reden van vertrek', 'Reden einde lidmaatschap'])
+    },
+    partyHistory: [],
+    committees: [],
+    motions: [],
+    questions: [],
+    votes: []
+  };
+
+  for (const { key, content } of personSections(html)) {
+    for (const row of sectionRows(content)) {
+      const texts = row.cells.map(htmlToText).filter(Boolean);
+      const link = /<a[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/i.exec(row.html);
+      const dates = texts.map(toIsoDate);
+
+      if (key === 'partyHistory') {
+        const name = texts.find((text, index) => !dates[index]);
+        if (name) {
+          const [from = null, until = null] = dates.filter((date): date is string => date !== null);
+          profile.partyHistory.push({ party: name, from, until });
+        }
+      } else if (key === 'committees') {
+        const name = link ? htmlToText(link[2]!) : texts[0];
+        if (name) {
+          const role = texts.find(text => text !== name) || null;
+          profile.committees.push({
+            id: link ? extractValue(link[1]!, /commissie\.html\?id=([^&#]+)/i) : null,
+            name,
+            role,
+            url: link ? new URL(link[1]!, `${baseUrl}/`).href : null
+          });
+        }
+      } else if (link) {
+        const item: PersonListedItem = {
+          nummer: extractValue(link[1]!, /nummer=([^&#]+)/i),
+          title: htmlToText(link[2]!),
+          date: dates.find((date): date is string => date !== null) || null,
+          url: new URL(link[1]!, `${baseUrl}/`).href
+        };
+        if (key === 'votes') {
+          item.vote = texts.find(text => VOTE_PATTERN.test(text)) || null;
+        }
+        if (key !== 'questions') {
+          item.result = texts.find(text => RESULT_PATTERN.test(text)) || null;
+        }
+        profile[key].push(item);
+      }
+    }
+  }
+
+  // The last party in the history is the current one when the page has no party heading
+  if (!profile.Fractie && profile.partyHistory.length > 0) {
+    profile.Fractie = profile.FractieAfkorting = profile.partyHistory[profile.partyHistory.length - 1]!.party;
+  }
+
+  return profile;
+}
+
+/**
+ * Splits a member's full name into its parts
+ * @param fullName Name as shown on tkconv, e.g. 'Caroline van der Plas'
+ * @returns The name fields of a person entry
+ */
+export function personNameFields(fullName: string): PersonNameFields {
+  const name = parseDutchName(fullName);
+  return {
+    Voornaam: name.voornaam || '',
+    Roepnaam: name.roepnaam || '',
+    Initialen: name.initialen || '',
+    Tussenvoegsel: name.tussenvoegsel || '',
+    Achternaam: name.achternaam,
+    sortName: formatSortName(name),
+    citationName: formatCitationName(name)
+  };
+}
+
+/**
+ * Reads the value after a label, as in '<td>Woonplaats</td><td>Deventer</td>' or '<p>Woonplaats: Deventer</p>'
+ */
+function labelledValue(html: string, labels: string[]): string | null {
+  for (const label of labels) {
+    const pattern = new RegExp(`>\\s*${label}\\s*:?\\s*(?:<\\/[^>]+>\\s*)*(?:<(?!\\/)[^>]*>\\s*)*([^<]+)`, 'i');
+    const value = extractValue(html, pattern);
+    if (value && value.replace(/^:\s*/, '')) {
+      return htmlToText(value.replace(/^:\s*/, ''));
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits the page into the sections under the known headings
+ */
+function personSections(html: string): Array<{ key: typeof PERSON_SECTIONS[number]['key'], content: string }> {
+  const headings = Array.from(html.matchAll(/<h([2-5])[^>]*>([\s\S]*?)<\/h\1>/gi));
+  const sections: Array<{ key: typeof PERSON_SECTIONS[number]['key'], content: string }> = [];
+  headings.forEach((heading, index) => {
+    const section = PERSON_SECTIONS.find(candidate => candidate.heading.test(htmlToText(heading[2]!)));
+    if (section) {
+      const start = heading.index! + heading[0].length;
+      const end = headings[index + 1]?.index ?? html.length;
+      sections.push({ key: section.key, content: html.slice(start, end) });
+    }
+  });
+  return sections;
+}
+
+/**
+ * Table rows or list items of a section, with their cells
+ */
+function sectionRows(content: string): Array<{ html: string, cells: string[] }> {
+  const rows = Array.from(content.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi), match => match[1]!)
+    .filter(row => !/<th[\s>]/i.test(row));
+  if (rows.length > 0) {
+    return rows.map(row => ({ html: row, cells: Array.from(row.matchAll(/<td[^>]*>([\s\S]*?)<\/td>/gi), match => match[1]!) }));
+  }
+  return Array.from(content.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi), match => {
+    // Besides the link, list items separate their parts with dashes, commas or parentheses
+    const link = /<a[^>]*>[\s\S]*?<\/a>/i.exec(match[1]!)?.[0];
+    const rest = link ? match[1]!.replace(link, ' ') : match[1]!;
+    return { html: match[1]!, cells: [...(link ? [link] : []), ...rest.split(/\s*[-–]\s+|\s+[-–]\s*|,\s+|\s*[()]\s*/)] };
+  });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
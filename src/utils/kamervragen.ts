@@ -0,0 +1,172 @@
+/**
+ * Utilities for pairing written parliamentary questions (Kamervragen) with their answers
+ */
+
+import { parseDutchDate, toIsoDate } from './dates.js';
+
+// Questions must be answered within three weeks of being submitted
+export const ANSWER_DEADLINE_DAYS = 21;
+
+/**
+ * One numbered question or answer
+ */
+export interface NumberedItem {
+  number: number;
+  text: string;
+}
+
+/**
+ * The parts of a questions document or of the answer document in the Aanhangsel van de Handelingen
+ */
+export interface ParsedKamervragen {
+  /** Zaak number of the questions, e.g. '2024Z13000' */
+  zaakNummer: string | null;
+  /** Member(s) asking, e.g. 'Dijk (SP)' */
+  askedBy: string | null;
+  /** Who the questions are addressed to, e.g. 'minister van Volksgezondheid, Welzijn en Sport' */
+  addressedTo: string | null;
+  subject: string | null;
+  /** Date the questions were submitted (YYYY-MM-DD) */
+  submitted: string | null;
+  /** Who answered, e.g. 'minister Agema (Volksgezondheid, Welzijn en Sport)' */
+  answeredBy: string | null;
+  /** Date the answers were received (YYYY-MM-DD) */
+  received: string | null;
+  questions: NumberedItem[];
+  answers: NumberedItem[];
+}
+
+/**
+ * A question with its answer, when there is one
+ */
+export interface QuestionAnswerPair {
+  number: number;
+  question: string | null;
+  answer: string | null;
+}
+
+/**
+ * How long the answer took compared with the three-week deadline
+ */
+export interface AnswerTiming {
+  submitted: string | null;
+  deadline: string | null;
+  received: string | null;
+  /** Days between submitting and answering, or, while unanswered, until the reference date */
+  daysTaken: number | null;
+  withinDeadline: boolean | null;
+  daysOverdue: number | null;
+}
+
+/**
+ * Parses a questions document or an answer document
+ * Questions start at a line 'Vraag 1' and answers at 'Antwoord 1'; the text runs until the next such line.
+ * @param text Document text
+ * @returns The header details and numbered items that were found
+ */
+export function parseKamervragen(text: string): ParsedKamervragen {
+  const flat = text.replace(/\s+/g, ' ');
+  const parsed: ParsedKamervragen = {
+    zaakNummer: /\b(\d{4}Z\d{5})\b/.exec(text)?.[1] || null,
+    askedBy: null,
+    addressedTo: null,
+    subject: null,
+    submitted: null,
+    answeredBy: null,
+    received: null,
+    questions: [],
+    answers: []
+  };
+
+  // 'Vragen van het lid Dijk (SP) aan de minister van ... over ... (ingezonden 2 september 2024).'
+  const header = /Vragen van (?:het lid|de leden) (.+?) aan (?:de )?(.+?) over (.+?) \(ingezonden ([^)]+)\)/.exec(flat);
+  if (header) {
+    parsed.askedBy = header[1]!.trim();
+    parsed.addressedTo = header[2]!.trim();
+    parsed.subject = header[3]!.trim();
+    parsed.submitted = parseDutchDate(header[4]!);
+  }
+
+  // 'Antwoord van minister Agema (Volksgezondheid, Welzijn en Sport) (ontvangen 8 oktober 2024)'
+  const answer = /Antwoord van (.+?) \(ontvangen ([^)]+)\)/.exec(flat);
+  if (answer) {
+    parsed.answeredBy = answer[1]!.trim();
+    parsed.received = parseDutchDate(answer[2]!);
+  }
+
+  let current: { list: NumberedItem[], item: NumberedItem } | null = null;
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    const heading = /^(Vraag|Antwoord)\s+(\d+)\s*[:.]?\s*(.*)$/.exec(line);
+    if (heading) {
+      const list = heading[1] === 'Vraag' ? parsed.questions : parsed.answers;
+      current = { list, item: { number: parseInt(heading[2]!, 10), text: heading[3] || '' } };
+      list.push(current.item);
+    } else if (/^(?:Mededeling|Toelichting)\b/.test(line)) {
+      // A notice such as a postponement message ends the item before it
+      current = null;
+    } else if (current && line) {
+      current.item.text = current.item.text ? `${current.item.text} ${line}` : line;
+    }
+  }
+
+  for (const item of [...parsed.questions, ...parsed.answers]) {
+    item.text = item.text.replace(/\s+/g, ' ').trim();
+  }
+  return parsed;
+}
+
+/**
+ * Pairs questions and answers by number
+ * Questions are taken from the questions document and, when it has none, from the answer document,
+ * which usually repeats them.
+ * @param questions Parsed questions document
+ * @param answers Parsed answer document, or null when there is none yet
+ * @returns One pair per number, in order
+ */
+export function pairQuestionsAndAnswers(questions: ParsedKamervragen, answers: ParsedKamervragen | null): QuestionAnswerPair[] {
+  const questionTexts = new Map<number, string>();
+  for (const item of [...(answers?.questions || []), ...questions.questions]) {
+    questionTexts.set(item.number, item.text);
+  }
+  const answerTexts = new Map((answers?.answers || []).map(item => [item.number, item.text]));
+
+  const numbers = Array.from(new Set([...questionTexts.keys(), ...answerTexts.keys()])).sort((a, b) => a - b);
+  return numbers.map(number => ({
+    number,
+    question: questionTexts.get(number) ?? null,
+    answer: answerTexts.get(number) ?? null
+  }));
+}
+
+/**
+ * Compares the time taken to answer with the three-week deadline
+ * Dates may also be given with a time or as '10 oktober 2024'; they are reported as YYYY-MM-DD.
+ * @param submitted Date the questions were submitted
+ * @param received Date the answers were received, or null when unanswered
+ * @param now Reference date for unanswered questions (default: today)
+ * @returns Deadline, days taken and days overdue; null fields when a date is unknown or cannot be read
+ */
+export function computeAnswerTiming(submitted: string | null, received: string | null, now: Date = new Date()): AnswerTiming {
+  const submittedDay = toIsoDate(submitted);
+  const receivedDay = toIsoDate(received);
+  const day = 24 * 60 * 60 * 1000;
+  const submittedTime = submittedDay ? Date.parse(`${submittedDay}T00:00:00Z`) : NaN;
+  const endTime = received ? (receivedDay ? Date.parse(`${receivedDay}T00:00:00Z`) : NaN) : Date.parse(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+
+  if (Number.isNaN(submittedTime) || Number.isNaN(endTime)) {
+    return { submitted: submittedDay || submitted, deadline: null, received: receivedDay || received, daysTaken: null, withinDeadline: null, daysOverdue: null };
+  }
+
+  const deadline = new Date(submittedTime + ANSWER_DEADLINE_DAYS * day).toISOString().slice(0, 10);
+  const daysTaken = Math.round((endTime - submittedTime) / day);
+
+  return {
+    submitted: submittedDay,
+    deadline,
+    received: receivedDay,
+    daysTaken,
+    withinDeadline: received ? daysTaken <= ANSWER_DEADLINE_DAYS : (daysTaken <= ANSWER_DEADLINE_DAYS ? null : false),
+    daysOverdue: Math.max(0, daysTaken - ANSWER_DEADLINE_DAYS)
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Utilities for parsing the text of moties and amendementen into their structured parts
+ */
+
+import { VotingResult } from './html-parser.js';
+import { parseDutchDate } from './dates.js';
+
+export type MotionKind = 'motie' | 'gewijzigde motie' | 'amendement' | 'gewijzigd amendement' | 'onbekend';
+
+/**
+ * A "constaterende dat" or "overwegende dat" clause of a motion
+ */
+export interface MotionConsideration {
+  /** Opening word(s), lowercased: 'constaterende', 'overwegende', 'van mening', 'van oordeel' or 'gelet op' */
+  type: string;
+  /** The clause without its opening words and trailing semicolon */
+  text: string;
+}
+
+/**
+ * Kamerstuk number of a parliamentary paper, e.g. 35334 nr. 300
+ */
+export interface KamerstukNumber {
+  /** Dossier number, e.g. '35334' or '36200-XIV' */
+  dossier: string;
+  /** Number within the dossier, e.g. '300' */
+  ondernummer: string | null;
+  /** Title of the dossier */
+  dossierTitle: string | null;
+  /** Citation form, e.g. 'Kamerstuk 35334, nr. 300' */
+  citation: string;
+}
+
+export interface ParsedMotion {
+  kind: MotionKind;
+  /** Heading such as 'MOTIE VAN HET LID VAN DER PLAS C.S.' */
+  heading: string | null;
+  kamerstuk: KamerstukNumber | null;
+  /** Parliamentary year, e.g. '2024-2025' */
+  vergaderjaar: string | null;
+  /** Date the motion was proposed (YYYY-MM-DD) */
+  voorgesteld: string | null;
+  /** Debate the motion was submitted in, as stated in the document or else the dossier title */
+  debate: string | null;
+  /** Whether debate was stated in the document ('document') or taken from the dossier title ('dossier') */
+  debateSource: 'document' | 'dossier' | null;
+  considerations: MotionConsideration[];
+  /** The operative part: what the Kamer asks or states */
+  dictum: {
+    /** Opening words, e.g. 'verzoekt de regering' */
+    opening: string;
+    text: string;
+  } | null;
+  /** Toelichting of an amendment */
+  toelichting: string | null;
+  /** Surnames of all indieners, the first indiener first */
+  indieners: string[];
+}
+
+const CONSIDERATION_PATTERN = /^(constaterende|overwegende|voorts overwegende|tevens overwegende|van mening|van oordeel|gelet op|wijzend op|erkennende)\b(?:\s+dat\b)?[,:]?\s*/i;
+const DICTUM_PATTERN = /^(verzoekt\s+(?:de regering|het kabinet|het presidium|de (?:minister|staatssecretaris|voorzitter)[^,]*)|roept\s+(?:de regering|het kabinet)[^,]*?\s+op|draagt\s+(?:de regering|het kabinet|het presidium)[^,]*?\s+op|spreekt\s+(?:zich\s+)?uit|besluit)\b\s*,?\s*/i;
+const CLOSING_PATTERN = /^en gaat over tot de orde van de dag\.?$/i;
+
+/**
+ * Parses the text of a motie or amendement
+ * Works on the text as extracted from the PDF; lines may be split anywhere within a paragraph.
+ * @param text Document text
+ * @returns The parts that were found; missing parts are null or empty
+ */
+export function parseMotion(text: string): ParsedMotion {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+  const headingIndex = lines.findIndex(line => /^(?:GEWIJZIGDE\s+)?(?:MOTIE|AMENDEMENT)\b/.test(line));
+  const heading = headingIndex === -1 ? null : lines[headingIndex]!;
+
+  const motion: ParsedMotion = {
+    kind: heading ? motionKind(heading) : 'onbekend',
+    heading,
+    kamerstuk: parseKamerstuk(lines),
+    vergaderjaar: firstMatch(lines, /^Vergaderjaar\s+(\d{4}\s*[-–]\s*\d{4})$/i)?.replace(/\s*[-–]\s*/, '-') || null,
+    voorgesteld: null,
+    debate: null,
+    debateSource: null,
+    considerations: [],
+    dictum: null,
+    toelichting: null,
+    indieners: []
+  };
+
+  // 'Voorgesteld 15 oktober 2024' or 'Voorgesteld tijdens het Tweeminutendebat Stikstof (CD 3/10)'
+  const voorgesteld = firstMatch(lines, /^(?:Voorgesteld|Ingediend)\s+(.+)$/i);
+  if (voorgesteld) {
+    motion.voorgesteld = parseDutchDate(voorgesteld);
+    const debate = /^(?:tijdens|bij|in)\s+(?:het\s+)?(.+?)(?:\s+op\s+\d{1,2}\s+\p{L}+\s+\d{4})?$/iu.exec(voorgesteld.replace(/^\d{1,2}\s+\p{L}+\s+\d{4}\s*,?\s*/u, ''));
+    if (debate?.[1]) {
+      motion.debate = debate[1];
+      motion.debateSource = 'document';
+    }
+  }
+  if (!motion.debate && motion.kamerstuk?.dossierTitle) {
+    motion.debate = motion.kamerstuk.dossierTitle;
+    motion.debateSource = 'dossier';
+  }
+
+  if (motion.kind === 'amendement' || motion.kind === 'gewijzigd amendement') {
+    parseAmendmentBody(lines, headingIndex, motion);
+  } else {
+    parseMotionBody(lines, headingIndex, motion);
+  }
+
+  if (motion.indieners.length === 0 && heading) {
+    motion.indieners = namesFromHeading(heading);
+  }
+  return motion;
+}
+
+/**
+ * Finds the voting result of a motion in a list of voting results
+ * Matches on the document title first, then on the subject after 'over' and the first indiener.
+ * @param motion Parsed motion
+ * @param title Title of the motion document, e.g. 'Motie van het lid Van der Plas c.s. over de rekenkundige ondergrens'
+ * @param results Voting results from extractVotingResultsFromHtml
+ * @returns The matching voting result, or null when there is none
+ */
+export function findVotingResultForMotion(motion: ParsedMotion, title: string | null, results: VotingResult[]): VotingResult | null {
+  const normalizedTitle = normalizeTitle(title || '');
+  if (normalizedTitle) {
+    const exact = results.find(result => normalizeTitle(result.title) === normalizedTitle);
+    if (exact) {
+      return exact;
+    }
+  }
+
+  const subject = / over (.+)$/.exec(normalizedTitle)?.[1];
+  const firstIndiener = motion.indieners[0]?.toLowerCase();
+  if (!subject || !firstIndiener) {
+    return null;
+  }
+  return results.find(result => {
+    const candidate = normalizeTitle(result.title);
+    return candidate.endsWith(` over ${subject}`) && candidate.includes(firstIndiener);
+  }) || null;
+}
+
+/**
+ * Parses the considerations, dictum and signatures of a motion
+ */
+function parseMotionBody(lines: string[], headingIndex: number, motion: ParsedMotion): void {
+  let section: 'preamble' | 'considerations' | 'dictum' | 'signatures' = 'preamble';
+  const dictumLines: string[] = [];
+
+  for (const line of lines.slice(headingIndex + 1)) {
+    if (section === 'signatures') {
+      if (/^\p{Lu}/u.test(line) && line.length <= 60 && !/[.;:]$/.test(line)) {
+        motion.indieners.push(line);
+      }
+      continue;
+    }
+
+    if (CLOSING_PATTERN.test(line)) {
+      section = 'signatures';
+      continue;
+    }
+
+    const consideration = CONSIDERATION_PATTERN.exec(line);
+    if (consideration && section !== 'dictum') {
+      motion.considerations.push({ type: consideration[1]!.toLowerCase(), text: line.slice(consideration[0].length) });
+      section = 'considerations';
+      continue;
+    }
+
+    const dictum = section !== 'dictum' ? DICTUM_PATTERN.exec(line) : null;
+    if (dictum) {
+      motion.dictum = { opening: dictum[1]!.trim().toLowerCase(), text: '' };
+      dictumLines.push(line.slice(dictum[0].length));
+      section = 'dictum';
+      continue;
+    }
+
+    // Lines within a paragraph continue the clause before them
+    if (section === 'dictum') {
+      dictumLines.push(line);
+    } else if (section === 'considerations') {
+      const last = motion.considerations[motion.considerations.length - 1]!;
+      last.text = `${last.text} ${line}`;
+    }
+  }
+
+  for (const consideration of motion.considerations) {
+    consideration.text = consideration.text.replace(/\s+/g, ' ').replace(/[;,]\s*(?:en)?$/, '').trim();
+  }
+  if (motion.dictum) {
+    motion.dictum.text = dictumLines.join(' ').replace(/\s+/g, ' ').replace(/[,.]\s*$/, '').trim();
+  }
+}
+
+/**
+ * Parses the changes, toelichting and signatures of an amendment
+ */
+function parseAmendmentBody(lines: string[], headingIndex: number, motion: ParsedMotion): void {
+  const body = lines.slice(headingIndex + 1).filter(line => !/^(?:Voorgesteld|Ingediend)\b/i.test(line));
+  const toelichtingIndex = body.findIndex(line => /^Toelichting$/i.test(line));
+  const changes = toelichtingIndex === -1 ? body : body.slice(0, toelichtingIndex);
+  const explanation = toelichtingIndex === -1 ? [] : body.slice(toelichtingIndex + 1);
+
+  // The indieners sign below the toelichting, one name per line
+  while (explanation.length > 0 && /^\p{Lu}[\p{L}' -]{0,40}$/u.test(explanation[explanation.length - 1]!)) {
+    motion.indieners.unshift(explanation.pop()!);
+  }
+
+  const start = changes.findIndex(line => /^(?:Ondergetekende|De ondergetekende|I\b)/.test(line));
+  if (changes.length > 0) {
+    motion.dictum = {
+      opening: 'stelt het volgende amendement voor',
+      text: changes.slice(Math.max(0, start)).join(' ').replace(/\s+/g, ' ').trim()
+    };
+  }
+  motion.toelichting = explanation.length > 0 ? explanation.join(' ').replace(/\s+/g, ' ').trim() : null;
+}
+
+/**
+ * Finds the dossier and number, e.g. '35334 Problematiek rondom stikstof en PFAS' followed by 'Nr. 300'
+ */
+function parseKamerstuk(lines: string[]): KamerstukNumber | null {
+  for (let index = 0; index < Math.min(lines.length, 15); index++) {
+    const match = /^(\d{2}\s?\d{3})(?:\s*-\s*|\s+)?((?:[IVXLC]+|[A-Z])(?:-[A-Z0-9]+)?)?\s+(.+)$/.exec(lines[index]!);
+    if (!match) continue;
+
+    const dossier = match[1]!.replace(/\s/g, '') + (match[2] ? `-${match[2]}` : '');
+    const ondernummer = lines.slice(index + 1, index + 4)
+      .map(line => /^Nr\.\s*(\d+)$/i.exec(line)?.[1])
+      .find(value => value !== undefined) || null;
+    return {
+      dossier,
+      ondernummer,
+      dossierTitle: match[3]!.trim(),
+      citation: ondernummer ? `Kamerstuk ${dossier}, nr. ${ondernummer}` : `Kamerstuk ${dossier}`
+    };
+  }
+  return null;
+}
+
+function motionKind(heading: string): MotionKind {
+  const amended = /^GEWIJZIGDE?\b/.test(heading);
+  if (/\bAMENDEMENT\b/.test(heading)) {
+    return amended ? 'gewijzigd amendement' : 'amendement';
+  }
+  return amended ? 'gewijzigde motie' : 'motie';
+}
+
+/**
+ * Takes the submitters from 'MOTIE VAN HET LID VAN DER PLAS C.S.' or 'MOTIE VAN DE LEDEN JETTEN EN BONTENBAL'
+ */
+function namesFromHeading(heading: string): string[] {
+  const names = /\bVAN\s+(?:HET\s+LID|DE\s+LEDEN)\s+(.+?)(?:\s+C\.S\.)?(?:\s+(?:TER VERVANGING|OVER)\b.*)?\s*$/i.exec(heading)?.[1];
+  if (!names) {
+    return [];
+  }
+  return names.split(/\s*,\s*|\s+EN\s+/).filter(name => name.length > 0).map(titleCase);
+}
+
+/**
+ * Converts 'VAN DER PLAS' to 'Van der Plas'
+ */
+function titleCase(name: string): string {
+  return name.toLowerCase().split(/\s+/)
+    .map((word, index, words) => index === words.length - 1 || index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word)
+    .join(' ');
+}
+
+function firstMatch(lines: string[], pattern: RegExp): string | null {
+  for (const line of lines) {
+    const match = pattern.exec(line);
+    if (match?.[1]) {
+      return match[1].trim();
+    }
+  }
+  return null;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,186 @@
+/**
+ * Dutch political parties: abbreviations, full names and how parties split and merged
+ */
+
+/**
+ * A founding, split, merger or rename in a party's history
+ */
+export interface PartyEvent {
+  /** Year, or day as YYYY-MM-DD when it matters for the fractie */
+  date: string;
+  type: 'founded' | 'split' | 'merger' | 'joint-fractie' | 'renamed';
+  description: string;
+  /** Abbreviations of the other parties involved */
+  parties: string[];
+}
+
+/**
+ * A party with the names it is written as
+ */
+export interface PartyInfo {
+  abbreviation: string;
+  name: string;
+  /** Other ways the party is written in documents, e.g. 'GL' */
+  aliases: string[];
+  /** Oldest first */
+  history: PartyEvent[];
+}
+
+export const DUTCH_PARTIES: PartyInfo[] = [
+  {
+    abbreviation: 'VVD',
+    name: 'Volkspartij voor Vrijheid en Democratie',
+    aliases: [],
+    history: [{ date: '1948', type: 'founded', description: 'Founded as successor of the Partij van de Vrijheid', parties: [] }]
+  },
+  {
+    abbreviation: 'PVV',
+    name: 'Partij voor de Vrijheid',
+    aliases: [],
+    history: [
+      { date: '2004', type: 'split', description: 'Geert Wilders left the VVD fractie and continued as Groep Wilders', parties: ['VVD'] },
+      { date: '2006', type: 'founded', description: 'Groep Wilders continued as the PVV', parties: [] }
+    ]
+  },
+  {
+    abbreviation: 'CDA',
+    name: 'Christen-Democratisch Appèl',
+    aliases: [],
+    history: [{ date: '1980', type: 'merger', description: 'Merger of KVP, ARP and CHU', parties: ['KVP', 'ARP', 'CHU'] }]
+  },
+  {
+    abbreviation: 'D66',
+    name: 'Democraten 66',
+    aliases: [],
+    history: [{ date: '1966', type: 'founded', description: 'Founded as Democraten 1966', parties: [] }]
+  },
+  {
+    abbreviation: 'GL',
+    name: 'GroenLinks',
+    aliases: [],
+    history: [
+      { date: '1990', type: 'merger', description: 'Merger of PPR, PSP, CPN and EVP', parties: ['PPR', 'PSP', 'CPN', 'EVP'] },
+      { date: '2023-12-06', type: 'joint-fractie', description: 'Forms one fractie with the PvdA after a joint list', parties: ['PvdA', 'GL-PvdA'] }
+    ]
+  },
+  {
+    abbreviation: 'PvdA',
+    name: 'Partij van de Arbeid',
+    aliases: [],
+    history: [
+      { date: '1946', type: 'merger', description: 'Merger of SDAP, VDB and CDU', parties: ['SDAP', 'VDB', 'CDU'] },
+      { date: '2014-11-13', type: 'split', description: 'Tunahan Kuzu and Selçuk Öztürk left the PvdA fractie and later founded DENK', parties: ['DENK'] },
+      { date: '2023-12-06', type: 'joint-fractie', description: 'Forms one fractie with GroenLinks after a joint list', parties: ['GL', 'GL-PvdA'] }
+    ]
+  },
+  {
+    abbreviation: 'GL-PvdA',
+    name: 'GroenLinks-PvdA',
+    aliases: [],
+    history: [{ date: '2023-12-06', type: 'joint-fractie', description: 'Joint fractie of GroenLinks and the PvdA', parties: ['GL', 'PvdA'] }]
+  },
+  {
+    abbreviation: 'SP',
+    name: 'Socialistische Partij',
+    aliases: [],
+    history: [{ date: '1971', type: 'founded', description: 'Founded as KPN/ml, renamed Socialistische Partij in 1972', parties: [] }]
+  },
+  {
+    abbreviation: 'PvdD',
+    name: 'Partij voor de Dieren',
+    aliases: [],
+    history: [{ date: '2002', type: 'founded', description: 'Founded', parties: [] }]
+  },
+  {
+    abbreviation: 'CU',
+    name: 'ChristenUnie',
+    aliases: [],
+    history: [{ date: '2000', type: 'merger', description: 'Merger of GPV and RPF', parties: ['GPV', 'RPF'] }]
+  },
+  {
+    abbreviation: 'SGP',
+    name: 'Staatkundig Gereformeerde Partij',
+    aliases: [],
+    history: [{ date: '1918', type: 'founded', description: 'Founded', parties: [] }]
+  },
+  {
+    abbreviation: 'DENK',
+    name: 'DENK',
+    aliases: [],
+    history: [
+      { date: '2014-11-13', type: 'split', description: 'Tunahan Kuzu and Selçuk Öztürk left the PvdA fractie as Groep Kuzu/Öztürk', parties: ['PvdA'] },
+      { date: '2015', type: 'founded', description: 'Groep Kuzu/Öztürk continued as DENK', parties: [] }
+    ]
+  },
+  {
+    abbreviation: 'FvD',
+    name: 'Forum voor Democratie',
+    aliases: [],
+    history: [
+      { date: '2016', type: 'founded', description: 'Founded as a party after starting as a think tank in 2015', parties: [] },
+      { date: '2020-12', type: 'split', description: 'Members left after a conflict over the party leadership and founded JA21', parties: ['JA21'] }
+    ]
+  },
+  {
+    abbreviation: 'JA21',
+    name: 'JA21',
+    aliases: [],
+    history: [{ date: '2020-12', type: 'split', description: 'Founded by members who left Forum voor Democratie', parties: ['FvD'] }]
+  },
+  {
+    abbreviation: 'Volt',
+    name: 'Volt Nederland',
+    aliases: [],
+    history: [{ date: '2018', type: 'founded', description: 'Founded as the Dutch branch of Volt Europa', parties: [] }]
+  },
+  {
+    abbreviation: 'BIJ1',
+    name: 'BIJ1',
+    aliases: [],
+    history: [{ date: '2016', type: 'founded', description: 'Founded as Artikel 1, renamed BIJ1 in 2017', parties: [] }]
+  },
+  {
+    abbreviation: 'BBB',
+    name: 'BoerBurgerBeweging',
+    aliases: [],
+    history: [{ date: '2019', type: 'founded', description: 'Founded', parties: [] }]
+  },
+  {
+    abbreviation: 'NSC',
+    name: 'Nieuw Sociaal Contract',
+    aliases: ['Omtzigt'],
+    history: [
+      { date: '2021-06-15', type: 'split', description: 'Pieter Omtzigt left the CDA fractie and continued as Lid Omtzigt', parties: ['CDA'] },
+      { date: '2023', type: 'founded', description: 'Founded by Pieter Omtzigt', parties: [] }
+    ]
+  }
+];
+
+/**
+ * Every abbreviation, name and alias, as they are searched for in texts
+ */
+export const PARTY_NAMES: string[] = Array.from(new Set(DUTCH_PARTIES.flatMap(party => [party.abbreviation, party.name, ...party.aliases])));
+
+/**
+ * Finds a party by abbreviation, full name or alias, ignoring case and spacing
+ * @param name The party as written, e.g. 'GroenLinks-PvdA', 'cu' or 'Partij voor de Dieren'
+ * @returns The party, or null when it is not known
+ */
+export function findParty(name: string): PartyInfo | null {
+  return DUTCH_PARTIES.find(party => isPartyName(name, party)) || null;
+}
+
+/**
+ * Checks whether a fractie name as written upstream refers to a party
+ * @param fractie The fractie as written, e.g. on the member list
+ * @param party The party
+ * @returns True when the fractie is one of the party's names
+ */
+export function isPartyName(fractie: string, party: PartyInfo): boolean {
+  const key = partyKey(fractie);
+  return [party.abbreviation, party.name, ...party.aliases].some(form => partyKey(form) === key);
+}
+
+function partyKey(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[\s.]+/g, '');
+}
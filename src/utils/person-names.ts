@@ -0,0 +1,204 @@
+/**
+ * Dutch personal names: first names, initials, tussenvoegsels ('van der') and surnames
+ * Names are sorted on the surname without the tussenvoegsel ('Plas, C. van der') but cited
+ * with it, capitalized ('Van der Plas'), as in the Handelingen.
+ */
+
+import * as natural from 'natural';
+
+/**
+ * The parts of a Dutch name
+ */
+export interface DutchName {
+  /** The name as given */
+  full: string;
+  /** Academic and other titles that were left out, e.g. ['mr.', 'dr.'] */
+  titles: string[];
+  /** First names as written, e.g. 'Henk Jan'; null when only initials were given */
+  voornaam: string | null;
+  /** Name the person goes by: given in parentheses or quotes, otherwise the first names */
+  roepnaam: string | null;
+  /** Initials, e.g. 'H.J.'; derived from the first names when not given */
+  initialen: string | null;
+  /** Lower-case particles before the surname, e.g. 'van der' */
+  tussenvoegsel: string | null;
+  /** Surname without the tussenvoegsel, e.g. 'Plas' */
+  achternaam: string;
+}
+
+// Words that start a tussenvoegsel, in lower case
+const PARTICLES = new Set(['van', 'de', 'der', 'den', 'het', "'t", 't', 'ter', 'ten', 'te', 'in', 'op', 'uit', 'aan', 'bij', 'onder', 'over', 'voor', 'la', 'le', 'du', 'des', 'del', 'della', 'di', 'da', 'dos', 'von', 'zu', 'vom', 'zum', 'el', 'al', "d'", "l'"]);
+
+// Titles before or after a name; the forms of address are included so 'de heer Wilders' can be parsed
+const TITLE_PREFIX = /^(?:(?:mr|dr|drs|ir|ing|prof|ds|dhr|mevr|mw|bc|jhr|jkvr)\.|(?:mr|dr|drs|ir|prof|dhr|mevr)\s|mevrouw\s|de\s+heer\s|heer\s|minister(?:-president)?\s|premier\s|staatssecretaris\s|fractievoorzitter\s|kamerlid\s|het\s+lid\s)/i;
+const TITLE_SUFFIX = /[\s,]+(?:MSc|MA|BSc|BA|LLM|LL\.M\.|MBA|MPA|PhD|Ph\.D\.|MPhil)$/i;
+
+const INITIALS = /^(?:\p{Lu}\p{Ll}{0,2}\.)+$/u;
+
+/**
+ * Parses a Dutch name in any of the usual forms
+ * Accepts 'Caroline van der Plas', 'C. van der Plas', 'C.A. (Caroline) van der Plas', 'Van der Plas',
+ * 'Plas, C. van der' and 'mr. dr. P.H. Omtzigt'. Without a tussenvoegsel the last word is the surname.
+ * @param name The name to parse
+ * @returns The parts of the name
+ */
+export function parseDutchName(name: string): DutchName {
+  const full = name.replace(/\s+/g, ' ').replace(/[\s?!,;:]+$/, '').trim();
+  const titles: string[] = [];
+  let rest = full;
+
+  // Strip titles and forms of address from both ends
+  for (let match = TITLE_PREFIX.exec(rest); match && match[0].length < rest.length; match = TITLE_PREFIX.exec(rest)) {
+    titles.push(match[0].trim().toLowerCase());
+    rest = rest.slice(match[0].length).trim();
+  }
+  for (let match = TITLE_SUFFIX.exec(rest); match && match.index > 0; match = TITLE_SUFFIX.exec(rest)) {
+    titles.push(match[0].replace(/^[\s,]+/, ''));
+    rest = rest.slice(0, match.index).trim();
+  }
+
+  // A name in parentheses or quotes is the roepnaam: 'C.A. (Caroline) van der Plas'
+  let roepnaam: string | null = null;
+  rest = rest.replace(/\s*[("“]([^)"”]+)[)"”]\s*/, (_, called: string) => {
+    roepnaam = called.trim();
+    return ' ';
+  }).trim();
+
+  // Sort form: 'Plas, C. van der'
+  const comma = rest.indexOf(',');
+  if (comma > 0) {
+    const after = rest.slice(comma + 1).trim().split(' ').filter(Boolean);
+    let particleStart = after.length;
+    while (particleStart > 0 && isParticle(after[particleStart - 1]!)) {
+      particleStart--;
+    }
+    return buildName(full, titles, after.slice(0, particleStart), roepnaam, after.slice(particleStart), rest.slice(0, comma).trim());
+  }
+
+  const words = rest.split(' ').filter(Boolean);
+  if (words.every(isParticle)) {
+    // Only particles, such as a search for 'Van der': keep them as the surname
+    return buildName(full, titles, [], roepnaam, [], words.join(' '));
+  }
+  // The tussenvoegsel is the first run of particles followed by at least one other word
+  let particleStart = words.findIndex((word, index) => isParticle(word) && index < words.length - 1 &&
+    words.slice(index).some(later => !isParticle(later)));
+  if (particleStart === -1) {
+    particleStart = words.length - 1;
+  }
+  let surnameStart = particleStart;
+  while (surnameStart < words.length - 1 && isParticle(words[surnameStart]!)) {
+    surnameStart++;
+  }
+
+  return buildName(full, titles, words.slice(0, particleStart), roepnaam, words.slice(particleStart, surnameStart), words.slice(surnameStart).join(' '));
+}
+
+/**
+ * Formats the key a name is sorted on, e.g. 'Plas, C. van der'
+ * @param name A parsed name
+ * @returns Surname, initials (or first names) and tussenvoegsel
+ */
+export function formatSortName(name: DutchName): string {
+  const given = [name.initialen || name.voornaam, name.tussenvoegsel].filter(Boolean).join(' ');
+  return given ? `${name.achternaam}, ${given}` : name.achternaam;
+}
+
+/**
+ * Formats a name the way it is cited on its own, e.g. 'Van der Plas' or 'Wilders'
+ * @param name A parsed name
+ * @returns Tussenvoegsel and surname, starting with a capital
+ */
+export function formatCitationName(name: DutchName): string {
+  const surname = name.tussenvoegsel ? `${name.tussenvoegsel} ${name.achternaam}` : name.achternaam;
+  return surname.replace(/\p{L}/u, letter => letter.toUpperCase());
+}
+
+/**
+ * Lists the forms a person may be referred to by in a text, longest first
+ * 'Caroline van der Plas' gives 'Caroline van der Plas', 'C. van der Plas' and 'Van der Plas'.
+ * @param name The name as given
+ * @returns The distinct forms, without titles
+ */
+export function personNameForms(name: string): string[] {
+  const parsed = parseDutchName(name);
+  const surname = parsed.tussenvoegsel ? `${parsed.tussenvoegsel} ${parsed.achternaam}` : parsed.achternaam;
+  const forms = [
+    parsed.voornaam ? `${parsed.voornaam} ${surname}` : null,
+    parsed.roepnaam && parsed.roepnaam !== parsed.voornaam ? `${parsed.roepnaam} ${surname}` : null,
+    parsed.initialen ? `${parsed.initialen} ${surname}` : null,
+    formatCitationName(parsed)
+  ].filter((form): form is string => !!form);
+
+  const distinct = new Map(forms.map(form => [form.toLowerCase(), form]));
+  return Array.from(distinct.values()).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Scores how well a name as someone wrote it matches a person's name
+ * Surnames are compared typo-tolerantly, also with the tussenvoegsel written into the surname
+ * ('Vanderplas'); a missing tussenvoegsel, first name or initials costs little, a different one more.
+ * A single word is also tried as a first name.
+ * @param query The parsed name that was written
+ * @param candidate The parsed name of the person
+ * @returns Confidence between 0 and 1
+ */
+export function scoreNameMatch(query: DutchName, candidate: DutchName): number {
+  const surnames = [candidate.achternaam, ...candidate.achternaam.split('-')]
+    .map(surname => similarity(query.achternaam, surname) * (surname === candidate.achternaam ? 1 : 0.9));
+  const joined = similarity(`${query.tussenvoegsel || ''}${query.achternaam}`, `${candidate.tussenvoegsel || ''}${candidate.achternaam}`);
+  let score = Math.max(...surnames, joined);
+
+  if (query.tussenvoegsel !== candidate.tussenvoegsel && joined < 0.95) {
+    score *= !query.tussenvoegsel ? 0.95 : !candidate.tussenvoegsel ? 0.85 : 0.8;
+  }
+
+  if (query.voornaam && candidate.voornaam) {
+    score *= similarity(query.voornaam, candidate.voornaam) >= 0.85 ? 1 : 0.8;
+  } else if (query.initialen && candidate.initialen) {
+    score *= normalizeName(query.initialen).charAt(0) === normalizeName(candidate.initialen).charAt(0) ? 1 : 0.85;
+  } else if (!query.voornaam && !query.initialen && !query.tussenvoegsel && candidate.voornaam) {
+    score = Math.max(score, 0.8 * similarity(query.achternaam, candidate.voornaam));
+  }
+
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Typo-tolerant similarity of two names, ignoring case, accents and punctuation
+ */
+function similarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return 0;
+  }
+  return left === right ? 1 : natural.JaroWinklerDistance(left, right);
+}
+
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function buildName(full: string, titles: string[], given: string[], roepnaam: string | null, particles: string[], achternaam: string): DutchName {
+  const initialWords = given.filter(word => INITIALS.test(word));
+  const firstNames = given.filter(word => !INITIALS.test(word));
+  const voornaam = firstNames.length > 0 ? firstNames.join(' ') : null;
+  const initialen = initialWords.length > 0
+    ? initialWords.join('')
+    : voornaam ? voornaam.split(/[\s-]+/).map(word => `${word.charAt(0).toUpperCase()}.`).join('') : null;
+
+  return {
+    full,
+    titles,
+    voornaam,
+    roepnaam: roepnaam ?? voornaam,
+    initialen,
+    tussenvoegsel: particles.length > 0 ? particles.join(' ').toLowerCase() : null,
+    achternaam
+  };
+}
+
+function isParticle(word: string): boolean {
+  return PARTICLES.has(word.toLowerCase());
+}
@@ -0,0 +1,182 @@
+/**
+ * Utilities for recognizing references to parliamentary papers, such as 'Kamerstuk 36200-XVI nr. 12' or '2024D39058'
+ */
+
+export type ReferenceKind = 'document' | 'zaak' | 'activiteit' | 'kamerstuk' | 'dossier' | 'handelingen';
+
+/**
+ * A reference in its normalized form
+ */
+export interface ParsedReference {
+  kind: ReferenceKind;
+  /** Identifier accepted by tkconv's /op/ endpoint, e.g. '2024D39058', 'kst-36200-XVI-12' or 'h-tk-20232024-45-12'; null for a whole dossier or meeting */
+  id: string | null;
+  /** Dossier number of a Kamerstuk, e.g. '36200-XVI' */
+  dossier: string | null;
+  /** Number of the Kamerstuk within its dossier, e.g. '12' */
+  ondernummer: string | null;
+  /** Citation form, e.g. 'Kamerstuk 36200-XVI, nr. 12' or 'Handelingen II 2023/24, nr. 45, item 12' */
+  citation: string;
+}
+
+export type ReferenceParseResult =
+  | { status: 'ok', reference: ParsedReference }
+  | { status: 'ambiguous', reason: string, candidates: ParsedReference[] }
+  | { status: 'unrecognized', reason: string };
+
+// 2024D39058 (document), 2024Z01234 (zaak), 2024A01234 (activiteit)
+const NUMBER_PATTERN = /\b(\d{4})([DZA])(\d{5})\b/gi;
+
+// kst-36410-5, kst-36200-XVI-12, also inside officielebekendmakingen.nl URLs
+const KST_PATTERN = /\bkst-(\d{5})((?:-[A-Z0-9]+)*?)-(\d+)(?![\w-])/i;
+
+// 'Handelingen II 2023/24, nr. 45, item 12'; the item is missing when a whole meeting is meant
+const HANDELINGEN_PATTERN = /\bHandelingen\s+(I{1,2})\s+(\d{4})\s*[/-]\s*(\d{4}|\d{2})\s*,?\s*(?:nr\.?\s*)?(\d+)(?:\s*,?\s*(?:item|punt)\s*(\d+))?/i;
+
+// h-tk-20232024-45-12, the identifier of a Handelingen item on officielebekendmakingen.nl
+const HANDELINGEN_ID_PATTERN = /\bh-(tk|ek)-(\d{4})(\d{4})-(\d+)-(\d+)\b/i;
+
+// 'Kamerstukken II 2023/24,' before the dossier number
+const CITATION_PREFIX = /^(?:kamerstuk(?:ken)?|kst\.?)\s*(?:I{1,2}\b)?\s*(?:\d{4}\s*[/-]\s*\d{2,4})?\s*,?\s*/i;
+
+// '36200-XVI nr. 12', '36 200 XVI, nrs. 12 en 13', '21501-32, nr. 1234', '36410'
+const DOSSIER_PATTERN = /^(\d{2}\s?\d{3})(?:(?:\s*-\s*|\s+)([IVXLC]+|[A-Z]|\d{1,3})(?![\w.]))?\s*,?\s*(?:[Nn][Rr][Ss]?\.?\s*(\d+(?:\s*(?:,|en|t\/m)\s*\d+)*))?\s*\.?$/;
+
+const KIND_BY_LETTER: Record<string, ReferenceKind> = { D: 'document', Z: 'zaak', A: 'activiteit' };
+
+// Largest number of documents a range such as 'nrs. 12 t/m 14' is expanded to
+const MAX_RANGE = 20;
+
+/**
+ * Recognizes a free-form reference and normalizes it
+ * References to a whole dossier, or to several documents at once, are reported as ambiguous with the
+ * possible readings as candidates.
+ * @param input Reference as written, e.g. 'Kamerstuk 36200-XVI nr. 12', 'kst-36410-5' or '2024D39058'
+ * @returns The normalized reference, the candidates when ambiguous, or the reason it is not recognized
+ */
+export function parseReference(input: string): ReferenceParseResult {
+  const text = input.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return { status: 'unrecognized', reason: 'The reference is empty' };
+  }
+
+  const numbers = Array.from(new Set(Array.from(text.matchAll(NUMBER_PATTERN), match => match[0].toUpperCase())));
+  if (numbers.length === 1) {
+    return { status: 'ok', reference: numberReference(numbers[0]!) };
+  }
+  if (numbers.length > 1) {
+    return { status: 'ambiguous', reason: `The reference contains ${numbers.length} different numbers`, candidates: numbers.map(numberReference) };
+  }
+
+  const kst = KST_PATTERN.exec(text);
+  if (kst) {
+    return { status: 'ok', reference: kamerstukReference(`${kst[1]}${kst[2]!.toUpperCase()}`, kst[3]!) };
+  }
+
+  const handelingenId = HANDELINGEN_ID_PATTERN.exec(text);
+  if (handelingenId) {
+    const kamer = handelingenId[1]!.toLowerCase() === 'tk' ? 'II' : 'I';
+    return { status: 'ok', reference: handelingenReference(kamer, handelingenId[2]!, handelingenId[3]!, handelingenId[4]!, handelingenId[5]!) };
+  }
+
+  const handelingen = HANDELINGEN_PATTERN.exec(text);
+  if (handelingen) {
+    const startYear = handelingen[2]!;
+    const endYear = handelingen[3]!.length === 4 ? handelingen[3]! : String(parseInt(startYear, 10) + 1);
+    const reference = handelingenReference(handelingen[1]!.toUpperCase(), startYear, endYear, handelingen[4]!, handelingen[5] || null);
+    if (reference.id) {
+      return { status: 'ok', reference };
+    }
+    return { status: 'ambiguous', reason: `The reference names a whole meeting (${reference.citation}); add the item, e.g. 'item 1'`, candidates: [reference] };
+  }
+
+  const dossierMatch = DOSSIER_PATTERN.exec(text.replace(CITATION_PREFIX, ''));
+  if (!dossierMatch) {
+    return {
+      status: 'unrecognized',
+      reason: "Not a recognized reference; expected a document, zaak or activiteit number (e.g. '2024D39058'), a Kamerstuk (e.g. 'Kamerstuk 36200-XVI nr. 12'), a Handelingen item (e.g. 'Handelingen II 2023/24, nr. 45, item 12') or an identifier such as 'kst-36410-5'"
+    };
+  }
+
+  const number = dossierMatch[1]!.replace(/\s/g, '');
+  const suffix = dossierMatch[2];
+  const dossier = suffix ? `${number}-${suffix}` : number;
+  const ondernummers = dossierMatch[3] ? expandNumbers(dossierMatch[3]) : [];
+
+  if (ondernummers.length === 1) {
+    return { status: 'ok', reference: kamerstukReference(dossier, ondernummers[0]!) };
+  }
+  if (ondernummers.length > 1) {
+    return {
+      status: 'ambiguous',
+      reason: `The reference names ${ondernummers.length} Kamerstukken in dossier ${dossier}`,
+      candidates: ondernummers.map(ondernummer => kamerstukReference(dossier, ondernummer))
+    };
+  }
+
+  // '36410-5' is either dossier 36410-5 or Kamerstuk 36410 nr. 5
+  const candidates = [dossierReference(dossier)];
+  if (suffix && /^\d+$/.test(suffix)) {
+    candidates.push(kamerstukReference(number, suffix));
+  }
+  return {
+    status: 'ambiguous',
+    reason: `The reference names dossier ${dossier} but not a document in it; add the number, e.g. '${dossier} nr. 1'`,
+    candidates
+  };
+}
+
+function numberReference(nummer: string): ParsedReference {
+  return {
+    kind: KIND_BY_LETTER[nummer.charAt(4)] || 'document',
+    id: nummer,
+    dossier: null,
+    ondernummer: null,
+    citation: nummer
+  };
+}
+
+function kamerstukReference(dossier: string, ondernummer: string): ParsedReference {
+  return {
+    kind: 'kamerstuk',
+    id: `kst-${dossier}-${ondernummer}`,
+    dossier,
+    ondernummer,
+    citation: `Kamerstuk ${dossier}, nr. ${ondernummer}`
+  };
+}
+
+function handelingenReference(kamer: string, startYear: string, endYear: string, nummer: string, item: string | null): ParsedReference {
+  const citation = `Handelingen ${kamer} ${startYear}/${endYear.slice(2)}, nr. ${nummer}`;
+  return {
+    kind: 'handelingen',
+    id: item ? `h-${kamer === 'I' ? 'ek' : 'tk'}-${startYear}${endYear}-${nummer}-${item}` : null,
+    dossier: null,
+    ondernummer: null,
+    citation: item ? `${citation}, item ${item}` : citation
+  };
+}
+
+function dossierReference(dossier: string): ParsedReference {
+  return { kind: 'dossier', id: null, dossier, ondernummer: null, citation: `Kamerstuk ${dossier}` };
+}
+
+/**
+ * Expands '12, 13 en 15' and '12 t/m 14' into separate numbers
+ */
+function expandNumbers(list: string): string[] {
+  const numbers: string[] = [];
+  for (const part of list.split(/\s*(?:,|en)\s*/)) {
+    const range = /^(\d+)\s*t\/m\s*(\d+)$/.exec(part);
+    if (range) {
+      const from = parseInt(range[1]!, 10);
+      const to = Math.min(parseInt(range[2]!, 10), from + MAX_RANGE - 1);
+      for (let value = from; value <= to; value++) {
+        numbers.push(String(value));
+      }
+    } else if (part) {
+      numbers.push(part);
+    }
+  }
+  return Array.from(new Set(numbers));
+}
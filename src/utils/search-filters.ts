@@ -0,0 +1,82 @@
+/**
+ * Filters applied to search results after they come back from tkconv
+ */
+
+export interface SearchFilters {
+  /** Earliest datum to include (YYYY-MM-DD, inclusive) */
+  dateFrom?: string;
+  /** Latest datum to include (YYYY-MM-DD, inclusive) */
+  dateTo?: string;
+  /** Document type such as 'Motie' or 'Brief regering' */
+  soort?: string;
+  /** Result category: 'Document', 'Activiteit' or 'Zaak' */
+  category?: string;
+  /** Only search the last two months; passed upstream as twomonths */
+  recentOnly?: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks that the date bounds are valid calendar dates in the right order
+ * @param filters Filters to check
+ * @throws Error describing the first invalid bound
+ */
+export function validateSearchFilters(filters: SearchFilters): void {
+  for (const [name, value] of [['dateFrom', filters.dateFrom], ['dateTo', filters.dateTo]] as const) {
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = new Date(`${value}T00:00:00Z`);
+    if (!DATE_PATTERN.test(value) || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+      throw new Error(`Invalid ${name} '${value}': expected a date in the form YYYY-MM-DD`);
+    }
+  }
+  if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    throw new Error(`dateFrom (${filters.dateFrom}) is after dateTo (${filters.dateTo})`);
+  }
+}
+
+/**
+ * Keeps the results that match every filter that is set
+ * Dates are compared on the day part of datum, soort matches case-insensitively on part of the value
+ * and category must match exactly. Results without a datum are dropped when a date bound is set.
+ * @param results Search results from ApiService.search
+ * @param filters Filters to apply
+ * @returns The matching results, in their original order
+ */
+export function applySearchFilters<T extends { datum?: string | null, soort?: string | null, category?: string }>(results: T[], filters: SearchFilters): T[] {
+  const soort = filters.soort?.trim().toLowerCase();
+
+  return results.filter(result => {
+    const day = typeof result.datum === 'string' ? result.datum.slice(0, 10) : '';
+    if (filters.dateFrom && (!day || day < filters.dateFrom)) {
+      return false;
+    }
+    if (filters.dateTo && (!day || day > filters.dateTo)) {
+      return false;
+    }
+    if (soort && !(result.soort || '').toLowerCase().includes(soort)) {
+      return false;
+    }
+    if (filters.category && result.category !== filters.category) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Lists the filters that are in effect, for echoing back in tool responses
+ * @param filters Filters passed to the tool
+ * @returns The filters that are set, with recentOnly always present
+ */
+export function describeSearchFilters(filters: SearchFilters): SearchFilters {
+  const applied: SearchFilters = {};
+  if (filters.dateFrom) applied.dateFrom = filters.dateFrom;
+  if (filters.dateTo) applied.dateTo = filters.dateTo;
+  if (filters.soort?.trim()) applied.soort = filters.soort.trim();
+  if (filters.category) applied.category = filters.category;
+  applied.recentOnly = filters.recentOnly === true;
+  return applied;
+}